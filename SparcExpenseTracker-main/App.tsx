@@ -1,7 +1,13 @@
-import React, { useState, useCallback, useMemo, useEffect } from 'react';
+import React, { useState, useCallback, useMemo, useEffect, useRef } from 'react';
 import { useLocalStorage } from './hooks/useLocalStorage';
+import { useRepositoryCollection } from './hooks/useRepositoryCollection';
+import { useRepositorySetting } from './hooks/useRepositorySetting';
+import { useUndoHistory } from './hooks/useUndoHistory';
+import { useRouter } from './hooks/useRouter';
+import { useServiceWorker } from './hooks/useServiceWorker';
+import { expenseRepository, categoryRepository } from './services/repositories';
 // Fix: Import the `Category` type to resolve a `Cannot find name 'Category'` error.
-import type { Expense, Currency, CustomCategory, CategoryDefinition, Category } from './types';
+import type { Expense, Currency, CustomCategory, CategoryDefinition, Category, TransactionInput, RecurringTransaction, RecurrenceFrequency, RecurringEditScope, ExchangeRates, AiExample, CategoryRule, Merchant, Account, Contact } from './types';
 import { Page } from './constants';
 import Dashboard from './components/Dashboard';
 import AddExpense from './components/AddExpense';
@@ -10,13 +16,34 @@ import Settings from './components/Settings';
 import BottomNav from './components/BottomNav';
 import { PlusIcon } from './components/Icons';
 import ErrorBoundary from './components/ErrorBoundary';
-import { CATEGORIES, CATEGORY_COLORS } from './constants';
+import UndoToast from './components/UndoToast';
+import UpdatePrompt from './components/UpdatePrompt';
+import { CATEGORIES, CATEGORY_COLORS, INCOME_CATEGORIES, INCOME_CATEGORY_COLORS, TRANSFER_CATEGORY, TRANSFER_COLOR } from './constants';
+import { getCategoryKind, generateTransactionId } from './utils/transactionUtils';
+import { collectDueOccurrences } from './utils/recurrence';
+import { convertTransactionToBase } from './utils/currencyUtils';
+import { getCategoryBudgets } from './utils/budgetUtils';
+import { getTagSummaries } from './utils/tagUtils';
+import { recordAiCorrection, type AiCorrection } from './utils/aiExamples';
+import type { RecordUndoableAction, UndoableData } from './utils/undoHistory';
+import { getDashboardPath, getPagePath, getSettingsPath, getTransactionPath, parseRoute, parseSharedText } from './utils/routes';
+import { DEFAULT_TRASH_RETENTION_DAYS, getActiveExpenses, isTrashed, moveToTrash, purgeExpiredTrash } from './utils/trash';
 
 const initializeCategories = (): CategoryDefinition[] => {
   return CATEGORIES.map(name => ({
     name,
     color: CATEGORY_COLORS[name as Category] || '#9CA3AF',
     isDefault: true,
+    kind: 'expense' as const,
+  }));
+};
+
+const initializeIncomeCategories = (): CategoryDefinition[] => {
+  return INCOME_CATEGORIES.map(name => ({
+    name,
+    color: INCOME_CATEGORY_COLORS[name as Category] || '#6B7280',
+    isDefault: true,
+    kind: 'income' as const,
   }));
 };
 
@@ -28,17 +55,146 @@ const sortExpenses = (expenses: Expense[]): Expense[] => {
   });
 };
 
+const buildTransactionExpenses = (transactionId: string, transaction: TransactionInput): Expense[] => {
+  return transaction.splits.map(split => ({
+    id: `${transactionId}-${Math.random().toString(36).substr(2, 9)}`,
+    transactionId,
+    vendor: transaction.vendor,
+    date: transaction.date,
+    notes: transaction.notes,
+    kind: transaction.kind,
+    recurringId: transaction.recurringId,
+    importId: transaction.importId,
+    rawVendor: transaction.rawVendor,
+    accountId: transaction.accountId,
+    toAccountId: transaction.kind === 'transfer' ? transaction.toAccountId : undefined,
+    sharing: transaction.kind === 'expense' ? transaction.sharing : undefined,
+    settlement: transaction.kind === 'transfer' ? transaction.settlement : undefined,
+    tags: transaction.tags && transaction.tags.length > 0 ? transaction.tags : undefined,
+    currency: transaction.currency,
+    originalAmount: transaction.currency ? split.originalAmount : undefined,
+    amount: split.amount,
+    category: split.category
+  }));
+};
+
+const getExpenseKey = (expense: Expense) => expense.id;
+const getCategoryKey = (category: CategoryDefinition) => category.name;
+
 const App: React.FC = () => {
-  const [expenses, setExpenses] = useLocalStorage<Expense[]>('expenses', []);
-  const [categories, setCategories] = useLocalStorage<CategoryDefinition[]>('categories', []);
-  const [activePage, setActivePage] = useState<Page>(Page.Add);
+  const [expenses, setExpenses, expensesStatus] = useRepositoryCollection(expenseRepository, getExpenseKey, sortExpenses);
+  const [categories, setCategories, categoriesStatus] = useRepositoryCollection(categoryRepository, getCategoryKey);
   const [editingTransaction, setEditingTransaction] = useState<Expense[] | null>(null);
   const [isAddFormDirty, setIsAddFormDirty] = useState(false);
-  const [currency, setCurrency] = useLocalStorage<Currency>('currency', { code: 'INR', name: 'Indian Rupee', symbol: '₹' });
+  // Only the add/edit form reports unsaved changes, so this guards leaving it by link or by the browser's back button.
+  const confirmDiscardChanges = useCallback(() => {
+    if (!isAddFormDirty) return true;
+    if (!window.confirm('You have unsaved changes. Are you sure you want to discard them?')) return false;
+    setIsAddFormDirty(false);
+    return true;
+  }, [isAddFormDirty]);
+  const { location, navigate } = useRouter(confirmDiscardChanges);
+  const route = useMemo(() => parseRoute(location.pathname), [location.pathname]);
+  const activePage = route.page;
+
+  // A shared message is moved out of the URL, so refreshing or going back doesn't parse it again.
+  const [sharedText, setSharedText] = useState<string | null>(null);
+  useEffect(() => {
+    const text = route.page === Page.Add && !route.transactionId ? parseSharedText(location.search) : null;
+    if (!text) return;
+    setSharedText(text);
+    navigate(getPagePath(Page.Add), { replace: true });
+  }, [location.search]);
+  const [currency, setCurrency, currencyStatus] = useRepositorySetting<Currency>('currency', { code: 'INR', name: 'Indian Rupee', symbol: '₹' });
   const [scrollToTransactionId, setScrollToTransactionId] = useState<string | null>(null);
+  const [recurringTransactions, setRecurringTransactions] = useLocalStorage<RecurringTransaction[]>('recurringTransactions', []);
+  const hasMaterializedRecurring = useRef(false);
+  const [exchangeRates, setExchangeRates] = useLocalStorage<ExchangeRates>('exchangeRates', {});
+  const [aiExamples, setAiExamples] = useLocalStorage<AiExample[]>('aiExamples', []);
+  const [rules, setRules] = useLocalStorage<CategoryRule[]>('categoryRules', []);
+  const [merchants, setMerchants] = useLocalStorage<Merchant[]>('merchants', []);
+  const [accounts, setAccounts] = useLocalStorage<Account[]>('accounts', []);
+  const [contacts, setContacts] = useLocalStorage<Contact[]>('contacts', []);
+  const [trashRetentionDays, setTrashRetentionDays] = useLocalStorage<number>('trashRetentionDays', DEFAULT_TRASH_RETENTION_DAYS);
+  const [pendingParses, setPendingParses] = useLocalStorage<string[]>('pendingParses', []);
+  const isDataLoaded = expensesStatus.isLoaded && categoriesStatus.isLoaded && currencyStatus.isLoaded;
+  const [toast, setToast] = useState<{ message: string; action: 'undo' | 'redo' } | null>(null);
+
+  const undoableData = useMemo<UndoableData>(
+    () => ({ expenses, categories, recurringTransactions, rules, merchants, accounts, contacts, exchangeRates, currency }),
+    [expenses, categories, recurringTransactions, rules, merchants, accounts, contacts, exchangeRates, currency]
+  );
+  const applyUndoChanges = useCallback((changes: Partial<UndoableData>) => {
+    if (changes.expenses) setExpenses(sortExpenses(changes.expenses));
+    if (changes.categories) setCategories(changes.categories);
+    if (changes.recurringTransactions) setRecurringTransactions(changes.recurringTransactions);
+    if (changes.rules) setRules(changes.rules);
+    if (changes.merchants) setMerchants(changes.merchants);
+    if (changes.accounts) setAccounts(changes.accounts);
+    if (changes.contacts) setContacts(changes.contacts);
+    if (changes.exchangeRates) setExchangeRates(changes.exchangeRates);
+    if (changes.currency) setCurrency(changes.currency);
+  }, [setExpenses, setCategories, setRecurringTransactions, setRules, setMerchants, setAccounts, setContacts, setExchangeRates, setCurrency]);
+  const { history: undoHistory, status: historyStatus, recordAction, undo, redo } = useUndoHistory(undoableData, isDataLoaded, applyUndoChanges);
+  const storageStatuses = [expensesStatus, categoriesStatus, currencyStatus, historyStatus];
+  const hasStorageLoadError = storageStatuses.some(status => status.hasLoadError);
+  const hasStorageSaveError = storageStatuses.some(status => status.hasSaveError);
+
+  const recordUndoable = useCallback<RecordUndoableAction>((label, options = {}) => {
+    recordAction(label);
+    if (options.destructive) setToast({ message: label, action: 'undo' });
+  }, [recordAction]);
+
+  const handleUndo = useCallback(() => {
+    const entry = undo();
+    setToast(entry ? { message: `Undid: ${entry.label}`, action: 'redo' } : null);
+  }, [undo]);
+
+  const handleRedo = useCallback(() => {
+    const entry = redo();
+    setToast(entry ? { message: `Redid: ${entry.label}`, action: 'undo' } : null);
+  }, [redo]);
+
+  const dismissToast = useCallback(() => setToast(null), []);
 
-  // One-time initialization and migration
+  const { isUpdateAvailable, applyUpdate } = useServiceWorker();
+  const [isUpdateDismissed, setIsUpdateDismissed] = useState(false);
+  // Reloading throws away the add form, so it gets the same check as leaving it.
+  const handleApplyUpdate = () => {
+    if (confirmDiscardChanges()) applyUpdate();
+  };
+
+  const handleViewTransaction = useCallback((transactionId: string) => {
+    setToast(null);
+    setScrollToTransactionId(transactionId);
+    navigate(getPagePath(Page.Expenses));
+  }, [navigate]);
+
+  // Settings hands back whole lists (restores, merges, renames), which may be in any order.
+  const replaceExpenses = useCallback((next: Expense[]) => setExpenses(sortExpenses([...next])), [setExpenses]);
+
+  // Ctrl+Z / Ctrl+Shift+Z (or Cmd on a Mac), except while typing, where they belong to the field.
   useEffect(() => {
+    const handleKeyDown = (event: KeyboardEvent) => {
+      const target = event.target as HTMLElement | null;
+      if (target && (target.isContentEditable || ['INPUT', 'TEXTAREA', 'SELECT'].includes(target.tagName))) return;
+      if (!(event.ctrlKey || event.metaKey) || event.altKey) return;
+      const key = event.key.toLowerCase();
+      if (key === 'z' && !event.shiftKey) {
+        event.preventDefault();
+        handleUndo();
+      } else if ((key === 'z' && event.shiftKey) || key === 'y') {
+        event.preventDefault();
+        handleRedo();
+      }
+    };
+    window.addEventListener('keydown', handleKeyDown);
+    return () => window.removeEventListener('keydown', handleKeyDown);
+  }, [handleUndo, handleRedo]);
+
+  // One-time initialization and migration, once stored data has loaded
+  useEffect(() => {
+    if (!isDataLoaded) return;
     let needsCategoriesUpdate = false;
     let finalCategories = [...categories];
 
@@ -46,6 +202,16 @@ const App: React.FC = () => {
       needsCategoriesUpdate = true;
       finalCategories = initializeCategories();
     }
+
+    // Users from before income tracking have no income categories yet.
+    if (!finalCategories.some(c => getCategoryKind(c) === 'income')) {
+      const existingNames = new Set(finalCategories.map(c => c.name.toLowerCase()));
+      const incomeCatsToAdd = initializeIncomeCategories().filter(c => !existingNames.has(c.name.toLowerCase()));
+      if (incomeCatsToAdd.length > 0) {
+        finalCategories = [...finalCategories, ...incomeCatsToAdd];
+        needsCategoriesUpdate = true;
+      }
+    }
     
     const storedCustomCategoriesRaw = localStorage.getItem('customCategories');
     if (storedCustomCategoriesRaw) {
@@ -76,90 +242,200 @@ const App: React.FC = () => {
       const migratedExpenses = expenses.map(e => e.transactionId ? e : { ...e, transactionId: e.id });
       setExpenses(sortExpenses(migratedExpenses));
     }
-  }, []);
+  }, [isDataLoaded]);
 
 
-  const allCategoryNames = useMemo(() => categories.map(c => c.name).sort(), [categories]);
+  const allCategoryNames = useMemo(() => categories.filter(c => getCategoryKind(c) === 'expense').map(c => c.name).sort(), [categories]);
+  const allIncomeCategoryNames = useMemo(() => categories.filter(c => getCategoryKind(c) === 'income').map(c => c.name).sort(), [categories]);
+  // Every category a transaction can carry, used for filtering lists of mixed transactions.
+  // Trashed transactions stay in `expenses` until purged but are hidden everywhere except the trash.
+  const activeExpenses = useMemo(() => getActiveExpenses(expenses), [expenses]);
+  const allTags = useMemo(() => getTagSummaries(activeExpenses).map(t => t.name), [activeExpenses]);
+  const allTransactionCategoryNames = useMemo(() => [...allCategoryNames, ...allIncomeCategoryNames, TRANSFER_CATEGORY], [allCategoryNames, allIncomeCategoryNames]);
+
+  const categoryBudgets = useMemo(() => getCategoryBudgets(categories), [categories]);
 
   const allCategoryColors = useMemo(() => {
     return categories.reduce((acc, cat) => {
       acc[cat.name] = cat.color;
       return acc;
-    }, {} as Record<string, string>);
+    }, { [TRANSFER_CATEGORY]: TRANSFER_COLOR } as Record<string, string>);
   }, [categories]);
 
 
-  const addTransaction = useCallback((transaction: { vendor: string; date: string; notes?: string; splits: { amount: number; category: string }[] }) => {
-    const newTransactionId = Date.now().toString();
-    const newExpenses: Expense[] = transaction.splits.map(split => ({
-      id: `${newTransactionId}-${Math.random().toString(36).substr(2, 9)}`,
-      transactionId: newTransactionId,
-      vendor: transaction.vendor,
-      date: transaction.date,
-      notes: transaction.notes,
-      amount: split.amount,
-      category: split.category
-    }));
+  // Background additions (like recurring occurrences) pass `navigate: false` to leave the current page alone.
+  const addTransaction = useCallback((transaction: TransactionInput, options: { navigate?: boolean } = {}) => {
+    const { navigate: shouldNavigate = true } = options;
+    const newTransactionId = generateTransactionId();
+    const newExpenses = buildTransactionExpenses(newTransactionId, transaction);
+
+    if (shouldNavigate) recordUndoable(`Added ${transaction.vendor}`);
+    setExpenses(prevExpenses => sortExpenses([...newExpenses, ...prevExpenses]));
+    if (shouldNavigate) {
+      setIsAddFormDirty(false);
+      setScrollToTransactionId(newTransactionId);
+      navigate(getPagePath(Page.Expenses));
+    }
+  }, [setExpenses, recordUndoable, navigate]);
+
+  // Saves a batch (e.g. reviewed bulk SMS) in one update so the list is only re-sorted once.
+  const addTransactions = useCallback((transactions: TransactionInput[]) => {
+    if (transactions.length === 0) return;
+    const newExpenses = transactions.flatMap(transaction => buildTransactionExpenses(generateTransactionId(), transaction));
 
+    recordUndoable(`Added ${transactions.length} ${transactions.length === 1 ? 'transaction' : 'transactions'}`);
     setExpenses(prevExpenses => sortExpenses([...newExpenses, ...prevExpenses]));
     setIsAddFormDirty(false);
-    setScrollToTransactionId(newTransactionId);
-    setActivePage(Page.Expenses); 
-  }, [setExpenses]);
+    navigate(getPagePath(Page.Expenses));
+  }, [setExpenses, recordUndoable, navigate]);
+
+  // Settling up happens from the people screen, so unlike other additions it stays there.
+  const addSettlement = useCallback((transaction: TransactionInput) => {
+    recordUndoable(`Settled up: ${transaction.vendor}`);
+    setExpenses(prevExpenses => sortExpenses([...buildTransactionExpenses(generateTransactionId(), transaction), ...prevExpenses]));
+  }, [setExpenses, recordUndoable]);
+
+  // Creates a transaction for every occurrence that has fallen due and advances each series past them.
+  // Foreign-currency occurrences are converted at the current rates.
+  const materializeDueRecurring = useCallback((series: RecurringTransaction[]): RecurringTransaction[] => {
+    const today = new Date().toISOString().slice(0, 10);
+    return series.map(s => {
+      const { dueDates, nextDueDate } = collectDueOccurrences(s, today);
+      if (dueDates.length === 0) return s;
+      const { splits, sharing } = convertTransactionToBase(s, currency.code, exchangeRates);
+      dueDates.forEach(date => addTransaction({
+        vendor: s.vendor,
+        date,
+        notes: s.notes,
+        kind: s.kind,
+        splits,
+        currency: s.currency,
+        tags: s.tags,
+        accountId: s.accountId,
+        toAccountId: s.toAccountId,
+        sharing,
+        recurringId: s.id,
+      }, { navigate: false }));
+      return { ...s, nextDueDate };
+    });
+  }, [addTransaction, currency.code, exchangeRates]);
+
+  useEffect(() => {
+    // Wait for expenses to load, and guard against StrictMode re-running the effect and materializing occurrences twice.
+    if (!isDataLoaded || hasMaterializedRecurring.current) return;
+    hasMaterializedRecurring.current = true;
+    if (recurringTransactions.length > 0) {
+      setRecurringTransactions(materializeDueRecurring(recurringTransactions));
+    }
+  }, [isDataLoaded]);
+
+  useEffect(() => {
+    if (!isDataLoaded) return;
+    setExpenses(prevExpenses => purgeExpiredTrash(prevExpenses, trashRetentionDays));
+  }, [isDataLoaded, trashRetentionDays]);
+
+  const learnAiCorrection = useCallback((correction: AiCorrection) => {
+    setAiExamples(prev => recordAiCorrection(prev, correction));
+  }, [setAiExamples]);
+
+  const addRecurringTransaction = useCallback((transaction: TransactionInput, frequency: RecurrenceFrequency, endDate?: string) => {
+    const newSeries: RecurringTransaction = {
+      id: `recurring-${generateTransactionId()}`,
+      vendor: transaction.vendor,
+      notes: transaction.notes,
+      kind: transaction.kind,
+      splits: transaction.splits,
+      currency: transaction.currency,
+      tags: transaction.tags,
+      accountId: transaction.accountId,
+      toAccountId: transaction.toAccountId,
+      sharing: transaction.sharing,
+      frequency,
+      startDate: transaction.date,
+      endDate,
+      nextDueDate: transaction.date,
+    };
+    recordUndoable(`Added recurring ${transaction.vendor}`);
+    const [materializedSeries] = materializeDueRecurring([newSeries]);
+    setRecurringTransactions(prev => [...prev, materializedSeries]);
+    setIsAddFormDirty(false);
+    navigate(getPagePath(Page.Expenses));
+  }, [materializeDueRecurring, setRecurringTransactions, recordUndoable, navigate]);
 
   const deleteTransaction = useCallback((transactionId: string) => {
-    setExpenses(prevExpenses => prevExpenses.filter(expense => expense.transactionId !== transactionId));
-  }, [setExpenses]);
+    const vendor = expenses.find(expense => expense.transactionId === transactionId)?.vendor;
+    recordUndoable(vendor ? `Moved ${vendor} to trash` : 'Moved transaction to trash', { destructive: true });
+    setExpenses(prevExpenses => moveToTrash(prevExpenses, transactionId));
+  }, [setExpenses, expenses, recordUndoable]);
 
   const handleStartEdit = useCallback((transactionId: string) => {
-    const transactionToEdit = expenses.filter(e => e.transactionId === transactionId);
+    setIsAddFormDirty(false);
+    navigate(getTransactionPath(transactionId));
+  }, [navigate]);
+
+  // The transaction being edited comes from the URL, so an edit link survives a refresh. Later
+  // changes to the data don't reload it, which would throw away what the user has typed.
+  useEffect(() => {
+    if (!isDataLoaded) return;
+    if (!route.transactionId) {
+      setEditingTransaction(null);
+      return;
+    }
+    const transactionToEdit = activeExpenses.filter(e => e.transactionId === route.transactionId);
     if (transactionToEdit.length > 0) {
-      setIsAddFormDirty(false);
       setEditingTransaction(transactionToEdit);
-      setActivePage(Page.Add);
+    } else {
+      navigate(getPagePath(Page.Expenses), { replace: true });
     }
-  }, [expenses]);
-
-  const updateTransaction = useCallback((updatedTransaction: { transactionId: string, vendor: string; date: string; notes?: string; splits: { amount: number; category: string }[] }) => {
-    const { transactionId } = updatedTransaction;
-
-    // Create new expense objects for the updated transaction
-    const updatedExpenses: Expense[] = updatedTransaction.splits.map(split => ({
-      id: `${transactionId}-${Math.random().toString(36).substr(2, 9)}`, // new unique IDs for splits
-      transactionId: transactionId,
-      vendor: updatedTransaction.vendor,
-      date: updatedTransaction.date,
-      notes: updatedTransaction.notes,
-      amount: split.amount,
-      category: split.category
-    }));
+  }, [isDataLoaded, route.transactionId]);
+
+  const updateTransaction = useCallback((updatedTransaction: TransactionInput & { transactionId: string }, scope: RecurringEditScope = 'occurrence') => {
+    const { transactionId, recurringId } = updatedTransaction;
+
+    // Create new expense objects for the updated transaction (with new unique IDs for splits)
+    const updatedExpenses = buildTransactionExpenses(transactionId, updatedTransaction);
+    recordUndoable(`Edited ${updatedTransaction.vendor}`);
+
+    // Editing "all future" occurrences rewrites the series template and any later occurrences
+    // that have already been created. The schedule itself is left unchanged, and occurrences in
+    // the trash stay there.
+    const applyToFuture = scope === 'future' && !!recurringId;
+    const isLaterOccurrence = (e: Expense) => applyToFuture && e.recurringId === recurringId && e.transactionId !== transactionId && e.date > updatedTransaction.date && !isTrashed(e);
 
     // Atomically remove all old expenses for this transactionId and add the new ones, then sort
-    setExpenses(prev => sortExpenses([
-      ...prev.filter(e => e.transactionId !== transactionId),
-      ...updatedExpenses
-    ]));
+    setExpenses(prev => {
+      const laterTransactionIds = new Set(prev.filter(isLaterOccurrence).map(e => e.transactionId));
+      const rewrittenLater = Array.from(laterTransactionIds).flatMap(id => {
+        const { date } = prev.find(e => e.transactionId === id)!;
+        return buildTransactionExpenses(id, { ...updatedTransaction, date });
+      });
+      return sortExpenses([
+        ...prev.filter(e => e.transactionId !== transactionId && !laterTransactionIds.has(e.transactionId)),
+        ...updatedExpenses,
+        ...rewrittenLater
+      ]);
+    });
+
+    if (applyToFuture) {
+      setRecurringTransactions(prev => prev.map(s => s.id === recurringId
+        ? { ...s, vendor: updatedTransaction.vendor, notes: updatedTransaction.notes, kind: updatedTransaction.kind, splits: updatedTransaction.splits, currency: updatedTransaction.currency, tags: updatedTransaction.tags, accountId: updatedTransaction.accountId, toAccountId: updatedTransaction.toAccountId, sharing: updatedTransaction.sharing }
+        : s
+      ));
+    }
 
-    setEditingTransaction(null);
     setIsAddFormDirty(false);
     setScrollToTransactionId(transactionId);
-    setActivePage(Page.Expenses);
-  }, [setExpenses]);
+    navigate(getPagePath(Page.Expenses));
+  }, [setExpenses, setRecurringTransactions, recordUndoable, navigate]);
   
   const handleScrollComplete = useCallback(() => {
     setScrollToTransactionId(null);
   }, []);
   
+  // Edit mode ends with the /transactions/:id URL, so navigating anywhere clears it.
   const handleNavigate = (targetPage: Page) => {
-    if (activePage === Page.Add && isAddFormDirty) {
-      if (window.confirm('You have unsaved changes. Are you sure you want to discard them?')) {
-        setIsAddFormDirty(false);
-        setEditingTransaction(null);
-        setActivePage(targetPage);
-      }
-    } else {
-      setEditingTransaction(null); // Always clear edit mode on navigation
-      setActivePage(targetPage);
+    if (confirmDiscardChanges()) {
+      navigate(getPagePath(targetPage));
     }
   };
 
@@ -167,19 +443,44 @@ const App: React.FC = () => {
     if (activePage === Page.Add) {
       handleNavigate(Page.Dashboard);
     } else {
-      setEditingTransaction(null);
-      setActivePage(Page.Add);
+      navigate(getPagePath(Page.Add));
     }
   };
   
+  // Showing an empty ledger here would invite the user to start over on top of data that's still there.
+  if (hasStorageLoadError) {
+    return (
+      <div className="min-h-screen flex items-center justify-center bg-gray-50 p-4">
+        <div className="max-w-sm text-center space-y-3" role="alert">
+          <h1 className="text-xl font-bold text-gray-900">Couldn't open your data</h1>
+          <p className="text-gray-500">Your transactions couldn't be read from this browser's storage. Nothing has been changed. Try reloading, or close other tabs running the app.</p>
+          <button onClick={() => window.location.reload()} className="px-4 py-2 text-sm font-medium text-white bg-indigo-600 rounded-md hover:bg-indigo-700 transition-colors">Reload</button>
+        </div>
+      </div>
+    );
+  }
+
+  if (!isDataLoaded || !historyStatus.isLoaded) {
+    return (
+      <div className="min-h-screen flex items-center justify-center bg-gray-50">
+        <div className="animate-spin rounded-full h-10 w-10 border-b-2 border-indigo-600" aria-label="Loading"></div>
+      </div>
+    );
+  }
+
   return (
     <div className="min-h-screen font-sans text-gray-800 bg-gray-50 flex flex-col">
+      {hasStorageSaveError && (
+        <div className="bg-red-50 border-b border-red-200 px-4 py-2 text-sm text-red-700 text-center" role="alert">
+          Your latest changes couldn't be saved and will be lost if you close the app. They'll be saved again with your next change.
+        </div>
+      )}
       <main className="flex-grow container mx-auto max-w-lg p-4 pb-32">
         <ErrorBoundary>
-          {activePage === Page.Dashboard && <Dashboard expenses={expenses} currencySymbol={currency.symbol} onNavigate={handleNavigate} allCategoryColors={allCategoryColors} allCategoryNames={allCategoryNames} />}
-          {activePage === Page.Expenses && <ExpensesList expenses={expenses} deleteTransaction={deleteTransaction} onEdit={handleStartEdit} currencySymbol={currency.symbol} allCategoryColors={allCategoryColors} scrollToTransactionId={scrollToTransactionId} onScrollComplete={handleScrollComplete} allCategories={allCategoryNames} />}
-          {activePage === Page.Add && <AddExpense onAddTransaction={addTransaction} transactionToEdit={editingTransaction} onUpdateTransaction={updateTransaction} onFormDirtyChange={setIsAddFormDirty} currencySymbol={currency.symbol} allCategories={allCategoryNames} />}
-          {activePage === Page.Settings && <Settings selectedCurrency={currency} onCurrencyChange={setCurrency} expenses={expenses} onExpensesChange={setExpenses} categories={categories} onCategoriesChange={setCategories} />}
+          {activePage === Page.Dashboard && <Dashboard view={route.dashboardView} onViewChange={view => navigate(getDashboardPath(view))} expenses={activeExpenses} accounts={accounts} currencySymbol={currency.symbol} onNavigate={handleNavigate} allCategoryColors={allCategoryColors} allCategoryNames={allCategoryNames} categoryBudgets={categoryBudgets} baseCurrencyCode={currency.code} />}
+          {activePage === Page.Expenses && <ExpensesList query={location.search} onQueryChange={query => navigate(`${getPagePath(Page.Expenses)}${query}`, { replace: true })} expenses={activeExpenses} accounts={accounts} deleteTransaction={deleteTransaction} onEdit={handleStartEdit} currencySymbol={currency.symbol} allCategoryColors={allCategoryColors} scrollToTransactionId={scrollToTransactionId} onScrollComplete={handleScrollComplete} allCategories={allTransactionCategoryNames} baseCurrencyCode={currency.code} allTags={allTags} />}
+          {activePage === Page.Add && (!route.transactionId || editingTransaction) && <AddExpense onAddTransaction={addTransaction} onAddTransactions={addTransactions} onAddRecurringTransaction={addRecurringTransaction} recurringTransactions={recurringTransactions} transactionToEdit={editingTransaction} onUpdateTransaction={updateTransaction} onFormDirtyChange={setIsAddFormDirty} currencySymbol={currency.symbol} allCategories={allCategoryNames} allIncomeCategories={allIncomeCategoryNames} expenses={activeExpenses} categoryBudgets={categoryBudgets} baseCurrencyCode={currency.code} exchangeRates={exchangeRates} allTags={allTags} aiExamples={aiExamples} onLearnCorrection={learnAiCorrection} rules={rules} merchants={merchants} accounts={accounts} contacts={contacts} pendingParses={pendingParses} onPendingParsesChange={setPendingParses} sharedText={sharedText} onSharedTextHandled={() => setSharedText(null)} onViewTransaction={transactionId => { if (confirmDiscardChanges()) handleViewTransaction(transactionId); }} />}
+          {activePage === Page.Settings && <Settings view={route.settingsView} onViewChange={view => navigate(getSettingsPath(view))} selectedCurrency={currency} onCurrencyChange={setCurrency} expenses={expenses} onExpensesChange={replaceExpenses} categories={categories} onCategoriesChange={setCategories} recurringTransactions={recurringTransactions} onRecurringTransactionsChange={setRecurringTransactions} exchangeRates={exchangeRates} onExchangeRatesChange={setExchangeRates} onImportTransactions={addTransactions} aiExamples={aiExamples} onAiExamplesChange={setAiExamples} rules={rules} onRulesChange={setRules} allTags={allTags} merchants={merchants} onMerchantsChange={setMerchants} onRecordAction={recordUndoable} undoHistory={undoHistory} onUndo={handleUndo} onRedo={handleRedo} trashRetentionDays={trashRetentionDays} onTrashRetentionDaysChange={setTrashRetentionDays} accounts={accounts} onAccountsChange={setAccounts} contacts={contacts} onContactsChange={setContacts} onSettleUp={addSettlement} />}
         </ErrorBoundary>
       </main>
       {activePage !== Page.Settings && (
@@ -194,6 +495,17 @@ const App: React.FC = () => {
             </button>
         </div>
       )}
+      {toast && (
+        <UndoToast
+          message={toast.message}
+          actionLabel={toast.action === 'undo' ? 'Undo' : 'Redo'}
+          onAction={toast.action === 'undo' ? handleUndo : handleRedo}
+          onDismiss={dismissToast}
+        />
+      )}
+      {isUpdateAvailable && !isUpdateDismissed && (
+        <UpdatePrompt onReload={handleApplyUpdate} onDismiss={() => setIsUpdateDismissed(true)} />
+      )}
       <BottomNav activePage={activePage} onNavigate={handleNavigate} />
     </div>
   );
@@ -13,6 +13,26 @@ const DEFAULT_CATEGORIES = [
   'Other'
 ];
 
+const DEFAULT_INCOME_CATEGORIES = [
+  'Salary',
+  'Refund',
+  'Cashback',
+  'Interest',
+  'Other Income'
+];
+
+// Caps how much of the request body ends up in the prompt.
+const MAX_PROMPT_EXAMPLES = 10;
+
+// Keeps only well-formed few-shot examples from the client's learned corrections.
+const sanitizeExamples = (examples: unknown): { text: string; kind: string; vendor: string; category: string }[] => {
+    if (!Array.isArray(examples)) return [];
+    return examples
+        .filter(e => e && typeof e.text === 'string' && (e.kind === 'expense' || e.kind === 'income') && typeof e.vendor === 'string' && typeof e.category === 'string')
+        .slice(0, MAX_PROMPT_EXAMPLES)
+        .map(e => ({ text: e.text.slice(0, 500), kind: e.kind, vendor: e.vendor.slice(0, 100), category: e.category.slice(0, 100) }));
+};
+
 // This is designed to run as a Vercel Serverless Function
 export default async function handler(req: any, res: any) {
     if (req.method !== 'POST') {
@@ -60,45 +80,59 @@ export default async function handler(req: any, res: any) {
             return res.status(200).json({ reportText });
 
         } else if (action === 'parse') {
-            const { text, allCategories } = req.body;
+            const { text, allCategories, allIncomeCategories } = req.body;
+            const examples = sanitizeExamples(req.body.examples);
             if (!text || typeof text !== 'string') {
                 return res.status(400).json({ error: 'Invalid or missing "text" in request body.' });
             }
 
             const categoriesToUse = allCategories && Array.isArray(allCategories) && allCategories.length > 0 ? allCategories : DEFAULT_CATEGORIES;
+            const incomeCategoriesToUse = allIncomeCategories && Array.isArray(allIncomeCategories) && allIncomeCategories.length > 0 ? allIncomeCategories : DEFAULT_INCOME_CATEGORIES;
             
             const expenseSchema = {
                 type: Type.OBJECT,
                 properties: {
-                  isExpense: {
-                    type: Type.BOOLEAN,
-                    description: 'Set to true if the text describes a financial expense, otherwise set to false.'
+                  transactionType: {
+                    type: Type.STRING,
+                    enum: ['expense', 'income', 'none'],
+                    description: "'expense' for money spent, 'income' for money received, 'none' if the text is not a transaction."
                   },
                   amount: {
                     type: Type.NUMBER,
-                    description: 'The transaction amount. Omit this field if isExpense is false.'
+                    description: "The transaction amount. Omit this field if transactionType is 'none'."
                   },
                   vendor: {
                     type: Type.STRING,
-                    description: 'The merchant name. Omit this field if isExpense is false.'
+                    description: "The merchant name for an expense, or the payer for income. Omit this field if transactionType is 'none'."
                   },
                   description: {
                       type: Type.STRING
                   },
+                  date: {
+                    type: Type.STRING,
+                    description: "The transaction date in YYYY-MM-DD format, only if the text states it."
+                  },
                   category: {
                     type: Type.STRING,
-                    description: `The expense category. Omit this field if isExpense is false. Must be one of: ${categoriesToUse.join(', ')}.`
+                    description: `The transaction category. Omit this field if transactionType is 'none'. For an expense it must be one of: ${categoriesToUse.join(', ')}. For income it must be one of: ${incomeCategoriesToUse.join(', ')}.`
                   }
                 },
-                required: ['isExpense']
+                required: ['transactionType']
             };
     
+            const examplesPrompt = examples.length > 0
+                ? `The user has corrected earlier results. Follow these examples for messages from the same merchant or in the same style:\n${examples.map(e => `- Text: ${JSON.stringify(e.text)} => transactionType: ${e.kind}, vendor: ${JSON.stringify(e.vendor)}, category: ${JSON.stringify(e.category)}`).join('\n')}`
+                : '';
+
             const prompt = `
               Analyze the following text, which is likely from an SMS or a notification about a financial transaction.
-              Your primary task is to determine if it's a spending transaction.
+              Your primary task is to determine whether money was spent, money was received, or neither.
     
-              - If it IS a spending transaction: Set 'isExpense' to true and extract the expense amount, the vendor name, and suggest an appropriate category from this list: ${JSON.stringify(categoriesToUse)}. The vendor should be the merchant name, not the bank or payment method.
-              - If it is NOT a spending transaction (e.g., a deposit, OTP, marketing message, balance inquiry): Set 'isExpense' to false and omit all other fields.
+              - If it IS a spending transaction: Set 'transactionType' to 'expense' and extract the expense amount, the vendor name, and suggest an appropriate category from this list: ${JSON.stringify(categoriesToUse)}. The vendor should be the merchant name, not the bank or payment method.
+              - If money was RECEIVED (e.g., a salary credit, deposit, refund, cashback, interest): Set 'transactionType' to 'income' and extract the amount, the payer as the vendor, and suggest an appropriate category from this list: ${JSON.stringify(incomeCategoriesToUse)}.
+              - If it is NOT a transaction (e.g., an OTP, marketing message, balance inquiry): Set 'transactionType' to 'none' and omit all other fields.
+
+              ${examplesPrompt}
     
               Text to analyze: "${text}"
             `;
@@ -114,7 +148,7 @@ export default async function handler(req: any, res: any) {
     
             const jsonString = (response.text ?? '').trim();
             if (!jsonString) {
-                return res.status(200).json({ isExpense: false });
+                return res.status(200).json({ transactionType: 'none' });
             }
             
             const parsedJson = JSON.parse(jsonString);
@@ -0,0 +1,207 @@
+import React, { useMemo, useState } from 'react';
+import type { Account, AccountType, Expense, RecurringTransaction } from '../types';
+import { ACCOUNT_TYPE_LABELS, clearAccountFromExpenses, clearAccountFromRecurring, getAccountBalances, getAccountStatement } from '../utils/accounts';
+import { generateTransactionId } from '../utils/transactionUtils';
+import { getActiveExpenses } from '../utils/trash';
+import type { RecordUndoableAction } from '../utils/undoHistory';
+import { PencilIcon, TrashIcon, CheckIcon, XIcon, PlusIcon, BanknotesIcon } from './Icons';
+
+interface AccountsManagerProps {
+  accounts: Account[];
+  onAccountsChange: (accounts: Account[]) => void;
+  expenses: Expense[];
+  onExpensesChange: (expenses: Expense[]) => void;
+  recurringTransactions: RecurringTransaction[];
+  onRecurringTransactionsChange: (series: RecurringTransaction[]) => void;
+  currencySymbol: string;
+  onRecordAction: RecordUndoableAction;
+}
+
+interface AccountFormState {
+  name: string;
+  type: AccountType;
+  openingBalance: string;
+  last4: string;
+}
+
+const EMPTY_FORM: AccountFormState = { name: '', type: 'bank', openingBalance: '', last4: '' };
+
+const formatBalance = (amount: number, currencySymbol: string) =>
+  `${amount < 0 ? '-' : ''}${currencySymbol}${Math.abs(amount).toFixed(2)}`;
+
+const AccountsManager: React.FC<AccountsManagerProps> = ({ accounts, onAccountsChange, expenses, onExpensesChange, recurringTransactions, onRecurringTransactionsChange, currencySymbol, onRecordAction }) => {
+  const [form, setForm] = useState<AccountFormState>(EMPTY_FORM);
+  const [editingId, setEditingId] = useState<string | null>(null);
+  const [isAdding, setIsAdding] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+  const [statementAccountId, setStatementAccountId] = useState<string | null>(null);
+
+  const activeExpenses = useMemo(() => getActiveExpenses(expenses), [expenses]);
+  const balances = useMemo(() => getAccountBalances(accounts, activeExpenses), [accounts, activeExpenses]);
+  const statementAccount = accounts.find(a => a.id === statementAccountId) ?? null;
+  // Shown newest first, like the transactions list.
+  const statement = useMemo(
+    () => statementAccount ? getAccountStatement(statementAccount, activeExpenses).reverse() : [],
+    [statementAccount, activeExpenses]
+  );
+
+  const openForm = (account?: Account) => {
+    setForm(account
+      ? { name: account.name, type: account.type, openingBalance: account.openingBalance.toString(), last4: account.last4 ?? '' }
+      : EMPTY_FORM);
+    setEditingId(account?.id ?? null);
+    setIsAdding(!account);
+    setError(null);
+  };
+
+  const closeForm = () => {
+    setEditingId(null);
+    setIsAdding(false);
+    setError(null);
+  };
+
+  const updateForm = (changes: Partial<AccountFormState>) => setForm(prev => ({ ...prev, ...changes }));
+
+  const validateForm = (): string | null => {
+    const name = form.name.trim();
+    if (!name) return 'Enter a name for the account.';
+    if (accounts.some(a => a.id !== editingId && a.name.toLowerCase() === name.toLowerCase())) return `An account named "${name}" already exists.`;
+    if (form.openingBalance.trim() !== '' && isNaN(parseFloat(form.openingBalance))) return 'The opening balance must be a number.';
+    if (form.last4.trim() !== '' && !/^\d{3,4}$/.test(form.last4.trim())) return 'Enter the last 3 or 4 digits only.';
+    return null;
+  };
+
+  const handleSave = () => {
+    const validationError = validateForm();
+    if (validationError) {
+      setError(validationError);
+      return;
+    }
+    const account: Account = {
+      id: editingId ?? `account-${generateTransactionId()}`,
+      name: form.name.trim(),
+      type: form.type,
+      openingBalance: parseFloat(form.openingBalance) || 0,
+      last4: form.last4.trim() || undefined,
+    };
+    onRecordAction(editingId ? `Edited account ${account.name}` : `Added account ${account.name}`);
+    onAccountsChange(editingId ? accounts.map(a => a.id === editingId ? account : a) : [...accounts, account]);
+    closeForm();
+  };
+
+  // Transactions and recurring series keep their details but are no longer tied to the account.
+  const handleDelete = (account: Account) => {
+    if (window.confirm(`Delete "${account.name}"? Its transactions are kept but won't belong to any account.`)) {
+      onRecordAction(`Deleted account ${account.name}`, { destructive: true });
+      onAccountsChange(accounts.filter(a => a.id !== account.id));
+      onExpensesChange(clearAccountFromExpenses(expenses, account.id));
+      onRecurringTransactionsChange(clearAccountFromRecurring(recurringTransactions, account.id));
+      if (statementAccountId === account.id) setStatementAccountId(null);
+    }
+  };
+
+  const renderForm = () => (
+    <div className="p-3 rounded-lg border border-indigo-200 bg-indigo-50/40 space-y-3">
+      <div className="grid grid-cols-2 gap-2">
+        <input type="text" value={form.name} onChange={e => updateForm({ name: e.target.value })} className="col-span-2 input-field" placeholder="e.g. HDFC Savings" aria-label="Account name" autoFocus />
+        <select value={form.type} onChange={e => updateForm({ type: e.target.value as AccountType })} className="input-field" aria-label="Account type">
+          {(Object.keys(ACCOUNT_TYPE_LABELS) as AccountType[]).map(type => <option key={type} value={type}>{ACCOUNT_TYPE_LABELS[type]}</option>)}
+        </select>
+        <input type="text" inputMode="numeric" maxLength={4} value={form.last4} onChange={e => updateForm({ last4: e.target.value })} className="input-field" placeholder="Last 4 digits (optional)" aria-label="Last 4 digits" />
+        <input type="number" step="0.01" value={form.openingBalance} onChange={e => updateForm({ openingBalance: e.target.value })} className="col-span-2 input-field" placeholder={`Opening balance in ${currencySymbol}`} aria-label="Opening balance" />
+      </div>
+      <p className="text-xs text-gray-500">With the last digits set, parsed messages that quote them are assigned to this account.</p>
+      {error && <p className="text-red-500 text-sm">{error}</p>}
+      <div className="flex justify-end space-x-3">
+        <button onClick={closeForm} className="px-4 py-2 text-sm font-medium text-gray-700 bg-gray-100 rounded-md hover:bg-gray-200 transition-colors">Cancel</button>
+        <button onClick={handleSave} className="px-4 py-2 text-sm font-medium text-white bg-indigo-600 rounded-md hover:bg-indigo-700 flex items-center transition-colors">
+          <CheckIcon className="w-5 h-5 mr-1" />
+          Save Account
+        </button>
+      </div>
+    </div>
+  );
+
+  if (statementAccount) {
+    return (
+      <div className="bg-white p-4 rounded-xl shadow-md space-y-3">
+        <div className="flex justify-between items-start">
+          <div>
+            <h2 className="text-lg font-semibold text-gray-800">{statementAccount.name}</h2>
+            <p className="text-sm text-gray-500">
+              Balance {formatBalance(balances[statementAccount.id] ?? statementAccount.openingBalance, currencySymbol)} · opened with {formatBalance(statementAccount.openingBalance, currencySymbol)}
+            </p>
+          </div>
+          <button onClick={() => setStatementAccountId(null)} className="p-2 text-gray-500 hover:bg-gray-100 rounded-full" aria-label="Close statement"><XIcon className="w-5 h-5" /></button>
+        </div>
+        {statement.length === 0 ? (
+          <p className="text-sm text-gray-500">No transactions use this account yet.</p>
+        ) : (
+          <ul className="divide-y divide-gray-200">
+            {statement.map(({ transaction, change, balance }) => (
+              <li key={transaction[0].transactionId} className="py-2 flex justify-between items-center space-x-3 text-sm">
+                <div className="min-w-0">
+                  <p className="font-medium text-gray-800 truncate">{transaction[0].vendor}</p>
+                  <p className="text-xs text-gray-500">{transaction[0].date}</p>
+                </div>
+                <div className="text-right flex-shrink-0">
+                  <p className={`font-semibold ${change < 0 ? 'text-gray-900' : 'text-green-600'}`}>{change < 0 ? '-' : '+'}{currencySymbol}{Math.abs(change).toFixed(2)}</p>
+                  <p className="text-xs text-gray-500">{formatBalance(balance, currencySymbol)}</p>
+                </div>
+              </li>
+            ))}
+          </ul>
+        )}
+      </div>
+    );
+  }
+
+  return (
+    <div className="bg-white p-4 rounded-xl shadow-md space-y-3">
+      <div className="flex justify-between items-center">
+        <h2 className="text-lg font-semibold text-gray-800">Accounts</h2>
+        {!isAdding && (
+          <button onClick={() => openForm()} className="flex items-center text-sm font-medium text-indigo-600 hover:text-indigo-800">
+            <PlusIcon className="w-4 h-4 mr-1" />
+            Add Account
+          </button>
+        )}
+      </div>
+      {isAdding && renderForm()}
+      {accounts.length === 0 && !isAdding ? (
+        <div className="text-center py-6">
+          <BanknotesIcon className="w-10 h-10 mx-auto text-gray-300" />
+          <p className="mt-2 text-gray-500">No accounts yet. Add your bank accounts, cards and wallets to track their balances.</p>
+        </div>
+      ) : (
+        <ul className="divide-y divide-gray-200">
+          {accounts.map(account => (
+            <li key={account.id} className="py-3">
+              {editingId === account.id ? renderForm() : (
+                <div className="flex items-center justify-between space-x-3">
+                  <button onClick={() => setStatementAccountId(account.id)} className="min-w-0 text-left flex-grow" aria-label={`View statement for ${account.name}`}>
+                    <p className="font-medium text-gray-800 truncate">{account.name}</p>
+                    <p className="text-xs text-gray-500">{ACCOUNT_TYPE_LABELS[account.type]}{account.last4 ? ` · ending ${account.last4}` : ''}</p>
+                  </button>
+                  <span className={`font-semibold flex-shrink-0 ${(balances[account.id] ?? 0) < 0 ? 'text-red-600' : 'text-gray-900'}`}>
+                    {formatBalance(balances[account.id] ?? account.openingBalance, currencySymbol)}
+                  </span>
+                  <div className="flex items-center space-x-1 flex-shrink-0">
+                    <button onClick={() => openForm(account)} className="p-1 text-gray-400 hover:text-indigo-500 transition-colors" aria-label={`Edit ${account.name}`}>
+                      <PencilIcon className="w-5 h-5" />
+                    </button>
+                    <button onClick={() => handleDelete(account)} className="p-1 text-gray-400 hover:text-red-500 transition-colors" aria-label={`Delete ${account.name}`}>
+                      <TrashIcon className="w-5 h-5" />
+                    </button>
+                  </div>
+                </div>
+              )}
+            </li>
+          ))}
+        </ul>
+      )}
+    </div>
+  );
+};
+
+export default AccountsManager;
@@ -1,47 +1,139 @@
 
-import React, { useState, useCallback, useEffect, useMemo } from 'react';
-import type { Expense, Category } from '../types';
-import { parseExpenseFromText } from '../services/geminiService';
+import React, { useState, useCallback, useEffect, useMemo, useRef } from 'react';
+import type { Expense, Category, TransactionInput, TransactionKind, RecurrenceFrequency, RecurringTransaction, RecurringEditScope, ExchangeRates, AiExample, CategoryRule, Merchant, ParsedExpense, Account, Contact, ExpenseSharing, ShareMode } from '../types';
+import { CURRENCIES } from '../currencies';
+import { OfflineError, parseExpenseFromText } from '../services/geminiService';
+import { getDefaultCategory, getTransactionKind } from '../utils/transactionUtils';
+import { getCategorySpendForMonth } from '../utils/budgetUtils';
+import { FREQUENCY_LABELS } from '../utils/recurrence';
+import { convertToBase, getCurrencySymbol } from '../utils/currencyUtils';
+import { splitSmsMessages } from '../utils/textUtils';
+import { mapWithConcurrency } from '../utils/concurrency';
+import type { AiCorrection } from '../utils/aiExamples';
+import { applyRulesToParsed } from '../utils/rules';
+import { canonicalizeVendor } from '../utils/merchants';
+import { addTag } from '../utils/tagUtils';
+import { matchAccountByText } from '../utils/accounts';
+import { resolveShares, SHARE_MODE_LABELS } from '../utils/sharing';
+import { findLikelyDuplicate, type TransactionSummary } from '../utils/duplicates';
 import { SparklesIcon, CheckIcon, PlusIcon, TrashIcon } from './Icons';
+import BulkSmsReview, { type BulkParseResult } from './BulkSmsReview';
+import TagInput from './TagInput';
 
 interface AddExpenseProps {
-  onAddTransaction: (transaction: { vendor: string; date: string; notes?: string; splits: { amount: number; category: string }[] }) => void;
+  onAddTransaction: (transaction: TransactionInput) => void;
+  onAddTransactions: (transactions: TransactionInput[]) => void;
+  onAddRecurringTransaction: (transaction: TransactionInput, frequency: RecurrenceFrequency, endDate?: string) => void;
+  recurringTransactions: RecurringTransaction[];
   transactionToEdit?: Expense[] | null;
-  onUpdateTransaction?: (transaction: { transactionId: string, vendor: string; date: string; notes?: string; splits: { amount: number; category: string }[] }) => void;
+  onUpdateTransaction?: (transaction: TransactionInput & { transactionId: string }, scope?: RecurringEditScope) => void;
   onFormDirtyChange: (isDirty: boolean) => void;
   currencySymbol: string;
   allCategories: string[];
+  allIncomeCategories: string[];
+  expenses: Expense[];
+  categoryBudgets: Record<string, number>;
+  baseCurrencyCode: string;
+  exchangeRates: ExchangeRates;
+  allTags: string[];
+  aiExamples: AiExample[];
+  onLearnCorrection: (correction: AiCorrection) => void;
+  rules: CategoryRule[];
+  merchants: Merchant[];
+  accounts: Account[];
+  contacts: Contact[];
+  pendingParses: string[]; // Messages that needed the AI while offline
+  onPendingParsesChange: (pending: string[]) => void;
+  sharedText?: string | null; // Shared from another app, to be parsed straight away
+  onSharedTextHandled?: () => void;
+  onViewTransaction: (transactionId: string) => void;
 }
 
-const AddExpense: React.FC<AddExpenseProps> = ({ onAddTransaction, transactionToEdit, onUpdateTransaction, onFormDirtyChange, currencySymbol, allCategories }) => {
+const KIND_OPTIONS: { value: TransactionKind; label: string }[] = [
+  { value: 'expense', label: 'Expense' },
+  { value: 'income', label: 'Income' },
+  { value: 'transfer', label: 'Transfer' },
+];
+
+// Keeps bulk parsing from flooding the AI endpoint with simultaneous requests.
+const BULK_PARSE_CONCURRENCY = 3;
+
+const AddExpense: React.FC<AddExpenseProps> = ({ onAddTransaction, onAddTransactions, onAddRecurringTransaction, recurringTransactions, transactionToEdit, onUpdateTransaction, onFormDirtyChange, currencySymbol, allCategories, allIncomeCategories, expenses, categoryBudgets, baseCurrencyCode, exchangeRates, allTags, aiExamples, onLearnCorrection, rules, merchants, accounts, contacts, pendingParses, onPendingParsesChange, sharedText, onSharedTextHandled, onViewTransaction }) => {
   const [smsText, setSmsText] = useState('');
   const [isParsing, setIsParsing] = useState(false);
+  const [bulkProgress, setBulkProgress] = useState<{ completed: number; total: number } | null>(null);
+  const [bulkResults, setBulkResults] = useState<BulkParseResult[] | null>(null);
   const [error, setError] = useState<string | null>(null);
 
   const [totalAmount, setTotalAmount] = useState('');
   const [vendor, setVendor] = useState('');
   const [date, setDate] = useState(new Date().toISOString().slice(0, 10));
   const [notes, setNotes] = useState('');
+  const [tags, setTags] = useState<string[]>([]);
+  const [rawVendor, setRawVendor] = useState<string | undefined>(undefined); // The parsed vendor, when a merchant alias or rule renamed it
+  const [kind, setKind] = useState<TransactionKind>('expense');
+  const [transactionCurrency, setTransactionCurrency] = useState(baseCurrencyCode);
+  const [accountId, setAccountId] = useState('');
+  const [toAccountId, setToAccountId] = useState(''); // Transfers only
+  const [isShared, setIsShared] = useState(false);
+  const [shareMode, setShareMode] = useState<ShareMode>('equal');
+  const [paidBy, setPaidBy] = useState(''); // A contact's id, or empty when we paid
+  const [myShareValue, setMyShareValue] = useState('');
+  const [shareEntries, setShareEntries] = useState<{ contactId: string; value: string }[]>([]);
   const [isSplit, setIsSplit] = useState(false);
-  const [splits, setSplits] = useState<{ amount: string; category: Category }[]>([{ amount: '', category: 'Other' }]);
+  const [splits, setSplits] = useState<{ amount: string; category: Category }[]>([{ amount: '', category: getDefaultCategory('expense') }]);
+  const [repeatFrequency, setRepeatFrequency] = useState<RecurrenceFrequency | 'none'>('none');
+  const [repeatEndDate, setRepeatEndDate] = useState('');
+  const [editScope, setEditScope] = useState<RecurringEditScope>('occurrence');
+  // What the parser suggested, compared with what gets saved to learn from the user's corrections.
+  const [parsedSuggestion, setParsedSuggestion] = useState<Omit<AiCorrection, 'suggestedVendor' | 'suggestedCategory'> | null>(null);
+  // An existing transaction the one being added seems to repeat, shown before anything is saved.
+  const [possibleDuplicate, setPossibleDuplicate] = useState<TransactionSummary | null>(null);
   
   const isEditMode = !!transactionToEdit;
+  const editingSeries = useMemo(() => {
+    const recurringId = transactionToEdit?.[0].recurringId;
+    return recurringId ? recurringTransactions.find(s => s.id === recurringId) ?? null : null;
+  }, [transactionToEdit, recurringTransactions]);
+  const defaultCategory = getDefaultCategory(kind);
+  const categoriesForKind = kind === 'income' ? allIncomeCategories : allCategories;
+  const kindLabel = KIND_OPTIONS.find(o => o.value === kind)?.label ?? 'Expense';
+  const isForeignCurrency = transactionCurrency !== baseCurrencyCode;
+  // Amounts in the form are entered in the transaction's own currency.
+  const entrySymbol = isForeignCurrency ? getCurrencySymbol(transactionCurrency) : currencySymbol;
+  const isRateMissing = isForeignCurrency && !exchangeRates[transactionCurrency];
   
   useEffect(() => {
     if (transactionToEdit) {
-      const total = transactionToEdit.reduce((sum, exp) => sum + exp.amount, 0);
+      const editCurrency = transactionToEdit[0].currency ?? baseCurrencyCode;
+      // Foreign-currency transactions are edited in their original amounts.
+      const entryAmount = (exp: Expense) => editCurrency !== baseCurrencyCode && exp.originalAmount !== undefined ? exp.originalAmount : exp.amount;
+      const sharing = transactionToEdit[0].sharing;
+      // A shared bill is edited as a whole; its splits only hold our share.
+      const total = sharing ? sharing.total : transactionToEdit.reduce((sum, exp) => sum + entryAmount(exp), 0);
       const isSplitTransaction = transactionToEdit.length > 1;
       
+      setTransactionCurrency(editCurrency);
       setTotalAmount(total.toString());
       setVendor(transactionToEdit[0].vendor);
       setDate(transactionToEdit[0].date);
       setNotes(transactionToEdit[0].notes || '');
+      setTags(transactionToEdit[0].tags ?? []);
+      setKind(getTransactionKind(transactionToEdit[0]));
+      setAccountId(transactionToEdit[0].accountId ?? '');
+      setToAccountId(transactionToEdit[0].toAccountId ?? '');
+      setIsShared(!!sharing);
+      setShareMode(sharing?.mode ?? 'equal');
+      setPaidBy(sharing?.paidBy ?? '');
+      setMyShareValue(sharing && sharing.mode !== 'equal' ? sharing.myValue.toString() : '');
+      setShareEntries(sharing ? sharing.shares.map(s => ({ contactId: s.contactId, value: sharing.mode === 'equal' ? '' : s.value.toString() })) : []);
+      setEditScope('occurrence');
       setIsSplit(isSplitTransaction);
 
       if (isSplitTransaction) {
-        setSplits(transactionToEdit.map(exp => ({ amount: exp.amount.toString(), category: exp.category })));
+        setSplits(transactionToEdit.map(exp => ({ amount: entryAmount(exp).toString(), category: exp.category })));
       } else {
-        setSplits([{ amount: transactionToEdit[0].amount.toString(), category: transactionToEdit[0].category }]);
+        setSplits([{ amount: entryAmount(transactionToEdit[0]).toString(), category: transactionToEdit[0].category }]);
       }
     } else {
       resetForm();
@@ -50,33 +142,158 @@ const AddExpense: React.FC<AddExpenseProps> = ({ onAddTransaction, transactionTo
   
   // Dirty form check
   useEffect(() => {
-    const isDirty = totalAmount !== '' || vendor !== '' || notes !== '';
+    const isDirty = totalAmount !== '' || vendor !== '' || notes !== '' || tags.length > 0;
     onFormDirtyChange(isDirty);
-  }, [totalAmount, vendor, notes, splits, onFormDirtyChange]);
+  }, [totalAmount, vendor, notes, tags, splits, onFormDirtyChange]);
+
+  // Maps the parsed vendor onto a known merchant, then lets the user's rules have the last word.
+  const normalizeParsed = useCallback((parsed: ParsedExpense) => {
+    const { parsed: result, tags: ruleTags } = applyRulesToParsed({ ...parsed, vendor: canonicalizeVendor(parsed.vendor, merchants).vendor }, rules);
+    return { parsed: result, tags: ruleTags, rawVendor: result.vendor !== parsed.vendor ? parsed.vendor : undefined };
+  }, [merchants, rules]);
+
+  // Parses several messages for review, setting aside the ones that need the AI while offline.
+  const parseMessages = useCallback(async (messages: string[]) => {
+    setBulkProgress({ completed: 0, total: messages.length });
+    try {
+      const results = await mapWithConcurrency(
+        messages,
+        BULK_PARSE_CONCURRENCY,
+        async (sms): Promise<BulkParseResult | null> => {
+          try {
+            const parsed = await parseExpenseFromText(sms, allCategories, allIncomeCategories, aiExamples);
+            return parsed ? { sms, ...normalizeParsed(parsed), accountId: matchAccountByText(sms, accounts)?.id } : { sms, parsed };
+          } catch (e) {
+            return e instanceof OfflineError ? null : { sms, parsed: null };
+          }
+        },
+        (completed, total) => setBulkProgress({ completed, total })
+      );
+      return {
+        results: results.filter((result): result is BulkParseResult => result !== null),
+        offline: messages.filter((_, i) => results[i] === null),
+      };
+    } finally {
+      setBulkProgress(null);
+    }
+  }, [allCategories, allIncomeCategories, aiExamples, normalizeParsed, accounts]);
 
-  const handleParseSms = useCallback(async () => {
-    if (!smsText.trim()) {
+  const parseSms = useCallback(async (text: string) => {
+    if (!text.trim()) {
       setError('Please paste your SMS content first.');
       return;
     }
     setIsParsing(true);
     setError(null);
+    const messages = splitSmsMessages(text);
+    if (messages.length > 1) {
+      try {
+        const { results, offline } = await parseMessages(messages);
+        if (offline.length > 0) {
+          onPendingParsesChange([...pendingParses, ...offline]);
+          setSmsText('');
+        }
+        if (results.length > 0) setBulkResults(results);
+      } finally {
+        setIsParsing(false);
+      }
+      return;
+    }
     try {
-      const result = await parseExpenseFromText(smsText, allCategories);
-      if (result) {
+      const parsed = await parseExpenseFromText(text, allCategories, allIncomeCategories, aiExamples);
+      if (parsed) {
+        // The user's own merchants and rules beat both the local parser and the AI.
+        const { parsed: result, tags: ruleTags, rawVendor: parsedRawVendor } = normalizeParsed(parsed);
+        const parsedKind = result.kind ?? 'expense';
+        const parsedCategory = result.category || getDefaultCategory(parsedKind);
+        setKind(parsedKind);
         setTotalAmount(result.amount.toString());
         setVendor(result.vendor);
-        setSplits([{ amount: result.amount.toString(), category: result.category || 'Other' }]);
+        if (result.date) setDate(result.date);
+        setSplits([{ amount: result.amount.toString(), category: parsedCategory }]);
         setIsSplit(false);
+        if (ruleTags) setTags(prev => ruleTags.reduce((acc, tag) => addTag(acc, tag, allTags), prev));
+        setRawVendor(parsedRawVendor);
+        const matchedAccount = matchAccountByText(text, accounts);
+        if (matchedAccount) setAccountId(matchedAccount.id);
+        setParsedSuggestion({ text: text.trim(), kind: parsedKind, vendor: result.vendor, category: parsedCategory });
       } else {
-        setError("Couldn't identify an expense from the text. Please enter manually.");
+        setError("Couldn't identify a transaction from the text. Please enter manually.");
       }
     } catch (e) {
-      setError("An error occurred while parsing. Please try again.");
+      if (e instanceof OfflineError) {
+        onPendingParsesChange([...pendingParses, text.trim()]);
+        setSmsText('');
+      } else {
+        setError("An error occurred while parsing. Please try again.");
+      }
     } finally {
       setIsParsing(false);
     }
-  }, [smsText, allCategories]);
+  }, [allCategories, allIncomeCategories, aiExamples, normalizeParsed, allTags, accounts, parseMessages, pendingParses, onPendingParsesChange]);
+
+  const handleParseSms = () => parseSms(smsText);
+
+  // The ref keeps StrictMode's repeated effects from parsing the same share twice.
+  const handledSharedTextRef = useRef<string | null>(null);
+  useEffect(() => {
+    if (!sharedText || isEditMode || handledSharedTextRef.current === sharedText) return;
+    handledSharedTextRef.current = sharedText;
+    setSmsText(sharedText);
+    onSharedTextHandled?.();
+    parseSms(sharedText);
+  }, [sharedText]);
+
+  // Queued messages come back as a bulk review. A retry that finishes after the user has left the
+  // page keeps them queued, since there's no review left to show them in.
+  const isMountedRef = useRef(false);
+  const isRetryingRef = useRef(false);
+  const retryPendingParses = useCallback(async () => {
+    if (pendingParses.length === 0 || isEditMode || bulkResults || isRetryingRef.current) return;
+    isRetryingRef.current = true;
+    setIsParsing(true);
+    setError(null);
+    try {
+      const { results, offline } = await parseMessages(pendingParses);
+      if (!isMountedRef.current) return;
+      onPendingParsesChange(offline);
+      if (results.length > 0) setBulkResults(results);
+    } finally {
+      isRetryingRef.current = false;
+      if (isMountedRef.current) setIsParsing(false);
+    }
+  }, [pendingParses, isEditMode, bulkResults, parseMessages, onPendingParsesChange]);
+
+  // Retried when the page opens online and whenever the connection comes back, not on every change
+  // to the queue, so a connection that drops requests without going offline doesn't retry in a loop.
+  const retryPendingParsesRef = useRef(retryPendingParses);
+  retryPendingParsesRef.current = retryPendingParses;
+  useEffect(() => {
+    isMountedRef.current = true;
+    const handleOnline = () => retryPendingParsesRef.current();
+    if (navigator.onLine) handleOnline();
+    window.addEventListener('online', handleOnline);
+    return () => {
+      isMountedRef.current = false;
+      window.removeEventListener('online', handleOnline);
+    };
+  }, []);
+
+  const handleSaveBulk = (transactions: TransactionInput[]) => {
+    setBulkResults(null);
+    setSmsText('');
+    onAddTransactions(transactions);
+  };
+
+  const handleKindChange = (newKind: TransactionKind) => {
+    if (newKind === kind) return;
+    setKind(newKind);
+    // Categories don't carry over between kinds, and transfers can't be split.
+    setIsSplit(false);
+    // Only spending is shared with people.
+    setIsShared(false);
+    setSplits([{ amount: totalAmount, category: getDefaultCategory(newKind) }]);
+  };
   
   const updateSplit = (index: number, field: 'amount' | 'category', value: string) => {
     const newSplits = [...splits];
@@ -85,7 +302,7 @@ const AddExpense: React.FC<AddExpenseProps> = ({ onAddTransaction, transactionTo
   };
   
   const addSplit = () => {
-    setSplits([...splits, { amount: '', category: 'Other' }]);
+    setSplits([...splits, { amount: '', category: defaultCategory }]);
   };
 
   const removeSplit = (index: number) => {
@@ -101,33 +318,148 @@ const AddExpense: React.FC<AddExpenseProps> = ({ onAddTransaction, transactionTo
     // When toggling from a split view back to a single category,
     // consolidate the splits into one to prevent data inconsistencies.
     if (!newIsSplit) {
-      const firstCategory = splits.length > 0 ? splits[0].category : 'Other';
+      const firstCategory = splits.length > 0 ? splits[0].category : defaultCategory;
       setSplits([{ amount: totalAmount, category: firstCategory }]);
     }
   };
 
+  const handleToggleShared = () => {
+    if (!isShared && shareEntries.length === 0 && contacts.length > 0) {
+      setShareEntries([{ contactId: contacts[0].id, value: '' }]);
+    }
+    setIsShared(!isShared);
+  };
+
+  const addShareEntry = () => {
+    const next = contacts.find(c => !shareEntries.some(e => e.contactId === c.id));
+    if (next) setShareEntries([...shareEntries, { contactId: next.id, value: '' }]);
+  };
+
+  const updateShareEntry = (index: number, changes: Partial<{ contactId: string; value: string }>) => {
+    if (changes.contactId && shareEntries[index].contactId === paidBy) setPaidBy('');
+    setShareEntries(shareEntries.map((entry, i) => i === index ? { ...entry, ...changes } : entry));
+  };
+
+  const removeShareEntry = (index: number) => {
+    if (shareEntries[index].contactId === paidBy) setPaidBy('');
+    setShareEntries(shareEntries.filter((_, i) => i !== index));
+  };
+
+  const getContactName = (contactId: string) => contacts.find(c => c.id === contactId)?.name ?? 'Removed person';
+
+  // Amounts here are in the transaction's currency, like the rest of the form.
+  const resolvedShares = useMemo(() => (
+    isShared
+      ? resolveShares(parseFloat(totalAmount) || 0, shareMode, parseFloat(myShareValue), shareEntries.map(e => ({ contactId: e.contactId, value: parseFloat(e.value) })))
+      : null
+  ), [isShared, totalAmount, shareMode, myShareValue, shareEntries]);
+  // When the bill is shared, only our part is categorized and counted as spending.
+  const myShareTotal = isShared ? resolvedShares?.myAmount ?? 0 : parseFloat(totalAmount) || 0;
+
+  // A single-category transaction always carries the full amount, whatever its split row last held.
+  const effectiveSplits = useMemo(() => (
+    isSplit ? splits : [{ amount: isShared ? myShareTotal.toString() : totalAmount, category: splits[0]?.category || defaultCategory }]
+  ), [isSplit, splits, totalAmount, defaultCategory, isShared, myShareTotal]);
+
   const { remainingAmount, isValid } = useMemo(() => {
     const parsedTotal = parseFloat(totalAmount) || 0;
-    const allocated = splits.reduce((sum, s) => sum + (parseFloat(s.amount) || 0), 0);
-    const remaining = parsedTotal - allocated;
+    const allocated = effectiveSplits.reduce((sum, s) => sum + (parseFloat(s.amount) || 0), 0);
+    const remaining = myShareTotal - allocated;
     
-    const allSplitsValid = splits.every(s => parseFloat(s.amount) > 0 && s.category);
+    const allSplitsValid = effectiveSplits.every(s => parseFloat(s.amount) > 0 && s.category);
     
     // Use a small epsilon for floating point comparison
     const isAmountCorrect = Math.abs(remaining) < 0.01;
 
     return {
       remainingAmount: remaining,
-      isValid: parsedTotal > 0 && vendor.trim() !== '' && allSplitsValid && isAmountCorrect,
+      isValid: parsedTotal > 0 && vendor.trim() !== '' && allSplitsValid && isAmountCorrect && !isRateMissing && (!isShared || resolvedShares !== null),
     };
-  }, [totalAmount, vendor, splits]);
+  }, [totalAmount, vendor, effectiveSplits, isRateMissing, myShareTotal, isShared, resolvedShares]);
 
+  const convertedTotal = isForeignCurrency && !isRateMissing
+    ? convertToBase(parseFloat(totalAmount) || 0, transactionCurrency, baseCurrencyCode, exchangeRates)
+    : null;
 
-  const handleSubmit = (e: React.FormEvent) => {
-    e.preventDefault();
+
+  // Describes every budget this transaction would leave exceeded for its month.
+  const getBudgetOverruns = (finalSplits: { amount: number; category: string }[]): string[] => {
+    if (kind !== 'expense') return [];
+    const spentByCategory = getCategorySpendForMonth(expenses, date.slice(0, 7), transactionToEdit?.[0].transactionId);
+    const addedByCategory = finalSplits.reduce((acc, split) => {
+      acc[split.category] = (acc[split.category] || 0) + split.amount;
+      return acc;
+    }, {} as Record<string, number>);
+
+    return Object.entries(addedByCategory)
+      .filter(([category, amount]) => categoryBudgets[category] && (spentByCategory[category] || 0) + amount > categoryBudgets[category])
+      .map(([category, amount]) => {
+        const budget = categoryBudgets[category];
+        const overBy = (spentByCategory[category] || 0) + amount - budget;
+        return `${category}: ${currencySymbol}${overBy.toFixed(2)} over its ${currencySymbol}${budget.toFixed(2)} budget`;
+      });
+  };
+
+  // Remembers when the user changed the parsed vendor, category or kind, so the next parse gets it right.
+  const learnFromCorrection = () => {
+    if (!parsedSuggestion || kind === 'transfer' || effectiveSplits.length !== 1) return;
+    const savedVendor = vendor.trim();
+    const savedCategory = effectiveSplits[0].category;
+    if (savedVendor === parsedSuggestion.vendor && savedCategory === parsedSuggestion.category && kind === parsedSuggestion.kind) return;
+    onLearnCorrection({
+      text: parsedSuggestion.text,
+      kind,
+      vendor: savedVendor,
+      category: savedCategory,
+      suggestedVendor: parsedSuggestion.vendor,
+      suggestedCategory: parsedSuggestion.category,
+    });
+  };
+
+  // The warning describes the details it was raised for, so it goes once they change.
+  useEffect(() => {
+    setPossibleDuplicate(null);
+  }, [vendor, date, kind, totalAmount, splits, transactionCurrency]);
+
+  const saveTransaction = (allowDuplicate: boolean) => {
     if (!isValid) return;
 
-    const finalSplits = splits.map(s => ({ amount: parseFloat(s.amount), category: s.category }));
+    // Store amounts in the base currency, keeping what was entered as the original amount.
+    const finalSplits = effectiveSplits.map(s => {
+      const enteredAmount = parseFloat(s.amount);
+      return {
+        amount: convertToBase(enteredAmount, transactionCurrency, baseCurrencyCode, exchangeRates) ?? enteredAmount,
+        category: s.category,
+        originalAmount: isForeignCurrency ? enteredAmount : undefined,
+      };
+    });
+    const currency = isForeignCurrency ? transactionCurrency : undefined;
+    const sharing: ExpenseSharing | undefined = isShared && resolvedShares ? {
+      mode: shareMode,
+      total: parseFloat(totalAmount),
+      myValue: shareMode === 'equal' ? 1 : parseFloat(myShareValue),
+      shares: resolvedShares.shares.map(share => ({
+        ...share,
+        amount: convertToBase(share.amount, transactionCurrency, baseCurrencyCode, exchangeRates) ?? share.amount,
+      })),
+      paidBy: paidBy || undefined,
+    } : undefined;
+    // Nothing left our accounts when someone else paid the bill.
+    const savedAccountId = sharing?.paidBy ? undefined : accountId || undefined;
+
+    // Pasting the same SMS twice, or getting a card and a UPI SMS for one payment, would save it twice.
+    if (!isEditMode && !allowDuplicate) {
+      const duplicate = findLikelyDuplicate({ vendor: vendor.trim(), date, kind, splits: finalSplits }, expenses);
+      if (duplicate) {
+        setPossibleDuplicate(duplicate);
+        return;
+      }
+    }
+
+    const overruns = getBudgetOverruns(finalSplits);
+    if (overruns.length > 0 && !window.confirm(`This transaction will put you over budget this month:\n\n${overruns.join('\n')}\n\nSave anyway?`)) {
+      return;
+    }
 
     if (isEditMode && onUpdateTransaction && transactionToEdit) {
       onUpdateTransaction({
@@ -135,34 +467,76 @@ const AddExpense: React.FC<AddExpenseProps> = ({ onAddTransaction, transactionTo
         vendor: vendor.trim(),
         date,
         notes: notes.trim(),
+        tags,
+        kind,
         splits: finalSplits,
-      });
+        currency,
+        recurringId: transactionToEdit[0].recurringId,
+        importId: transactionToEdit[0].importId,
+        rawVendor: transactionToEdit[0].rawVendor,
+        accountId: savedAccountId,
+        toAccountId: kind === 'transfer' ? toAccountId || undefined : undefined,
+        sharing,
+        settlement: transactionToEdit[0].settlement,
+      }, editingSeries ? editScope : 'occurrence');
     } else {
-      onAddTransaction({
+      const transaction: TransactionInput = {
         vendor: vendor.trim(),
         date,
         notes: notes.trim(),
+        tags,
+        kind,
         splits: finalSplits,
-      });
+        currency,
+        rawVendor: rawVendor && rawVendor !== vendor.trim() ? rawVendor : undefined,
+        accountId: savedAccountId,
+        toAccountId: kind === 'transfer' ? toAccountId || undefined : undefined,
+        sharing,
+      };
+      learnFromCorrection();
+      if (repeatFrequency !== 'none') {
+        onAddRecurringTransaction(transaction, repeatFrequency, repeatEndDate || undefined);
+      } else {
+        onAddTransaction(transaction);
+      }
       resetForm();
     }
   };
 
+  const handleSubmit = (e: React.FormEvent) => {
+    e.preventDefault();
+    saveTransaction(false);
+  };
+
   const resetForm = () => {
     setTotalAmount('');
     setVendor('');
     setDate(new Date().toISOString().slice(0, 10));
     setNotes('');
+    setTags([]);
+    setRawVendor(undefined);
+    setKind('expense');
+    setTransactionCurrency(baseCurrencyCode);
+    setAccountId('');
+    setToAccountId('');
+    setIsShared(false);
+    setShareMode('equal');
+    setPaidBy('');
+    setMyShareValue('');
+    setShareEntries([]);
+    setRepeatFrequency('none');
+    setRepeatEndDate('');
     setIsSplit(false);
-    setSplits([{ amount: '', category: 'Other' }]);
+    setSplits([{ amount: '', category: getDefaultCategory('expense') }]);
     setSmsText('');
+    setParsedSuggestion(null);
     setError(null);
   };
 
   return (
     <div className="space-y-6">
       <header>
-        <h1 className="text-3xl font-bold text-gray-900">{isEditMode ? 'Edit Expense' : 'Add Expense'}</h1>
+        <h1 className="text-3xl font-bold text-gray-900">{isEditMode ? 'Edit Transaction' : 'Add Transaction'}</h1>
         <p className="text-gray-500">{isEditMode ? 'Update the transaction details.' : 'Log a new transaction manually or with AI.'}</p>
       </header>
 
@@ -172,7 +546,7 @@ const AddExpense: React.FC<AddExpenseProps> = ({ onAddTransaction, transactionTo
           <textarea
             className="w-full p-3 border border-gray-300 rounded-lg focus:ring-2 focus:ring-indigo-500 focus:border-indigo-500 transition"
             rows={3}
-            placeholder={`Paste SMS content here, e.g., 'You spent ${currencySymbol}1000 at Starbucks...'`}
+            placeholder={`Paste one or more SMS messages here, e.g., 'You spent ${currencySymbol}1000 at Starbucks...'`}
             value={smsText}
             onChange={(e) => setSmsText(e.target.value)}
             disabled={isParsing}
@@ -182,31 +556,218 @@ const AddExpense: React.FC<AddExpenseProps> = ({ onAddTransaction, transactionTo
             disabled={isParsing}
             className="mt-3 w-full flex items-center justify-center bg-indigo-600 text-white font-semibold py-3 px-4 rounded-lg hover:bg-indigo-700 disabled:bg-indigo-300 transition-all duration-200"
           >
-            {isParsing ? <div className="animate-spin rounded-full h-5 w-5 border-b-2 border-white"></div> : <><SparklesIcon className="w-5 h-5 mr-2"/>Parse with AI</>}
+            {isParsing ? (
+              <>
+                <div className="animate-spin rounded-full h-5 w-5 border-b-2 border-white"></div>
+                {bulkProgress && <span className="ml-2">Parsing {bulkProgress.completed} of {bulkProgress.total}...</span>}
+              </>
+            ) : <><SparklesIcon className="w-5 h-5 mr-2"/>Parse with AI</>}
           </button>
           {error && <p className="text-red-500 text-sm mt-2">{error}</p>}
+          {pendingParses.length > 0 && !isParsing && (
+            <div className="flex items-center justify-between mt-2 text-sm text-amber-700">
+              <span>{pendingParses.length === 1 ? '1 message' : `${pendingParses.length} messages`} will be parsed when you're back online.</span>
+              <button onClick={retryPendingParses} className="ml-3 font-medium text-indigo-600 hover:text-indigo-800 flex-shrink-0">Retry now</button>
+            </div>
+          )}
         </div>
       )}
 
+      {!isEditMode && bulkResults && (
+        <BulkSmsReview
+          results={bulkResults}
+          allCategories={allCategories}
+          allIncomeCategories={allIncomeCategories}
+          currencySymbol={currencySymbol}
+          accounts={accounts}
+          expenses={expenses}
+          onSave={handleSaveBulk}
+          onCancel={() => setBulkResults(null)}
+        />
+      )}
+
       <form onSubmit={handleSubmit} className="bg-white p-4 rounded-xl shadow-md space-y-4">
         <h2 className="text-lg font-semibold text-gray-800 border-b pb-3 mb-2">Transaction Details</h2>
+        <div className="grid grid-cols-3 gap-1 p-1 bg-gray-100 rounded-lg" role="radiogroup" aria-label="Transaction type">
+          {KIND_OPTIONS.map(option => (
+            <button
+              key={option.value}
+              type="button"
+              role="radio"
+              aria-checked={kind === option.value}
+              onClick={() => handleKindChange(option.value)}
+              className={`py-1.5 text-sm font-medium rounded-md transition-colors ${kind === option.value ? 'bg-white text-indigo-700 shadow-sm' : 'text-gray-600 hover:text-gray-900'}`}
+            >
+              {option.label}
+            </button>
+          ))}
+        </div>
         <div>
-          <label htmlFor="vendor" className="block text-sm font-medium text-gray-700">Vendor</label>
-          <input type="text" id="vendor" value={vendor} onChange={e => setVendor(e.target.value)} className="mt-1 block w-full input-field" placeholder="e.g., Coffee Shop" required />
+          <label htmlFor="vendor" className="block text-sm font-medium text-gray-700">{kind === 'income' ? 'Source' : kind === 'transfer' ? 'Description' : 'Vendor'}</label>
+          <input type="text" id="vendor" value={vendor} onChange={e => setVendor(e.target.value)} className="mt-1 block w-full input-field" placeholder={kind === 'income' ? 'e.g., Employer' : kind === 'transfer' ? 'e.g., Savings to Checking' : 'e.g., Coffee Shop'} required />
         </div>
         <div>
           <label htmlFor="totalAmount" className="block text-sm font-medium text-gray-700">Total Amount</label>
-          <input type="number" id="totalAmount" value={totalAmount} onChange={e => setTotalAmount(e.target.value)} className="mt-1 block w-full input-field" placeholder="0.00" required step="0.01" />
+          <div className="mt-1 flex space-x-2">
+            <input type="number" id="totalAmount" value={totalAmount} onChange={e => setTotalAmount(e.target.value)} className="block w-full input-field" placeholder="0.00" required step="0.01" />
+            <select value={transactionCurrency} onChange={e => setTransactionCurrency(e.target.value)} className="input-field flex-shrink-0" aria-label="Transaction currency">
+              {CURRENCIES.map(c => <option key={c.code} value={c.code}>{c.code}</option>)}
+            </select>
+          </div>
+          {isRateMissing && (
+            <p className="text-red-500 text-sm mt-1">Add an exchange rate for {transactionCurrency} in Settings → Exchange Rates to use it.</p>
+          )}
+          {convertedTotal !== null && (
+            <p className="text-gray-500 text-sm mt-1">≈ {currencySymbol}{convertedTotal.toFixed(2)} at 1 {transactionCurrency} = {exchangeRates[transactionCurrency]} {baseCurrencyCode}</p>
+          )}
         </div>
         <div>
           <label htmlFor="date" className="block text-sm font-medium text-gray-700">Date</label>
           <input type="date" id="date" value={date} onChange={(e) => setDate(e.target.value)} className="mt-1 block w-full input-field date-input-with-icon" required />
         </div>
+        {accounts.length > 0 && !(isShared && paidBy) && (
+          <div className={kind === 'transfer' ? 'grid grid-cols-2 gap-3' : undefined}>
+            <div>
+              <label htmlFor="account" className="block text-sm font-medium text-gray-700">{kind === 'income' ? 'Received into' : kind === 'transfer' ? 'From account' : 'Paid from'}</label>
+              <select id="account" value={accountId} onChange={e => setAccountId(e.target.value)} className="mt-1 block w-full input-field">
+                <option value="">No account</option>
+                {accounts.map(account => <option key={account.id} value={account.id}>{account.name}</option>)}
+              </select>
+            </div>
+            {kind === 'transfer' && (
+              <div>
+                <label htmlFor="toAccount" className="block text-sm font-medium text-gray-700">To account</label>
+                <select id="toAccount" value={toAccountId} onChange={e => setToAccountId(e.target.value)} className="mt-1 block w-full input-field">
+                  <option value="">No account</option>
+                  {accounts.filter(account => account.id !== accountId).map(account => <option key={account.id} value={account.id}>{account.name}</option>)}
+                </select>
+              </div>
+            )}
+          </div>
+        )}
         <div>
           <label htmlFor="notes" className="block text-sm font-medium text-gray-700">Notes (Optional)</label>
           <input type="text" id="notes" value={notes} onChange={e => setNotes(e.target.value)} className="mt-1 block w-full input-field" placeholder="e.g., Groceries for the week" />
         </div>
+        <div>
+          <label htmlFor="tags" className="block text-sm font-medium text-gray-700">Tags (Optional)</label>
+          <TagInput tags={tags} onChange={setTags} suggestions={allTags} />
+        </div>
+        {!isEditMode && (
+          <div className="grid grid-cols-2 gap-3">
+            <div>
+              <label htmlFor="repeat" className="block text-sm font-medium text-gray-700">Repeat</label>
+              <select id="repeat" value={repeatFrequency} onChange={e => setRepeatFrequency(e.target.value as RecurrenceFrequency | 'none')} className="mt-1 block w-full input-field">
+                <option value="none">Does not repeat</option>
+                {(Object.keys(FREQUENCY_LABELS) as RecurrenceFrequency[]).map(freq => (
+                  <option key={freq} value={freq}>{FREQUENCY_LABELS[freq]}</option>
+                ))}
+              </select>
+            </div>
+            {repeatFrequency !== 'none' && (
+              <div>
+                <label htmlFor="repeatEndDate" className="block text-sm font-medium text-gray-700">Ends on (Optional)</label>
+                <input type="date" id="repeatEndDate" value={repeatEndDate} min={date} onChange={e => setRepeatEndDate(e.target.value)} className="mt-1 block w-full input-field date-input-with-icon" />
+              </div>
+            )}
+          </div>
+        )}
+        {isEditMode && editingSeries && (
+          <fieldset className="p-3 bg-indigo-50 rounded-lg">
+            <legend className="sr-only">Apply changes to</legend>
+            <p className="text-sm font-medium text-gray-700 mb-2">Part of a {FREQUENCY_LABELS[editingSeries.frequency].toLowerCase()} series. Apply changes to:</p>
+            <div className="flex space-x-4">
+              <label className="flex items-center text-sm text-gray-700">
+                <input type="radio" name="editScope" value="occurrence" checked={editScope === 'occurrence'} onChange={() => setEditScope('occurrence')} className="mr-2" />
+                This occurrence only
+              </label>
+              <label className="flex items-center text-sm text-gray-700">
+                <input type="radio" name="editScope" value="future" checked={editScope === 'future'} onChange={() => setEditScope('future')} className="mr-2" />
+                All future
+              </label>
+            </div>
+          </fieldset>
+        )}
         
+        {kind === 'expense' && (contacts.length > 0 || isShared) && (
+          <div className="pt-2">
+            <div className="flex justify-between items-center border-b pb-3 mb-2">
+              <h2 className="text-lg font-semibold text-gray-800">Split with People</h2>
+              <button type="button" onClick={handleToggleShared} className="px-3 py-1 text-sm font-medium text-indigo-700 bg-indigo-100 rounded-full hover:bg-indigo-200 transition-colors">
+                {isShared ? 'Just Me' : 'Split'}
+              </button>
+            </div>
+            {isShared && (
+              <div className="space-y-3">
+                <div>
+                  <label htmlFor="paidBy" className="block text-sm font-medium text-gray-700">Paid by</label>
+                  <select id="paidBy" value={paidBy} onChange={e => setPaidBy(e.target.value)} className="mt-1 block w-full input-field">
+                    <option value="">Me</option>
+                    {shareEntries.map(entry => <option key={entry.contactId} value={entry.contactId}>{getContactName(entry.contactId)}</option>)}
+                  </select>
+                </div>
+                <div className="grid grid-cols-4 gap-1 p-1 bg-gray-100 rounded-lg" role="radiogroup" aria-label="How to split">
+                  {(Object.keys(SHARE_MODE_LABELS) as ShareMode[]).map(mode => (
+                    <button
+                      key={mode}
+                      type="button"
+                      role="radio"
+                      aria-checked={shareMode === mode}
+                      onClick={() => setShareMode(mode)}
+                      className={`py-1.5 text-sm font-medium rounded-md transition-colors ${shareMode === mode ? 'bg-white text-indigo-700 shadow-sm' : 'text-gray-600 hover:text-gray-900'}`}
+                    >
+                      {SHARE_MODE_LABELS[mode]}
+                    </button>
+                  ))}
+                </div>
+                <div className="flex items-center space-x-2">
+                  <span className="flex-grow text-sm font-medium text-gray-700">Me</span>
+                  {shareMode !== 'equal' && (
+                    <input type="number" min="0" step={shareMode === 'exact' ? '0.01' : 'any'} value={myShareValue} onChange={e => setMyShareValue(e.target.value)} className="w-24 input-field" placeholder={shareMode === 'exact' ? '0.00' : shareMode === 'percentage' ? '%' : 'Shares'} aria-label="My part" />
+                  )}
+                  <span className="w-20 text-right text-sm text-gray-600">{resolvedShares ? `${entrySymbol}${resolvedShares.myAmount.toFixed(2)}` : '—'}</span>
+                  <span className="w-7" />
+                </div>
+                {shareEntries.map((entry, index) => (
+                  <div key={index} className="flex items-center space-x-2">
+                    <select value={entry.contactId} onChange={e => updateShareEntry(index, { contactId: e.target.value })} className="flex-grow min-w-0 input-field" aria-label={`Person ${index + 1}`}>
+                      {!contacts.some(c => c.id === entry.contactId) && <option value={entry.contactId}>{getContactName(entry.contactId)}</option>}
+                      {contacts.filter(c => c.id === entry.contactId || !shareEntries.some(e => e.contactId === c.id)).map(c => <option key={c.id} value={c.id}>{c.name}</option>)}
+                    </select>
+                    {shareMode !== 'equal' && (
+                      <input type="number" min="0" step={shareMode === 'exact' ? '0.01' : 'any'} value={entry.value} onChange={e => updateShareEntry(index, { value: e.target.value })} className="w-24 input-field" placeholder={shareMode === 'exact' ? '0.00' : shareMode === 'percentage' ? '%' : 'Shares'} aria-label={`Part for ${getContactName(entry.contactId)}`} />
+                    )}
+                    <span className="w-20 text-right text-sm text-gray-600">{resolvedShares ? `${entrySymbol}${resolvedShares.shares[index].amount.toFixed(2)}` : '—'}</span>
+                    <button type="button" onClick={() => removeShareEntry(index)} disabled={shareEntries.length <= 1} className="p-1 text-gray-400 hover:text-red-500 disabled:opacity-50 disabled:cursor-not-allowed" aria-label={`Remove ${getContactName(entry.contactId)}`}>
+                      <TrashIcon className="w-5 h-5" />
+                    </button>
+                  </div>
+                ))}
+                {shareEntries.length < contacts.length && (
+                  <button type="button" onClick={addShareEntry} className="w-full flex items-center justify-center px-4 py-2 text-sm font-medium text-indigo-700 bg-indigo-100 rounded-md hover:bg-indigo-200 transition-colors">
+                    <PlusIcon className="w-5 h-5 mr-2" /> Add Person
+                  </button>
+                )}
+                <div className={`text-sm text-center p-2 rounded-md ${resolvedShares ? 'bg-indigo-50 text-indigo-800' : 'bg-yellow-50 text-yellow-700'}`}>
+                  {!resolvedShares ? (
+                    <p>
+                      {shareMode === 'exact' ? `The amounts must add up to ${entrySymbol}${(parseFloat(totalAmount) || 0).toFixed(2)}.`
+                        : shareMode === 'percentage' ? 'The percentages must add up to 100.'
+                        : shareMode === 'shares' ? "Enter everyone's number of shares."
+                        : 'Enter the total amount to split.'}
+                    </p>
+                  ) : paidBy ? (
+                    <p>You owe {getContactName(paidBy)} {entrySymbol}{resolvedShares.myAmount.toFixed(2)}.</p>
+                  ) : (
+                    <p>Your share is {entrySymbol}{resolvedShares.myAmount.toFixed(2)}. Others owe you {entrySymbol}{resolvedShares.shares.reduce((sum, s) => sum + s.amount, 0).toFixed(2)}.</p>
+                  )}
+                </div>
+              </div>
+            )}
+          </div>
+        )}
+
+        {kind !== 'transfer' && (
         <div className="pt-2">
             <div className="flex justify-between items-center border-b pb-3 mb-2">
                  <h2 className="text-lg font-semibold text-gray-800">Category Splits</h2>
@@ -220,7 +781,7 @@ const AddExpense: React.FC<AddExpenseProps> = ({ onAddTransaction, transactionTo
                   <div key={index} className="flex items-center space-x-2">
                     <input type="number" value={split.amount} onChange={e => updateSplit(index, 'amount', e.target.value)} className="w-1/3 input-field" placeholder="Amount" required step="0.01" aria-label={`Amount for split ${index + 1}`} />
                     <select value={split.category} onChange={e => updateSplit(index, 'category', e.target.value as Category)} className="flex-grow input-field" aria-label={`Category for split ${index + 1}`}>
-                      {allCategories.map(cat => <option key={cat}>{cat}</option>)}
+                      {categoriesForKind.map(cat => <option key={cat}>{cat}</option>)}
                     </select>
                     <button type="button" onClick={() => removeSplit(index)} disabled={splits.length <= 1} className="p-1 text-gray-400 hover:text-red-500 disabled:opacity-50 disabled:cursor-not-allowed" aria-label={`Remove split ${index + 1}`}>
                       <TrashIcon className="w-5 h-5" />
@@ -231,29 +792,42 @@ const AddExpense: React.FC<AddExpenseProps> = ({ onAddTransaction, transactionTo
                   <PlusIcon className="w-5 h-5 mr-2" /> Add Split
                 </button>
                 <div className={`mt-2 text-sm text-center p-2 rounded-md ${remainingAmount === 0 ? 'bg-green-50 text-green-700' : 'bg-yellow-50 text-yellow-700'}`}>
-                    <p>Remaining: {currencySymbol}{remainingAmount.toFixed(2)}</p>
+                    <p>Remaining: {entrySymbol}{remainingAmount.toFixed(2)}</p>
                 </div>
               </div>
             ) : (
                 <div>
                   <label htmlFor="category" className="sr-only">Category</label>
-                  <select id="category" value={splits[0]?.category || 'Other'} onChange={e => {
+                  <select id="category" value={splits[0]?.category || defaultCategory} onChange={e => {
                       const newCategory = e.target.value as Category;
                       setSplits([{ amount: totalAmount, category: newCategory }])
                     }} 
-                    onFocus={() => setSplits([{ amount: totalAmount, category: splits[0]?.category || 'Other' }])}
+                    onFocus={() => setSplits([{ amount: totalAmount, category: splits[0]?.category || defaultCategory }])}
                     className="block w-full input-field">
-                    {allCategories.map(cat => <option key={cat}>{cat}</option>)}
+                    {categoriesForKind.map(cat => <option key={cat}>{cat}</option>)}
                   </select>
                 </div>
             )}
         </div>
+        )}
+
+        {possibleDuplicate && (
+          <div className="p-3 rounded-lg border border-yellow-300 bg-yellow-50 space-y-2" role="alert">
+            <p className="text-sm text-yellow-800">
+              This looks like {possibleDuplicate.vendor} for {currencySymbol}{possibleDuplicate.amount.toFixed(2)} on {possibleDuplicate.date}, which you've already saved.
+            </p>
+            <div className="flex items-center justify-end space-x-3">
+              <button type="button" onClick={() => onViewTransaction(possibleDuplicate.transactionId)} className="text-sm font-medium text-indigo-600 hover:text-indigo-800">View existing</button>
+              <button type="button" onClick={() => saveTransaction(true)} className="px-3 py-1.5 text-sm font-medium text-yellow-900 bg-yellow-200 rounded-md hover:bg-yellow-300 transition-colors">Save anyway</button>
+            </div>
+          </div>
+        )}
 
         <div className="flex items-center justify-end space-x-3 pt-2">
             <button type="button" onClick={resetForm} className="px-4 py-2 text-sm font-medium text-gray-700 bg-gray-100 rounded-md hover:bg-gray-200 transition-colors">Reset</button>
             <button type="submit" disabled={!isValid} className="px-4 py-2 text-sm font-medium text-white bg-indigo-600 rounded-md hover:bg-indigo-700 flex items-center transition-colors disabled:bg-indigo-300 disabled:cursor-not-allowed">
               <CheckIcon className="w-5 h-5 mr-1" />
-              {isEditMode ? 'Update Expense' : 'Save Expense'}
+              {isEditMode ? `Update ${kindLabel}` : `Save ${kindLabel}`}
             </button>
         </div>
       </form>
@@ -0,0 +1,110 @@
+import React, { useMemo, useState } from 'react';
+import type { Expense } from '../types';
+import { summarizeMerge, type MergePlan, type MergeSide } from '../utils/backupMerge';
+
+interface BackupMergeProps {
+  plan: MergePlan;
+  currencySymbol: string;
+  onCommit: (resolutions: Record<string, MergeSide>) => void;
+  onCancel: () => void;
+}
+
+const describeSplits = (splits: Expense[], currencySymbol: string) =>
+  splits.map(s => `${currencySymbol}${s.amount.toFixed(2)} ${s.category}`).join(' + ');
+
+const TransactionVersion: React.FC<{
+  title: string;
+  splits: Expense[];
+  currencySymbol: string;
+  isSelected: boolean;
+  onSelect: () => void;
+}> = ({ title, splits, currencySymbol, isSelected, onSelect }) => {
+  const [first] = splits;
+  return (
+    <button
+      onClick={onSelect}
+      className={`w-full text-left p-3 rounded-lg border transition-colors ${isSelected ? 'border-indigo-500 bg-indigo-50' : 'border-gray-200 hover:bg-gray-50'}`}
+      aria-pressed={isSelected}
+    >
+      <p className="text-xs font-semibold uppercase tracking-wide text-gray-500">{title}</p>
+      <p className="font-medium text-gray-800 truncate">{first.vendor}</p>
+      <p className="text-xs text-gray-600">{first.date}{first.deletedAt ? ' · in trash' : ''}</p>
+      <p className="text-xs text-gray-600">{describeSplits(splits, currencySymbol)}</p>
+      {first.notes && <p className="text-xs text-gray-500 truncate">{first.notes}</p>}
+      {first.tags && first.tags.length > 0 && <p className="text-xs text-gray-500 truncate">#{first.tags.join(' #')}</p>}
+    </button>
+  );
+};
+
+const BackupMerge: React.FC<BackupMergeProps> = ({ plan, currencySymbol, onCommit, onCancel }) => {
+  const [resolutions, setResolutions] = useState<Record<string, MergeSide>>({});
+  const summary = useMemo(() => summarizeMerge(plan, resolutions), [plan, resolutions]);
+
+  const resolveAll = (side: MergeSide) => {
+    setResolutions(Object.fromEntries(plan.conflicts.map(c => [c.transactionId, side])));
+  };
+
+  const otherChanges = [
+    plan.newCategories.length > 0 && `${plan.newCategories.length} new ${plan.newCategories.length === 1 ? 'category' : 'categories'}`,
+    plan.newRecurringTransactions.length > 0 && `${plan.newRecurringTransactions.length} recurring series`,
+    plan.newRules.length > 0 && `${plan.newRules.length} ${plan.newRules.length === 1 ? 'rule' : 'rules'}`,
+    plan.newMerchants.length > 0 && `${plan.newMerchants.length} ${plan.newMerchants.length === 1 ? 'merchant' : 'merchants'}`,
+    plan.newAccounts.length > 0 && `${plan.newAccounts.length} ${plan.newAccounts.length === 1 ? 'account' : 'accounts'}`,
+    plan.newContacts.length > 0 && `${plan.newContacts.length} ${plan.newContacts.length === 1 ? 'person' : 'people'}`,
+  ].filter(Boolean);
+
+  return (
+    <div className="space-y-4">
+      <div className="bg-white p-4 rounded-xl shadow-md space-y-3">
+        <h2 className="text-lg font-semibold text-gray-800">Summary</h2>
+        <div className="grid grid-cols-2 sm:grid-cols-4 gap-2 text-center">
+          {[
+            { label: 'Added', value: summary.added },
+            { label: 'Updated', value: summary.updated },
+            { label: 'Skipped', value: summary.skipped },
+            { label: 'Conflicting', value: summary.conflicting },
+          ].map(({ label, value }) => (
+            <div key={label} className="p-2 rounded-lg bg-gray-50">
+              <p className="text-xl font-bold text-gray-900">{value}</p>
+              <p className="text-xs text-gray-500">{label}</p>
+            </div>
+          ))}
+        </div>
+        {otherChanges.length > 0 && <p className="text-sm text-gray-600">Also adds {otherChanges.join(', ')}.</p>}
+        <p className="text-xs text-gray-500">Nothing on this device is removed. Updated transactions are replaced with the backup's version.</p>
+      </div>
+
+      {plan.conflicts.length > 0 && (
+        <div className="bg-white p-4 rounded-xl shadow-md space-y-3">
+          <div className="flex justify-between items-center">
+            <h2 className="text-lg font-semibold text-gray-800">Conflicts</h2>
+            <div className="space-x-3">
+              <button onClick={() => resolveAll('current')} className="text-xs font-medium text-indigo-600 hover:text-indigo-800">Keep all mine</button>
+              <button onClick={() => resolveAll('backup')} className="text-xs font-medium text-indigo-600 hover:text-indigo-800">Use all from backup</button>
+            </div>
+          </div>
+          <p className="text-sm text-gray-500">These transactions differ between this device and the backup. Pick the version to keep; unpicked ones keep this device's version.</p>
+          <ul className="space-y-3">
+            {plan.conflicts.map(conflict => {
+              const side = resolutions[conflict.transactionId] ?? 'current';
+              const select = (value: MergeSide) => setResolutions(prev => ({ ...prev, [conflict.transactionId]: value }));
+              return (
+                <li key={conflict.transactionId} className="grid grid-cols-2 gap-2">
+                  <TransactionVersion title="This device" splits={conflict.current} currencySymbol={currencySymbol} isSelected={side === 'current'} onSelect={() => select('current')} />
+                  <TransactionVersion title="Backup" splits={conflict.backup} currencySymbol={currencySymbol} isSelected={side === 'backup'} onSelect={() => select('backup')} />
+                </li>
+              );
+            })}
+          </ul>
+        </div>
+      )}
+
+      <div className="flex space-x-2">
+        <button onClick={onCancel} className="flex-1 px-4 py-2 text-sm font-medium text-gray-700 bg-gray-100 rounded-md hover:bg-gray-200 transition-colors">Cancel</button>
+        <button onClick={() => onCommit(resolutions)} className="flex-1 px-4 py-2 text-sm font-medium text-white bg-indigo-600 rounded-md hover:bg-indigo-700 transition-colors">Merge</button>
+      </div>
+    </div>
+  );
+};
+
+export default BackupMerge;
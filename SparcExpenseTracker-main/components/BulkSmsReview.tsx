@@ -0,0 +1,166 @@
+import React, { useMemo, useState } from 'react';
+import type { Account, Expense, ParsedExpense, TransactionInput, TransactionKind } from '../types';
+import { getDefaultCategory } from '../utils/transactionUtils';
+import { findBatchDuplicates, type BatchDuplicate } from '../utils/duplicates';
+import { CheckIcon, XIcon } from './Icons';
+import TagChips from './TagChips';
+
+export interface BulkParseResult {
+  sms: string;
+  parsed: ParsedExpense | null;
+  tags?: string[]; // Added by a matching rule
+  rawVendor?: string; // The parsed vendor, when a merchant alias or rule renamed it
+  accountId?: string; // Matched from the card or account ending the message quotes
+}
+
+interface BulkSmsReviewProps {
+  results: BulkParseResult[];
+  allCategories: string[];
+  allIncomeCategories: string[];
+  currencySymbol: string;
+  accounts: Account[];
+  expenses: Expense[]; // Checked for transactions the messages repeat
+  onSave: (transactions: TransactionInput[]) => void;
+  onCancel: () => void;
+}
+
+interface ReviewRow {
+  sms: string;
+  isParsed: boolean;
+  accepted: boolean;
+  kind: Exclude<TransactionKind, 'transfer'>;
+  vendor: string;
+  amount: string;
+  category: string;
+  date: string;
+  tags?: string[];
+  rawVendor?: string;
+  accountId: string;
+  duplicate: BatchDuplicate | null;
+}
+
+const toReviewRow = ({ sms, parsed, tags, rawVendor, accountId }: BulkParseResult, today: string): ReviewRow => {
+  const kind = parsed?.kind ?? 'expense';
+  return {
+    sms,
+    isParsed: !!parsed,
+    // Messages that couldn't be parsed start out rejected but can still be filled in by hand.
+    accepted: !!parsed,
+    kind,
+    vendor: parsed?.vendor ?? '',
+    amount: parsed ? parsed.amount.toString() : '',
+    category: parsed?.category ?? getDefaultCategory(kind),
+    date: parsed?.date ?? today,
+    tags,
+    rawVendor,
+    accountId: accountId ?? '',
+    duplicate: null,
+  };
+};
+
+const isRowValid = (row: ReviewRow) => row.vendor.trim() !== '' && parseFloat(row.amount) > 0 && !!row.date;
+
+const BulkSmsReview: React.FC<BulkSmsReviewProps> = ({ results, allCategories, allIncomeCategories, currencySymbol, accounts, expenses, onSave, onCancel }) => {
+  const [rows, setRows] = useState<ReviewRow[]>(() => {
+    const today = new Date().toISOString().slice(0, 10);
+    const initialRows = results.map(result => toReviewRow(result, today));
+    // Likely duplicates start out rejected, like messages that couldn't be parsed.
+    const duplicates = findBatchDuplicates(
+      initialRows.map(row => ({ vendor: row.vendor, date: row.date, kind: row.kind, splits: [{ amount: parseFloat(row.amount) || 0, category: row.category }] })),
+      expenses
+    );
+    return initialRows.map((row, i) => duplicates[i] && row.isParsed ? { ...row, duplicate: duplicates[i], accepted: false } : row);
+  });
+
+  const acceptedRows = useMemo(() => rows.filter(r => r.accepted), [rows]);
+  const canSave = acceptedRows.length > 0 && acceptedRows.every(isRowValid);
+
+  const updateRow = (index: number, changes: Partial<ReviewRow>) => {
+    setRows(prev => prev.map((row, i) => i === index ? { ...row, ...changes } : row));
+  };
+
+  const handleKindChange = (index: number, kind: ReviewRow['kind']) => {
+    updateRow(index, { kind, category: getDefaultCategory(kind) });
+  };
+
+  const handleSave = () => {
+    if (!canSave) return;
+    onSave(acceptedRows.map(row => ({
+      vendor: row.vendor.trim(),
+      date: row.date,
+      notes: '',
+      kind: row.kind,
+      tags: row.tags,
+      rawVendor: row.rawVendor && row.rawVendor !== row.vendor.trim() ? row.rawVendor : undefined,
+      accountId: row.accountId || undefined,
+      splits: [{ amount: parseFloat(row.amount), category: row.category }],
+    })));
+  };
+
+  return (
+    <div className="bg-white p-4 rounded-xl shadow-md space-y-4 animate-fade-in">
+      <div className="flex justify-between items-baseline">
+        <h2 className="text-lg font-semibold text-gray-800">Review {rows.length} Messages</h2>
+        <span className="text-sm text-gray-500">{acceptedRows.length} accepted</span>
+      </div>
+      <ul className="space-y-3">
+        {rows.map((row, index) => {
+          const categories = row.kind === 'income' ? allIncomeCategories : allCategories;
+          return (
+            <li key={index} className={`p-3 rounded-lg border ${row.accepted ? (isRowValid(row) ? 'border-indigo-200 bg-indigo-50/40' : 'border-yellow-300 bg-yellow-50') : 'border-gray-200 bg-gray-50 opacity-75'}`}>
+              <div className="flex items-start justify-between space-x-2">
+                <p className="text-xs text-gray-500 line-clamp-2 flex-grow" title={row.sms}>{row.sms}</p>
+                <button
+                  type="button"
+                  onClick={() => updateRow(index, { accepted: !row.accepted })}
+                  className={`flex-shrink-0 flex items-center px-2 py-1 text-xs font-medium rounded-full transition-colors ${row.accepted ? 'bg-green-100 text-green-700 hover:bg-green-200' : 'bg-gray-200 text-gray-600 hover:bg-gray-300'}`}
+                  aria-pressed={row.accepted}
+                  aria-label={row.accepted ? `Reject message ${index + 1}` : `Accept message ${index + 1}`}
+                >
+                  {row.accepted ? <><CheckIcon className="w-4 h-4 mr-1" />Accepted</> : <><XIcon className="w-4 h-4 mr-1" />Rejected</>}
+                </button>
+              </div>
+              {!row.isParsed && <p className="text-xs text-yellow-700 mt-1">Couldn't identify a transaction. Fill in the details to include it.</p>}
+              {row.duplicate && (
+                <p className="text-xs text-yellow-700 mt-1">
+                  Possible duplicate of {row.duplicate.vendor} on {row.duplicate.date}{row.duplicate.isInBatch ? ' earlier in this list' : ''}. Accept it to save it anyway.
+                </p>
+              )}
+              <div className="grid grid-cols-2 gap-2 mt-2">
+                <input type="text" value={row.vendor} onChange={e => updateRow(index, { vendor: e.target.value })} className="input-field" placeholder="Vendor" aria-label={`Vendor for message ${index + 1}`} />
+                <div className="relative">
+                  <span className="pointer-events-none absolute inset-y-0 left-0 flex items-center pl-2 text-sm text-gray-400">{currencySymbol}</span>
+                  <input type="number" step="0.01" value={row.amount} onChange={e => updateRow(index, { amount: e.target.value })} className="w-full input-field pl-7" placeholder="0.00" aria-label={`Amount for message ${index + 1}`} />
+                </div>
+                <select value={row.kind} onChange={e => handleKindChange(index, e.target.value as ReviewRow['kind'])} className="input-field" aria-label={`Type for message ${index + 1}`}>
+                  <option value="expense">Expense</option>
+                  <option value="income">Income</option>
+                </select>
+                <select value={row.category} onChange={e => updateRow(index, { category: e.target.value })} className="input-field" aria-label={`Category for message ${index + 1}`}>
+                  {categories.map(cat => <option key={cat}>{cat}</option>)}
+                </select>
+                <input type="date" value={row.date} onChange={e => updateRow(index, { date: e.target.value })} className="col-span-2 input-field date-input-with-icon" aria-label={`Date for message ${index + 1}`} />
+                {accounts.length > 0 && (
+                  <select value={row.accountId} onChange={e => updateRow(index, { accountId: e.target.value })} className="col-span-2 input-field" aria-label={`Account for message ${index + 1}`}>
+                    <option value="">No account</option>
+                    {accounts.map(account => <option key={account.id} value={account.id}>{account.name}</option>)}
+                  </select>
+                )}
+              </div>
+              <TagChips tags={row.tags} />
+            </li>
+          );
+        })}
+      </ul>
+      <div className="flex items-center justify-end space-x-3">
+        <button type="button" onClick={onCancel} className="px-4 py-2 text-sm font-medium text-gray-700 bg-gray-100 rounded-md hover:bg-gray-200 transition-colors">Discard</button>
+        <button type="button" onClick={handleSave} disabled={!canSave} className="px-4 py-2 text-sm font-medium text-white bg-indigo-600 rounded-md hover:bg-indigo-700 flex items-center transition-colors disabled:bg-indigo-300 disabled:cursor-not-allowed">
+          <CheckIcon className="w-5 h-5 mr-1" />
+          Save {acceptedRows.length} {acceptedRows.length === 1 ? 'Transaction' : 'Transactions'}
+        </button>
+      </div>
+    </div>
+  );
+};
+
+export default BulkSmsReview;
@@ -1,27 +1,48 @@
 
 import React, { useState, useMemo, useRef, useEffect } from 'react';
-import type { Expense, CategoryDefinition } from '../types';
+import type { Expense, CategoryDefinition, CategoryKind, CategoryRule, RecurringTransaction } from '../types';
 import { PencilIcon, TrashIcon, PlusIcon, CheckIcon, XIcon } from './Icons';
+import { DEFAULT_EXPENSE_CATEGORY, DEFAULT_INCOME_CATEGORY } from '../constants';
+import { getCategoryKind, getDefaultCategory } from '../utils/transactionUtils';
+import { renameRuleCategory } from '../utils/rules';
+import { renameSeriesCategory } from '../utils/recurrence';
+import type { RecordUndoableAction } from '../utils/undoHistory';
+
+// Fallback categories can be recolored but never renamed or deleted.
+const PROTECTED_CATEGORIES = [DEFAULT_EXPENSE_CATEGORY, DEFAULT_INCOME_CATEGORY];
 
 interface CategoryManagerProps {
   expenses: Expense[];
   onExpensesChange: (expenses: Expense[]) => void;
   categories: CategoryDefinition[];
   onCategoriesChange: (categories: CategoryDefinition[]) => void;
+  rules: CategoryRule[];
+  onRulesChange: (rules: CategoryRule[]) => void;
+  recurringTransactions: RecurringTransaction[];
+  onRecurringTransactionsChange: (recurringTransactions: RecurringTransaction[]) => void;
+  currencySymbol: string;
+  onRecordAction: RecordUndoableAction;
 }
 
-const CategoryManager: React.FC<CategoryManagerProps> = ({ expenses, onExpensesChange, categories, onCategoriesChange }) => {
+const CategoryManager: React.FC<CategoryManagerProps> = ({ expenses, onExpensesChange, categories, onCategoriesChange, rules, onRulesChange, recurringTransactions, onRecurringTransactionsChange, currencySymbol, onRecordAction }) => {
+  const [activeKind, setActiveKind] = useState<CategoryKind>('expense');
   const [isAdding, setIsAdding] = useState(false);
   const [editingCatName, setEditingCatName] = useState<string | null>(null);
-  const [formState, setFormState] = useState({ name: '', color: '#9CA3AF' });
+  const [formState, setFormState] = useState({ name: '', color: '#9CA3AF', budget: '' });
   const [error, setError] = useState<string | null>(null);
   const newCategoryInputRef = useRef<HTMLInputElement>(null);
   
+  // Names must be unique across both kinds since expenses reference categories by name.
   const allCategoryNames = useMemo(() => 
     categories.map(c => c.name), 
     [categories]
   );
 
+  const categoriesForKind = useMemo(() =>
+    categories.filter(c => getCategoryKind(c) === activeKind),
+    [categories, activeKind]
+  );
+
   useEffect(() => {
     if (isAdding && newCategoryInputRef.current) {
       newCategoryInputRef.current.focus();
@@ -31,14 +52,14 @@ const CategoryManager: React.FC<CategoryManagerProps> = ({ expenses, onExpensesC
   const handleAddNewClick = () => {
     // Generate a random, pleasant color for the new category
     const randomColor = '#' + ('000000' + Math.floor(Math.random()*16777215).toString(16)).slice(-6);
-    setFormState({ name: '', color: randomColor });
+    setFormState({ name: '', color: randomColor, budget: '' });
     setEditingCatName(null);
     setIsAdding(true);
     setError(null);
   };
   
   const handleEditClick = (category: CategoryDefinition) => {
-    setFormState({ name: category.name, color: category.color });
+    setFormState({ name: category.name, color: category.color, budget: category.budget ? category.budget.toString() : '' });
     setEditingCatName(category.name);
     setIsAdding(false);
     setError(null);
@@ -50,6 +71,11 @@ const CategoryManager: React.FC<CategoryManagerProps> = ({ expenses, onExpensesC
     setError(null);
   };
 
+  const handleKindChange = (kind: CategoryKind) => {
+    handleCancel();
+    setActiveKind(kind);
+  };
+
   const validateName = (name: string, originalName?: string) => {
     const trimmedName = name.trim();
     if (!trimmedName) {
@@ -64,43 +90,78 @@ const CategoryManager: React.FC<CategoryManagerProps> = ({ expenses, onExpensesC
     return null;
   };
 
+  const validateBudget = (budget: string) => {
+    if (budget.trim() === '') return null;
+    const parsed = parseFloat(budget);
+    if (isNaN(parsed) || parsed <= 0) {
+      return "Budget must be a positive amount.";
+    }
+    return null;
+  };
+
   const handleSave = () => {
-    const validationError = validateName(formState.name, editingCatName ?? undefined);
+    const validationError = validateName(formState.name, editingCatName ?? undefined) ?? validateBudget(formState.budget);
     if (validationError) {
       setError(validationError);
       return;
     }
 
     const trimmedName = formState.name.trim();
+    // Budgets only apply to spending; clearing the field removes the budget.
+    const budget = activeKind === 'expense' && formState.budget.trim() !== '' ? parseFloat(formState.budget) : undefined;
 
     if (isAdding) {
-      onCategoriesChange([...categories, { name: trimmedName, color: formState.color, isDefault: false }]);
+      onRecordAction(`Added category ${trimmedName}`);
+      onCategoriesChange([...categories, { name: trimmedName, color: formState.color, isDefault: false, kind: activeKind, budget }]);
     } else if (editingCatName) {
+      onRecordAction(editingCatName === trimmedName ? `Edited category ${trimmedName}` : `Renamed category ${editingCatName} to ${trimmedName}`);
       // Update expenses if name changed
       if (editingCatName.toLowerCase() !== trimmedName.toLowerCase()) {
         onExpensesChange(
           expenses.map(exp => exp.category === editingCatName ? { ...exp, category: trimmedName } : exp)
         );
+        onRulesChange(renameRuleCategory(rules, editingCatName, trimmedName));
+        onRecurringTransactionsChange(renameSeriesCategory(recurringTransactions, editingCatName, trimmedName));
       }
       // Update category list
       onCategoriesChange(
-        categories.map(cat => cat.name === editingCatName ? { ...cat, name: trimmedName, color: formState.color } : cat)
+        categories.map(cat => cat.name === editingCatName ? { ...cat, name: trimmedName, color: formState.color, budget } : cat)
       );
     }
     handleCancel();
   };
   
   const handleDelete = (name: string) => {
-    if (window.confirm(`Are you sure you want to delete the "${name}" category? All associated expenses will be moved to "Other".`)) {
+    const fallbackCategory = getDefaultCategory(activeKind);
+    if (window.confirm(`Are you sure you want to delete the "${name}" category? All associated transactions will be moved to "${fallbackCategory}".`)) {
+        onRecordAction(`Deleted category ${name}`, { destructive: true });
         onExpensesChange(
-            expenses.map(exp => exp.category === name ? { ...exp, category: 'Other' } : exp)
+            expenses.map(exp => exp.category === name ? { ...exp, category: fallbackCategory } : exp)
         );
         onCategoriesChange(categories.filter(cat => cat.name !== name));
+        onRulesChange(renameRuleCategory(rules, name, null));
+        onRecurringTransactionsChange(renameSeriesCategory(recurringTransactions, name, fallbackCategory));
     }
   };
 
+  const renderBudgetInput = () => (
+    <div className="flex items-center space-x-2 mt-2 ml-12">
+      <label htmlFor="category-budget" className="text-sm text-gray-600 flex-shrink-0">Monthly budget</label>
+      <input
+        id="category-budget"
+        type="number"
+        min="0"
+        step="0.01"
+        value={formState.budget}
+        onChange={e => setFormState({...formState, budget: e.target.value})}
+        className="w-full px-2 py-1 border border-gray-300 rounded-md shadow-sm focus:ring-indigo-500 focus:border-indigo-500"
+        placeholder={`${currencySymbol} No limit`}
+      />
+    </div>
+  );
+
   const renderCategoryItem = (category: CategoryDefinition) => {
-    const { name, color, isDefault } = category;
+    const { name, color, isDefault, budget } = category;
     const isEditingThis = editingCatName === name;
     
     if (isEditingThis) {
@@ -113,14 +174,15 @@ const CategoryManager: React.FC<CategoryManagerProps> = ({ expenses, onExpensesC
               value={formState.name} 
               onChange={e => setFormState({...formState, name: e.target.value})} 
               className="flex-grow px-2 py-1 border border-gray-300 rounded-md shadow-sm focus:ring-indigo-500 focus:border-indigo-500 disabled:bg-gray-100" 
-              disabled={name === 'Other'}
+              disabled={PROTECTED_CATEGORIES.includes(name)}
               aria-label="Category name"
             />
             <button onClick={handleSave} className="p-1 text-green-600 hover:text-green-800" aria-label="Save changes"><CheckIcon className="w-6 h-6" /></button>
             <button onClick={handleCancel} className="p-1 text-red-500 hover:text-red-700" aria-label="Cancel editing"><XIcon className="w-6 h-6" /></button>
           </div>
+          {activeKind === 'expense' && renderBudgetInput()}
           {error && <p className="text-red-500 text-sm mt-2 ml-12">{error}</p>}
-          {name === 'Other' && <p className="text-xs text-gray-500 mt-2 ml-12">The 'Other' category cannot be renamed.</p>}
+          {PROTECTED_CATEGORIES.includes(name) && <p className="text-xs text-gray-500 mt-2 ml-12">The '{name}' category cannot be renamed.</p>}
         </li>
       );
     }
@@ -129,11 +191,14 @@ const CategoryManager: React.FC<CategoryManagerProps> = ({ expenses, onExpensesC
       <li key={name} className="flex items-center justify-between p-3">
         <div className="flex items-center">
           <div className="w-5 h-5 rounded-full mr-3 flex-shrink-0" style={{ backgroundColor: color }}></div>
-          <span>{name}</span>
+          <div>
+            <span>{name}</span>
+            {budget && <p className="text-xs text-gray-500">Budget: {currencySymbol}{budget.toFixed(2)} / month</p>}
+          </div>
         </div>
         <div className="space-x-3 flex-shrink-0">
           <button onClick={() => handleEditClick(category)} className="text-gray-400 hover:text-indigo-500" aria-label={`Edit ${name} category`}><PencilIcon className="w-5 h-5" /></button>
-          {!isDefault && name !== 'Other' && (
+          {!isDefault && !PROTECTED_CATEGORIES.includes(name) && (
             <button onClick={() => handleDelete(name)} className="text-gray-400 hover:text-red-500" aria-label={`Delete ${name} category`}><TrashIcon className="w-5 h-5" /></button>
           )}
         </div>
@@ -144,9 +209,22 @@ const CategoryManager: React.FC<CategoryManagerProps> = ({ expenses, onExpensesC
   return (
     <div className="bg-white p-4 rounded-xl shadow-md">
       <h2 className="text-lg font-semibold text-gray-800 mb-3">Manage Categories</h2>
+      <div className="grid grid-cols-2 gap-1 p-1 mb-3 bg-gray-100 rounded-lg" role="tablist" aria-label="Category type">
+        {(['expense', 'income'] as CategoryKind[]).map(kind => (
+          <button
+            key={kind}
+            role="tab"
+            aria-selected={activeKind === kind}
+            onClick={() => handleKindChange(kind)}
+            className={`py-1.5 text-sm font-medium rounded-md transition-colors ${activeKind === kind ? 'bg-white text-indigo-700 shadow-sm' : 'text-gray-600 hover:text-gray-900'}`}
+          >
+            {kind === 'expense' ? 'Expense' : 'Income'}
+          </button>
+        ))}
+      </div>
       <div className="h-64 overflow-y-auto border rounded-md">
         <ul className="divide-y divide-gray-200">
-          {categories
+          {categoriesForKind
             .slice()
             .sort((a,b) => {
               if (a.isDefault && !b.isDefault) return -1;
@@ -163,6 +241,7 @@ const CategoryManager: React.FC<CategoryManagerProps> = ({ expenses, onExpensesC
                     <button onClick={handleSave} className="p-1 text-green-600 hover:text-green-800" aria-label="Save new category"><CheckIcon className="w-6 h-6" /></button>
                     <button onClick={handleCancel} className="p-1 text-red-500 hover:text-red-700" aria-label="Cancel adding category"><XIcon className="w-6 h-6" /></button>
                 </div>
+                {activeKind === 'expense' && renderBudgetInput()}
                 {error && <p className="text-red-500 text-sm mt-2 ml-12">{error}</p>}
              </li>
           )}
@@ -174,7 +253,7 @@ const CategoryManager: React.FC<CategoryManagerProps> = ({ expenses, onExpensesC
             className="w-full flex items-center justify-center mt-3 px-4 py-2 text-sm font-medium text-indigo-700 bg-indigo-100 rounded-md hover:bg-indigo-200 transition-colors"
         >
             <PlusIcon className="w-5 h-5 mr-2" />
-            Add New Category
+            Add New {activeKind === 'expense' ? 'Expense' : 'Income'} Category
         </button>
        )}
     </div>
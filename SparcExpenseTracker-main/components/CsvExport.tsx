@@ -0,0 +1,126 @@
+import React, { useMemo, useState } from 'react';
+import type { Expense } from '../types';
+import { buildTransactionsCsv, filterExpensesForExport, type CsvExportMode } from '../utils/csv';
+import { downloadTextFile } from '../utils/fileUtils';
+import { DownloadIcon } from './Icons';
+
+interface CsvExportProps {
+  expenses: Expense[];
+  categoryNames: string[];
+  baseCurrencyCode: string;
+}
+
+const MODE_OPTIONS: { value: CsvExportMode; label: string; description: string }[] = [
+  { value: 'split', label: 'One row per split', description: 'Each category of a split transaction gets its own row.' },
+  { value: 'transaction', label: 'One row per transaction', description: 'Splits are joined into a single category column.' },
+];
+
+const CsvExport: React.FC<CsvExportProps> = ({ expenses, categoryNames, baseCurrencyCode }) => {
+  const [startDate, setStartDate] = useState('');
+  const [endDate, setEndDate] = useState('');
+  const [selectedCategories, setSelectedCategories] = useState<string[]>([]);
+  const [mode, setMode] = useState<CsvExportMode>('split');
+
+  const filteredExpenses = useMemo(
+    () => filterExpensesForExport(expenses, { startDate, endDate, categories: selectedCategories }),
+    [expenses, startDate, endDate, selectedCategories]
+  );
+  const transactionCount = useMemo(() => new Set(filteredExpenses.map(exp => exp.transactionId)).size, [filteredExpenses]);
+  const isRangeInvalid = !!startDate && !!endDate && startDate > endDate;
+
+  const toggleCategory = (name: string) => {
+    setSelectedCategories(prev => prev.includes(name) ? prev.filter(c => c !== name) : [...prev, name]);
+  };
+
+  const handleExport = () => {
+    try {
+      // Oldest first reads more naturally in a spreadsheet.
+      const rows = [...filteredExpenses].sort((a, b) => a.date.localeCompare(b.date) || a.transactionId.localeCompare(b.transactionId));
+      // The byte order mark makes Excel open the file as UTF-8, keeping currency symbols intact.
+      const csv = '\uFEFF' + buildTransactionsCsv(rows, mode, baseCurrencyCode);
+      const range = startDate || endDate ? `${startDate || 'start'}-to-${endDate || 'today'}` : new Date().toISOString().slice(0, 10);
+      downloadTextFile(csv, `sparc-transactions-${range}.csv`, 'text/csv;charset=utf-8');
+    } catch (error) {
+      console.error("Failed to export CSV:", error);
+      alert("An error occurred while creating the CSV file.");
+    }
+  };
+
+  return (
+    <div className="bg-white p-4 rounded-xl shadow-md space-y-5">
+      <div>
+        <h3 className="text-sm font-medium text-gray-700 mb-2">Date range</h3>
+        <div className="grid grid-cols-2 gap-3">
+          <div>
+            <label htmlFor="export-start" className="block text-xs text-gray-500">From</label>
+            <input id="export-start" type="date" value={startDate} onChange={e => setStartDate(e.target.value)} className="mt-1 block w-full input-field date-input-with-icon" />
+          </div>
+          <div>
+            <label htmlFor="export-end" className="block text-xs text-gray-500">To</label>
+            <input id="export-end" type="date" value={endDate} onChange={e => setEndDate(e.target.value)} className="mt-1 block w-full input-field date-input-with-icon" />
+          </div>
+        </div>
+        {isRangeInvalid && <p className="text-red-500 text-sm mt-1">The start date must be before the end date.</p>}
+      </div>
+
+      <div>
+        <div className="flex justify-between items-center mb-2">
+          <h3 className="text-sm font-medium text-gray-700">Categories</h3>
+          {selectedCategories.length > 0 && (
+            <button type="button" onClick={() => setSelectedCategories([])} className="text-xs font-medium text-indigo-600 hover:text-indigo-800">
+              All categories
+            </button>
+          )}
+        </div>
+        <div className="flex flex-wrap gap-2">
+          {categoryNames.map(name => {
+            const isSelected = selectedCategories.includes(name);
+            return (
+              <button
+                key={name}
+                type="button"
+                onClick={() => toggleCategory(name)}
+                aria-pressed={isSelected}
+                className={`px-3 py-1 text-sm rounded-full border transition-colors ${isSelected ? 'bg-indigo-600 border-indigo-600 text-white' : 'bg-white border-gray-300 text-gray-700 hover:bg-gray-50'}`}
+              >
+                {name}
+              </button>
+            );
+          })}
+        </div>
+        {selectedCategories.length === 0 && <p className="text-xs text-gray-500 mt-2">No category selected: every category is exported.</p>}
+      </div>
+
+      <fieldset>
+        <legend className="text-sm font-medium text-gray-700 mb-2">Layout</legend>
+        <div className="space-y-2">
+          {MODE_OPTIONS.map(option => (
+            <label key={option.value} className="flex items-start space-x-2 cursor-pointer">
+              <input type="radio" name="export-mode" value={option.value} checked={mode === option.value} onChange={() => setMode(option.value)} className="mt-1 h-4 w-4 text-indigo-600 border-gray-300 focus:ring-indigo-500" />
+              <span>
+                <span className="block text-sm text-gray-800">{option.label}</span>
+                <span className="block text-xs text-gray-500">{option.description}</span>
+              </span>
+            </label>
+          ))}
+        </div>
+      </fieldset>
+
+      <div className="border-t pt-4">
+        <p className="text-sm text-gray-500 mb-3">
+          {transactionCount} {transactionCount === 1 ? 'transaction' : 'transactions'} match. Amounts are exported in {baseCurrencyCode}.
+        </p>
+        <button
+          onClick={handleExport}
+          disabled={transactionCount === 0 || isRangeInvalid}
+          className="w-full flex items-center justify-center px-4 py-2 text-sm font-medium text-white bg-indigo-600 rounded-md hover:bg-indigo-700 disabled:bg-indigo-300 disabled:cursor-not-allowed transition-colors"
+        >
+          <DownloadIcon className="w-5 h-5 mr-2" />
+          Download CSV
+        </button>
+      </div>
+    </div>
+  );
+};
+
+export default CsvExport;
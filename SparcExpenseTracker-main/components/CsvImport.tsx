@@ -0,0 +1,395 @@
+import React, { useMemo, useRef, useState } from 'react';
+import type { CategoryDefinition, CategoryKind, CategoryRule, Expense, Merchant, TransactionInput } from '../types';
+import { detectDelimiter, parseCsv } from '../utils/csv';
+import {
+  buildCsvImportRows,
+  detectHeaderRow,
+  guessColumnMapping,
+  guessDateFormat,
+  CSV_FIELD_LABELS,
+  REQUIRED_CSV_FIELDS,
+  type CsvAmountSign,
+  type CsvColumnMapping,
+  type CsvDateFormat,
+  type CsvField,
+} from '../utils/csvImport';
+import { getCategoryKind, getDefaultCategory } from '../utils/transactionUtils';
+import { applyRulesToTransaction } from '../utils/rules';
+import { canonicalizeTransaction } from '../utils/merchants';
+import { findBatchDuplicates } from '../utils/duplicates';
+import { TRANSFER_CATEGORY } from '../constants';
+import { UploadIcon, CheckIcon } from './Icons';
+
+interface CsvImportProps {
+  categories: CategoryDefinition[];
+  currencySymbol: string;
+  rules: CategoryRule[];
+  merchants: Merchant[];
+  expenses: Expense[]; // Checked for transactions the file repeats
+  onImport: (transactions: TransactionInput[], newCategories: CategoryDefinition[]) => void;
+}
+
+const DELIMITER_OPTIONS = [
+  { value: ',', label: 'Comma (,)' },
+  { value: ';', label: 'Semicolon (;)' },
+  { value: '\t', label: 'Tab' },
+  { value: '|', label: 'Pipe (|)' },
+];
+
+const DATE_FORMAT_OPTIONS: CsvDateFormat[] = ['DD/MM/YYYY', 'MM/DD/YYYY', 'YYYY-MM-DD'];
+
+const FIELD_ORDER: CsvField[] = ['date', 'vendor', 'amount', 'category', 'notes', 'type'];
+
+// Marks an unknown category that should be created rather than mapped onto an existing one.
+const CREATE_CATEGORY = '__create__';
+const PREVIEW_ROW_LIMIT = 20;
+
+interface UnknownCategory {
+  name: string;
+  kind: CategoryKind;
+  count: number;
+  // Category names are unique across kinds, so a name already used by the other kind can't be created.
+  canCreate: boolean;
+}
+
+const categoryKey = (name: string, kind: CategoryKind) => `${kind}:${name.toLowerCase()}`;
+
+const CsvImport: React.FC<CsvImportProps> = ({ categories, currencySymbol, rules, merchants, expenses, onImport }) => {
+  const [step, setStep] = useState<'upload' | 'mapping' | 'preview'>('upload');
+  const [fileName, setFileName] = useState('');
+  const [fileText, setFileText] = useState('');
+  const [delimiter, setDelimiter] = useState(',');
+  const [hasHeader, setHasHeader] = useState(true);
+  const [mapping, setMapping] = useState<CsvColumnMapping>({});
+  const [dateFormat, setDateFormat] = useState<CsvDateFormat>('DD/MM/YYYY');
+  const [amountSign, setAmountSign] = useState<CsvAmountSign>('all-expenses');
+  const [defaultCategory, setDefaultCategory] = useState(getDefaultCategory('expense'));
+  const [categoryChoices, setCategoryChoices] = useState<Record<string, string>>({});
+  const [skipDuplicates, setSkipDuplicates] = useState(true);
+  const [error, setError] = useState<string | null>(null);
+  const fileInputRef = useRef<HTMLInputElement>(null);
+
+  const rows = useMemo(() => fileText ? parseCsv(fileText, delimiter) : [], [fileText, delimiter]);
+  const columnCount = useMemo(() => rows.reduce((max, r) => Math.max(max, r.length), 0), [rows]);
+  const columnNames = useMemo(
+    () => Array.from({ length: columnCount }, (_, i) => (hasHeader && rows[0]?.[i]?.trim()) || `Column ${i + 1}`),
+    [rows, columnCount, hasHeader]
+  );
+  const dataRows = useMemo(() => hasHeader ? rows.slice(1) : rows, [rows, hasHeader]);
+
+  const importRows = useMemo(
+    () => buildCsvImportRows(dataRows, hasHeader ? 2 : 1, { mapping, dateFormat, amountSign }),
+    [dataRows, hasHeader, mapping, dateFormat, amountSign]
+  );
+  const failedRows = importRows.filter(r => !r.transaction);
+
+  // Category names from the file that don't match an existing category of the same kind.
+  const unknownCategories = useMemo(() => {
+    const known = new Map(categories.map(c => [categoryKey(c.name, getCategoryKind(c)), c.name]));
+    const takenNames = new Set(categories.map(c => c.name.toLowerCase()));
+    const unknown = new Map<string, UnknownCategory>();
+    importRows.forEach(({ transaction, rawCategory }) => {
+      if (!transaction || !rawCategory || transaction.kind === 'transfer') return;
+      const key = categoryKey(rawCategory, transaction.kind);
+      if (known.has(key)) return;
+      const entry = unknown.get(key);
+      if (entry) entry.count++;
+      else unknown.set(key, { name: rawCategory, kind: transaction.kind, count: 1, canCreate: !takenNames.has(rawCategory.toLowerCase()) });
+    });
+    return Array.from(unknown.entries());
+  }, [importRows, categories]);
+
+  const getCategoryChoice = (key: string, entry: UnknownCategory) =>
+    categoryChoices[key] ?? (entry.canCreate ? CREATE_CATEGORY : getDefaultCategory(entry.kind));
+
+  const resolvedTransactions = useMemo(() => {
+    const unknown = new Map(unknownCategories);
+    const known = new Map(categories.map(c => [categoryKey(c.name, getCategoryKind(c)), c.name]));
+    return importRows.flatMap(({ transaction, rawCategory }) => {
+      if (!transaction) return [];
+      let category: string;
+      if (transaction.kind === 'transfer') {
+        category = TRANSFER_CATEGORY;
+      } else if (!rawCategory) {
+        category = transaction.kind === 'income' ? getDefaultCategory('income') : defaultCategory;
+      } else {
+        const key = categoryKey(rawCategory, transaction.kind);
+        const entry = unknown.get(key);
+        const choice = entry ? getCategoryChoice(key, entry) : CREATE_CATEGORY;
+        // New categories take the spelling of their first occurrence in the file.
+        category = known.get(key) ?? (choice === CREATE_CATEGORY ? entry?.name ?? rawCategory : choice);
+      }
+      const resolved = { ...transaction, splits: transaction.splits.map(s => ({ ...s, category })) };
+      return [applyRulesToTransaction(canonicalizeTransaction(resolved, merchants), rules)];
+    });
+  }, [importRows, categories, categoryChoices, defaultCategory, unknownCategories, rules, merchants]);
+
+  // Re-importing an export, or a file that overlaps earlier imports, would add everything twice.
+  const duplicates = useMemo(() => findBatchDuplicates(resolvedTransactions, expenses), [resolvedTransactions, expenses]);
+  const duplicateCount = duplicates.filter(Boolean).length;
+  const transactionsToImport = useMemo(
+    () => skipDuplicates ? resolvedTransactions.filter((_, i) => !duplicates[i]) : resolvedTransactions,
+    [resolvedTransactions, duplicates, skipDuplicates]
+  );
+
+  const missingFields = REQUIRED_CSV_FIELDS.filter(field => mapping[field] === undefined);
+
+  const applyStructure = (text: string, newDelimiter: string, newHasHeader: boolean) => {
+    const parsed = parseCsv(text, newDelimiter);
+    const guessedMapping = newHasHeader && parsed.length > 0 ? guessColumnMapping(parsed[0]) : {};
+    const dateValues = (newHasHeader ? parsed.slice(1) : parsed).map(r => guessedMapping.date !== undefined ? r[guessedMapping.date] ?? '' : '');
+    setDelimiter(newDelimiter);
+    setHasHeader(newHasHeader);
+    setMapping(guessedMapping);
+    setDateFormat(guessDateFormat(dateValues));
+  };
+
+  const handleFileSelect = (event: React.ChangeEvent<HTMLInputElement>) => {
+    const file = event.target.files?.[0];
+    if (!file) return;
+    const reader = new FileReader();
+    reader.onload = (e) => {
+      const text = e.target?.result;
+      if (typeof text !== 'string' || !text.trim()) {
+        setError("The file is empty or isn't readable text.");
+        return;
+      }
+      const detectedDelimiter = detectDelimiter(text);
+      setError(null);
+      setFileName(file.name);
+      setFileText(text);
+      setCategoryChoices({});
+      applyStructure(text, detectedDelimiter, detectHeaderRow(parseCsv(text, detectedDelimiter)));
+      setStep('mapping');
+    };
+    reader.onerror = () => setError("Failed to read the file.");
+    reader.readAsText(file);
+    event.target.value = '';
+  };
+
+  const handleMappingChange = (field: CsvField, value: string) => {
+    const next = { ...mapping };
+    if (value === '') {
+      delete next[field];
+    } else {
+      next[field] = parseInt(value, 10);
+      if (field === 'date') {
+        setDateFormat(guessDateFormat(dataRows.map(r => r[next.date!] ?? '')));
+      }
+    }
+    setMapping(next);
+  };
+
+  const handleImport = () => {
+    if (transactionsToImport.length === 0) return;
+    const newCategories: CategoryDefinition[] = unknownCategories
+      .filter(([key, entry]) => getCategoryChoice(key, entry) === CREATE_CATEGORY)
+      .map(([, { name, kind }]) => ({
+        name,
+        // Same random pleasant color as categories added by hand in the category manager.
+        color: '#' + ('000000' + Math.floor(Math.random()*16777215).toString(16)).slice(-6),
+        isDefault: false,
+        kind,
+      }));
+    onImport(transactionsToImport, newCategories);
+  };
+
+  const reset = () => {
+    setStep('upload');
+    setFileName('');
+    setFileText('');
+    setError(null);
+  };
+
+  if (step === 'upload') {
+    return (
+      <div className="bg-white p-4 rounded-xl shadow-md space-y-4">
+        <p className="text-sm text-gray-500">
+          Import transactions from a spreadsheet or another app. They are added to your existing data; nothing is overwritten.
+        </p>
+        <button
+          onClick={() => fileInputRef.current?.click()}
+          className="w-full flex items-center justify-center px-4 py-2 text-sm font-medium text-white bg-indigo-600 rounded-md hover:bg-indigo-700 transition-colors"
+        >
+          <UploadIcon className="w-5 h-5 mr-2" />
+          Choose CSV File
+        </button>
+        <input type="file" ref={fileInputRef} onChange={handleFileSelect} accept=".csv,text/csv,text/plain" className="hidden" aria-hidden="true" />
+        {error && <p className="text-red-500 text-sm">{error}</p>}
+      </div>
+    );
+  }
+
+  if (step === 'mapping') {
+    return (
+      <div className="bg-white p-4 rounded-xl shadow-md space-y-5 animate-fade-in">
+        <p className="text-sm text-gray-500">
+          <span className="font-medium text-gray-800">{fileName}</span>: {dataRows.length} data {dataRows.length === 1 ? 'row' : 'rows'}, {columnCount} columns.
+        </p>
+
+        <div className="grid grid-cols-2 gap-3">
+          <div>
+            <label htmlFor="csv-delimiter" className="block text-sm font-medium text-gray-700">Delimiter</label>
+            <select id="csv-delimiter" value={delimiter} onChange={e => applyStructure(fileText, e.target.value, hasHeader)} className="mt-1 block w-full input-field">
+              {DELIMITER_OPTIONS.map(o => <option key={o.label} value={o.value}>{o.label}</option>)}
+            </select>
+          </div>
+          <div>
+            <label htmlFor="csv-date-format" className="block text-sm font-medium text-gray-700">Date format</label>
+            <select id="csv-date-format" value={dateFormat} onChange={e => setDateFormat(e.target.value as CsvDateFormat)} className="mt-1 block w-full input-field">
+              {DATE_FORMAT_OPTIONS.map(f => <option key={f}>{f}</option>)}
+            </select>
+          </div>
+        </div>
+        <label className="flex items-center space-x-2 text-sm text-gray-700">
+          <input type="checkbox" checked={hasHeader} onChange={e => applyStructure(fileText, delimiter, e.target.checked)} className="h-4 w-4 text-indigo-600 border-gray-300 rounded focus:ring-indigo-500" />
+          <span>First row is a header</span>
+        </label>
+
+        <div>
+          <h3 className="text-sm font-medium text-gray-700 mb-2">Columns</h3>
+          <div className="space-y-2">
+            {FIELD_ORDER.map(field => {
+              const sample = mapping[field] !== undefined ? dataRows[0]?.[mapping[field]!] : undefined;
+              return (
+                <div key={field} className="grid grid-cols-3 gap-2 items-center">
+                  <label htmlFor={`csv-map-${field}`} className="text-sm text-gray-700">
+                    {CSV_FIELD_LABELS[field]}{REQUIRED_CSV_FIELDS.includes(field) && <span className="text-red-500"> *</span>}
+                  </label>
+                  <select id={`csv-map-${field}`} value={mapping[field] ?? ''} onChange={e => handleMappingChange(field, e.target.value)} className="col-span-2 input-field">
+                    <option value="">— Not in file —</option>
+                    {columnNames.map((name, i) => <option key={i} value={i}>{name}</option>)}
+                  </select>
+                  {sample !== undefined && <p className="col-start-2 col-span-2 text-xs text-gray-400 truncate -mt-1">e.g. {sample || '(empty)'}</p>}
+                </div>
+              );
+            })}
+          </div>
+        </div>
+
+        <fieldset>
+          <legend className="text-sm font-medium text-gray-700 mb-2">Amounts</legend>
+          <div className="space-y-1 text-sm text-gray-700">
+            <label className="flex items-center space-x-2">
+              <input type="radio" name="csv-amount-sign" checked={amountSign === 'all-expenses'} onChange={() => setAmountSign('all-expenses')} className="h-4 w-4 text-indigo-600 border-gray-300 focus:ring-indigo-500" />
+              <span>Every row is an expense</span>
+            </label>
+            <label className="flex items-center space-x-2">
+              <input type="radio" name="csv-amount-sign" checked={amountSign === 'signed'} onChange={() => setAmountSign('signed')} className="h-4 w-4 text-indigo-600 border-gray-300 focus:ring-indigo-500" />
+              <span>Negative amounts are expenses, positive are income</span>
+            </label>
+          </div>
+          {mapping.type !== undefined && <p className="text-xs text-gray-500 mt-1">Rows with a recognised value in the Type column use it instead.</p>}
+        </fieldset>
+
+        <div>
+          <label htmlFor="csv-default-category" className="block text-sm font-medium text-gray-700">Default expense category</label>
+          <select id="csv-default-category" value={defaultCategory} onChange={e => setDefaultCategory(e.target.value)} className="mt-1 block w-full input-field">
+            {categories.filter(c => getCategoryKind(c) === 'expense').map(c => <option key={c.name}>{c.name}</option>)}
+          </select>
+          <p className="text-xs text-gray-500 mt-1">Used for expense rows without a category.</p>
+        </div>
+
+        {missingFields.length > 0 && (
+          <p className="text-sm text-red-500">Choose a column for: {missingFields.map(f => CSV_FIELD_LABELS[f]).join(', ')}.</p>
+        )}
+        <div className="flex items-center justify-end space-x-3">
+          <button onClick={reset} className="px-4 py-2 text-sm font-medium text-gray-700 bg-gray-100 rounded-md hover:bg-gray-200 transition-colors">Cancel</button>
+          <button
+            onClick={() => setStep('preview')}
+            disabled={missingFields.length > 0}
+            className="px-4 py-2 text-sm font-medium text-white bg-indigo-600 rounded-md hover:bg-indigo-700 disabled:bg-indigo-300 disabled:cursor-not-allowed transition-colors"
+          >
+            Preview
+          </button>
+        </div>
+      </div>
+    );
+  }
+
+  const existingByKind = (kind: CategoryKind) => categories.filter(c => getCategoryKind(c) === kind).map(c => c.name);
+
+  return (
+    <div className="bg-white p-4 rounded-xl shadow-md space-y-5 animate-fade-in">
+      <p className="text-sm text-gray-700">
+        <span className="font-semibold">{resolvedTransactions.length}</span> {resolvedTransactions.length === 1 ? 'transaction' : 'transactions'} ready to import
+        {failedRows.length > 0 && <>, <span className="font-semibold text-red-600">{failedRows.length}</span> {failedRows.length === 1 ? 'row' : 'rows'} will be skipped</>}.
+      </p>
+
+      {failedRows.length > 0 && (
+        <ul className="text-xs text-red-600 space-y-0.5 bg-red-50 p-2 rounded-md">
+          {failedRows.slice(0, 5).map(r => <li key={r.rowNumber}>Row {r.rowNumber}: {r.error}</li>)}
+          {failedRows.length > 5 && <li>…and {failedRows.length - 5} more</li>}
+        </ul>
+      )}
+
+      {duplicateCount > 0 && (
+        <label className="flex items-center space-x-2 text-sm text-yellow-800 bg-yellow-50 p-2 rounded-md">
+          <input type="checkbox" checked={skipDuplicates} onChange={e => setSkipDuplicates(e.target.checked)} className="h-4 w-4 text-indigo-600 border-gray-300 rounded focus:ring-indigo-500" />
+          <span>Skip {duplicateCount} {duplicateCount === 1 ? 'row that looks' : 'rows that look'} like {duplicateCount === 1 ? 'a transaction' : 'transactions'} you already have</span>
+        </label>
+      )}
+
+      {unknownCategories.length > 0 && (
+        <div>
+          <h3 className="text-sm font-medium text-gray-700 mb-2">New categories</h3>
+          <div className="space-y-2">
+            {unknownCategories.map(([key, entry]) => (
+              <div key={key} className="grid grid-cols-2 gap-2 items-center">
+                <label htmlFor={`csv-category-${key}`} className="text-sm text-gray-700 truncate">
+                  {entry.name} <span className="text-gray-400">({entry.count})</span>
+                </label>
+                <select id={`csv-category-${key}`} value={getCategoryChoice(key, entry)} onChange={e => setCategoryChoices(prev => ({ ...prev, [key]: e.target.value }))} className="input-field">
+                  {entry.canCreate && <option value={CREATE_CATEGORY}>Create "{entry.name}"</option>}
+                  {existingByKind(entry.kind).map(c => <option key={c} value={c}>Use {c}</option>)}
+                </select>
+              </div>
+            ))}
+          </div>
+        </div>
+      )}
+
+      <div className="overflow-x-auto border rounded-md">
+        <table className="min-w-full text-sm">
+          <thead className="bg-gray-50 text-gray-600">
+            <tr>
+              <th className="px-2 py-1 text-left font-medium">Date</th>
+              <th className="px-2 py-1 text-left font-medium">Vendor</th>
+              <th className="px-2 py-1 text-left font-medium">Category</th>
+              <th className="px-2 py-1 text-right font-medium">Amount</th>
+            </tr>
+          </thead>
+          <tbody className="divide-y divide-gray-100">
+            {resolvedTransactions.slice(0, PREVIEW_ROW_LIMIT).map((t, i) => (
+              <tr key={i} className={duplicates[i] ? 'bg-yellow-50' : undefined} title={duplicates[i] ? `Possible duplicate of ${duplicates[i]!.vendor} on ${duplicates[i]!.date}` : undefined}>
+                <td className="px-2 py-1 whitespace-nowrap text-gray-600">{t.date}</td>
+                <td className="px-2 py-1 text-gray-800 truncate max-w-[8rem]">{t.vendor}</td>
+                <td className="px-2 py-1 text-gray-600">{t.splits[0].category}</td>
+                <td className={`px-2 py-1 text-right whitespace-nowrap ${t.kind === 'income' ? 'text-green-600' : 'text-gray-800'}`}>
+                  {t.kind === 'income' ? '+' : ''}{currencySymbol}{t.splits[0].amount.toFixed(2)}
+                </td>
+              </tr>
+            ))}
+          </tbody>
+        </table>
+      </div>
+      {resolvedTransactions.length > PREVIEW_ROW_LIMIT && (
+        <p className="text-xs text-gray-500">Showing the first {PREVIEW_ROW_LIMIT} of {resolvedTransactions.length}.</p>
+      )}
+
+      <div className="flex items-center justify-end space-x-3">
+        <button onClick={() => setStep('mapping')} className="px-4 py-2 text-sm font-medium text-gray-700 bg-gray-100 rounded-md hover:bg-gray-200 transition-colors">Back</button>
+        <button
+          onClick={handleImport}
+          disabled={transactionsToImport.length === 0}
+          className="px-4 py-2 text-sm font-medium text-white bg-indigo-600 rounded-md hover:bg-indigo-700 flex items-center disabled:bg-indigo-300 disabled:cursor-not-allowed transition-colors"
+        >
+          <CheckIcon className="w-5 h-5 mr-1" />
+          Import {transactionsToImport.length}
+        </button>
+      </div>
+    </div>
+  );
+};
+
+export default CsvImport;
@@ -1,21 +1,37 @@
 import React, { useMemo, useState, useEffect } from 'react';
-import type { Expense } from '../types';
+import type { Account, Expense } from '../types';
 import StatCard from './StatCard';
 import CategoryChart from './CategoryChart';
 import MonthlyComparisonChart from './MonthlyComparisonChart';
-import { ChartPieIcon, CalendarIcon, TrendingUpIcon, CogIcon, SparklesIcon, DocumentTextIcon, ChevronLeftIcon, ChevronRightIcon } from './Icons';
+import { ChartPieIcon, CalendarIcon, TrendingUpIcon, CogIcon, SparklesIcon, DocumentTextIcon, ChevronLeftIcon, ChevronRightIcon, BanknotesIcon, TagIcon } from './Icons';
 import { Page } from '../constants';
 import { generateMonthlyReport } from '../services/geminiService';
 import { jsPDF } from 'jspdf';
+import { getTransactionKind } from '../utils/transactionUtils';
+import { getBudgetStatus, getCategorySpendForMonth, BudgetStatus } from '../utils/budgetUtils';
+import { formatOriginalAmount } from '../utils/currencyUtils';
+import { getTagSpend } from '../utils/tagUtils';
+import type { DashboardView } from '../utils/routes';
 
 interface DashboardProps {
+  view: DashboardView;
+  onViewChange: (view: DashboardView) => void;
   expenses: Expense[];
   currencySymbol: string;
   onNavigate: (page: Page) => void;
   allCategoryColors: Record<string, string>;
   allCategoryNames: string[];
+  categoryBudgets: Record<string, number>;
+  baseCurrencyCode: string;
+  accounts: Account[];
 }
 
+const BUDGET_BAR_CLASSES: Record<BudgetStatus, string> = {
+  ok: 'bg-green-500',
+  warning: 'bg-amber-400',
+  over: 'bg-red-500',
+};
+
 // Tile component for navigation within the dashboard
 const ReportTile: React.FC<{
   title: string;
@@ -39,16 +55,51 @@ const ReportTile: React.FC<{
 );
 
 
-const Dashboard: React.FC<DashboardProps> = ({ expenses, currencySymbol, onNavigate, allCategoryColors, allCategoryNames }) => {
-  const [view, setView] = useState<'main' | 'category' | 'monthly'>('main');
+const Dashboard: React.FC<DashboardProps> = ({ view, onViewChange, expenses: allExpenses, currencySymbol, onNavigate, allCategoryColors, allCategoryNames, categoryBudgets, baseCurrencyCode, accounts }) => {
+  const [tagPeriod, setTagPeriod] = useState<'month' | 'all'>('month');
   const [isClient, setIsClient] = useState(false);
   const [isGeneratingReport, setIsGeneratingReport] = useState(false);
   const [selectedReportMonth, setSelectedReportMonth] = useState<string>('');
+  const [selectedAccountId, setSelectedAccountId] = useState('');
 
   useEffect(() => {
     setIsClient(true);
   }, []);
 
+  // Everything below reflects only the selected account; a deleted account falls back to all.
+  const expenses = useMemo(() => {
+    if (!selectedAccountId || !accounts.some(a => a.id === selectedAccountId)) return allExpenses;
+    return allExpenses.filter(e => e.accountId === selectedAccountId || e.toAccountId === selectedAccountId);
+  }, [allExpenses, accounts, selectedAccountId]);
+
+  // Spend figures, charts and reports only consider money going out.
+  const spendingExpenses = useMemo(() => expenses.filter(e => getTransactionKind(e) === 'expense'), [expenses]);
+
+  const { thisMonthIncome, thisMonthNet } = useMemo(() => {
+    const now = new Date();
+    const startOfThisMonthUTC = Date.UTC(now.getUTCFullYear(), now.getUTCMonth(), 1);
+    const startOfNextMonthUTC = Date.UTC(now.getUTCFullYear(), now.getUTCMonth() + 1, 1);
+
+    let income = 0;
+    let spend = 0;
+    for (const expense of expenses) {
+      const expenseTimeUTC = Date.parse(expense.date);
+      if (isNaN(expenseTimeUTC) || expenseTimeUTC < startOfThisMonthUTC || expenseTimeUTC >= startOfNextMonthUTC) continue;
+
+      // Transfers move money between your own accounts and don't affect cash flow.
+      const kind = getTransactionKind(expense);
+      if (kind === 'income') income += expense.amount;
+      else if (kind === 'expense') spend += expense.amount;
+    }
+    return { thisMonthIncome: income, thisMonthNet: income - spend };
+  }, [expenses]);
+
+  const tagSpend = useMemo(() => {
+    const thisMonth = new Date().toISOString().slice(0, 7);
+    return getTagSpend(tagPeriod === 'month' ? spendingExpenses.filter(e => e.date.startsWith(thisMonth)) : spendingExpenses);
+  }, [spendingExpenses, tagPeriod]);
+  const hasTags = useMemo(() => expenses.some(e => e.tags && e.tags.length > 0), [expenses]);
+
   const { todaySpend, thisMonthSpend, lastMonthSpend, categoryData, monthlyComparisonData } = useMemo(() => {
     const now = new Date();
     const year = now.getUTCFullYear();
@@ -73,7 +124,7 @@ const Dashboard: React.FC<DashboardProps> = ({ expenses, currencySymbol, onNavig
     let twoMonthsAgoSpend = 0;
     const categoryTotals: { [key: string]: number } = {};
 
-    for (const expense of expenses) {
+    for (const expense of spendingExpenses) {
       // Date strings in 'YYYY-MM-DD' format are parsed as UTC midnight.
       const expenseTimeUTC = Date.parse(expense.date);
       if (isNaN(expenseTimeUTC)) continue; // Skip any invalid date formats
@@ -104,11 +155,34 @@ const Dashboard: React.FC<DashboardProps> = ({ expenses, currencySymbol, onNavig
     ].filter(d => d.spend > 0);
 
     return { todaySpend, thisMonthSpend, lastMonthSpend, categoryData, monthlyComparisonData };
-  }, [expenses]);
+  }, [spendingExpenses]);
   
+  const budgetProgress = useMemo(() => {
+    const currentMonth = new Date().toISOString().slice(0, 7);
+    const spendByCategory = getCategorySpendForMonth(spendingExpenses, currentMonth);
+
+    return Object.entries(categoryBudgets)
+      .map(([name, budget]) => {
+        const spent = spendByCategory[name] || 0;
+        return { name, budget, spent, remaining: budget - spent, status: getBudgetStatus(spent, budget) };
+      })
+      .sort((a, b) => (b.spent / b.budget) - (a.spent / a.budget));
+  }, [spendingExpenses, categoryBudgets]);
+
+  const budgetSummary = useMemo(() => {
+    if (budgetProgress.length === 0) return 'Set monthly limits in Settings.';
+    const overCount = budgetProgress.filter(b => b.status === 'over').length;
+    const warningCount = budgetProgress.filter(b => b.status === 'warning').length;
+    if (overCount === 0 && warningCount === 0) return 'All categories are within budget.';
+    const parts = [];
+    if (overCount > 0) parts.push(`${overCount} over budget`);
+    if (warningCount > 0) parts.push(`${warningCount} near the limit`);
+    return parts.join(', ') + '.';
+  }, [budgetProgress]);
+
   const availableReportMonths = useMemo(() => {
     const monthSet = new Set<string>();
-    expenses.forEach(expense => {
+    spendingExpenses.forEach(expense => {
       monthSet.add(expense.date.substring(0, 7)); // YYYY-MM
     });
 
@@ -132,7 +206,7 @@ const Dashboard: React.FC<DashboardProps> = ({ expenses, currencySymbol, onNavig
           label: `${monthName} ${year}`
         };
       });
-  }, [expenses]);
+  }, [spendingExpenses]);
   
   useEffect(() => {
     if (availableReportMonths.length > 0 && !selectedReportMonth) {
@@ -142,8 +216,8 @@ const Dashboard: React.FC<DashboardProps> = ({ expenses, currencySymbol, onNavig
   
   const expensesForSelectedMonth = useMemo(() => {
     if (!selectedReportMonth) return [];
-    return expenses.filter(expense => expense.date.startsWith(selectedReportMonth));
-  }, [expenses, selectedReportMonth]);
+    return spendingExpenses.filter(expense => expense.date.startsWith(selectedReportMonth));
+  }, [spendingExpenses, selectedReportMonth]);
 
 
   const monthlyChange = useMemo(() => {
@@ -222,6 +296,35 @@ const Dashboard: React.FC<DashboardProps> = ({ expenses, currencySymbol, onNavig
 
       y += sectionSpacing;
 
+      // Totals above are in the base currency; list what foreign-currency charges originally cost.
+      const foreignCurrencyLines = expensesForSelectedMonth
+          .map(expense => {
+              const originalAmount = formatOriginalAmount(expense, baseCurrencyCode);
+              return originalAmount ? `${expense.date} ${expense.vendor}: ${originalAmount} = ${currencySymbol}${expense.amount.toFixed(2)}` : null;
+          })
+          .filter((line): line is string => line !== null);
+
+      if (foreignCurrencyLines.length > 0) {
+          if (y > pageHeight - (margin + 20)) {
+              doc.addPage();
+              y = margin;
+          }
+          doc.setFontSize(14);
+          doc.text('Foreign Currency Transactions', margin, y);
+          y += lineHeight * 1.5;
+
+          doc.setFontSize(12);
+          for (const line of foreignCurrencyLines) {
+              if (y > pageHeight - margin) {
+                  doc.addPage();
+                  y = margin;
+              }
+              doc.text(line, margin, y);
+              y += lineHeight;
+          }
+          y += sectionSpacing;
+      }
+
       if (y > pageHeight - (margin + 20)) { 
           doc.addPage();
           y = margin;
@@ -265,7 +368,7 @@ const Dashboard: React.FC<DashboardProps> = ({ expenses, currencySymbol, onNavig
     }
   };
 
-  const handleBack = () => setView('main');
+  const handleBack = () => onViewChange('main');
 
   if (view === 'category') {
     return (
@@ -293,6 +396,101 @@ const Dashboard: React.FC<DashboardProps> = ({ expenses, currencySymbol, onNavig
     );
   }
 
+  if (view === 'budgets') {
+    return (
+      <div className="space-y-4 animate-fade-in">
+        <header className="flex items-center">
+          <button
+            onClick={handleBack}
+            className="p-2 -ml-2 text-gray-500 hover:text-indigo-600 hover:bg-indigo-50 rounded-full transition-colors"
+            aria-label="Back to dashboard"
+          >
+            <ChevronLeftIcon className="w-7 h-7" />
+          </button>
+          <h1 className="text-xl font-bold text-gray-900 ml-2">Budgets This Month</h1>
+        </header>
+        <div className="bg-white p-4 rounded-xl shadow-md">
+          {budgetProgress.length > 0 ? (
+            <ul className="space-y-4">
+              {budgetProgress.map(({ name, budget, spent, remaining, status }) => (
+                <li key={name}>
+                  <div className="flex justify-between items-baseline">
+                    <div className="flex items-center">
+                      <div className="w-3 h-3 rounded-full mr-2" style={{ backgroundColor: allCategoryColors[name] || allCategoryColors['Other'] }}></div>
+                      <span className="font-medium text-gray-800">{name}</span>
+                    </div>
+                    <span className="text-sm text-gray-600">{currencySymbol}{spent.toFixed(2)} of {currencySymbol}{budget.toFixed(2)}</span>
+                  </div>
+                  <div className="mt-2 h-2 w-full bg-gray-100 rounded-full overflow-hidden" role="progressbar" aria-valuemin={0} aria-valuemax={budget} aria-valuenow={spent} aria-label={`${name} budget used`}>
+                    <div className={`h-full rounded-full ${BUDGET_BAR_CLASSES[status]}`} style={{ width: `${Math.min(100, (spent / budget) * 100)}%` }}></div>
+                  </div>
+                  <p className={`mt-1 text-xs ${status === 'over' ? 'text-red-600 font-medium' : status === 'warning' ? 'text-amber-600 font-medium' : 'text-gray-500'}`}>
+                    {status === 'over'
+                      ? `${currencySymbol}${Math.abs(remaining).toFixed(2)} over budget`
+                      : `${currencySymbol}${remaining.toFixed(2)} remaining${status === 'warning' ? ' — approaching the limit' : ''}`}
+                  </p>
+                </li>
+              ))}
+            </ul>
+          ) : (
+            <p className="text-gray-500 text-center py-8">No budgets set. Add a monthly budget to a category in Settings → Manage Categories.</p>
+          )}
+        </div>
+      </div>
+    );
+  }
+
+  if (view === 'tags') {
+    const maxTagSpend = tagSpend.length > 0 ? tagSpend[0].amount : 0;
+    return (
+      <div className="space-y-4 animate-fade-in">
+        <header className="flex items-center">
+          <button
+            onClick={handleBack}
+            className="p-2 -ml-2 text-gray-500 hover:text-indigo-600 hover:bg-indigo-50 rounded-full transition-colors"
+            aria-label="Back to dashboard"
+          >
+            <ChevronLeftIcon className="w-7 h-7" />
+          </button>
+          <h1 className="text-xl font-bold text-gray-900 ml-2">Spending by Tag</h1>
+        </header>
+        <div className="grid grid-cols-2 gap-1 p-1 bg-gray-100 rounded-lg" role="radiogroup" aria-label="Tag spending period">
+          {([['month', 'This Month'], ['all', 'All Time']] as const).map(([value, label]) => (
+            <button
+              key={value}
+              type="button"
+              role="radio"
+              aria-checked={tagPeriod === value}
+              onClick={() => setTagPeriod(value)}
+              className={`py-1.5 text-sm font-medium rounded-md transition-colors ${tagPeriod === value ? 'bg-white text-indigo-700 shadow-sm' : 'text-gray-600 hover:text-gray-900'}`}
+            >
+              {label}
+            </button>
+          ))}
+        </div>
+        <div className="bg-white p-4 rounded-xl shadow-md">
+          {tagSpend.length > 0 ? (
+            <ul className="space-y-4">
+              {tagSpend.map(({ name, amount }) => (
+                <li key={name}>
+                  <div className="flex justify-between items-baseline">
+                    <span className="font-medium text-gray-800">#{name}</span>
+                    <span className="text-sm text-gray-600">{currencySymbol}{amount.toFixed(2)}</span>
+                  </div>
+                  <div className="mt-2 h-2 w-full bg-gray-100 rounded-full overflow-hidden">
+                    <div className="h-full rounded-full bg-indigo-500" style={{ width: `${maxTagSpend > 0 ? (amount / maxTagSpend) * 100 : 0}%` }}></div>
+                  </div>
+                </li>
+              ))}
+            </ul>
+          ) : (
+            <p className="text-gray-500 text-center py-8">No tagged spending {tagPeriod === 'month' ? 'this month' : 'yet'}.</p>
+          )}
+        </div>
+      </div>
+    );
+  }
+
   if (view === 'monthly') {
     return (
       <div className="space-y-4 animate-fade-in">
@@ -344,9 +542,23 @@ const Dashboard: React.FC<DashboardProps> = ({ expenses, currencySymbol, onNavig
         </button>
       </header>
 
+      {accounts.length > 0 && (
+        <select value={selectedAccountId} onChange={e => setSelectedAccountId(e.target.value)} className="block w-full input-field" aria-label="Account">
+          <option value="">All accounts</option>
+          {accounts.map(account => <option key={account.id} value={account.id}>{account.name}</option>)}
+        </select>
+      )}
+
       <div className="grid grid-cols-2 gap-4">
         <StatCard title="Today's Spend" value={todaySpend.toFixed(2)} prefix={currencySymbol} />
         <StatCard title="This Month" value={thisMonthSpend.toFixed(2)} prefix={currencySymbol} />
+        <StatCard title="Income This Month" value={thisMonthIncome.toFixed(2)} prefix={currencySymbol} tone="positive" />
+        <StatCard
+          title="Net Cash Flow"
+          value={Math.abs(thisMonthNet).toFixed(2)}
+          prefix={`${thisMonthNet < 0 ? '-' : '+'}${currencySymbol}`}
+          tone={thisMonthNet < 0 ? 'negative' : 'positive'}
+        />
       </div>
       
       {expenses.length > 0 ? (
@@ -356,14 +568,28 @@ const Dashboard: React.FC<DashboardProps> = ({ expenses, currencySymbol, onNavig
                 title="Spending by Category"
                 description="View a breakdown of your expenses."
                 icon={<ChartPieIcon className="w-6 h-6" />}
-                onClick={() => setView('category')}
+                onClick={() => onViewChange('category')}
             />
             <ReportTile
                 title="Monthly Comparison"
                 description="Compare your spending over time."
                 icon={<CalendarIcon className="w-6 h-6" />}
-                onClick={() => setView('monthly')}
+                onClick={() => onViewChange('monthly')}
+            />
+            <ReportTile
+                title="Budgets"
+                description={budgetSummary}
+                icon={<BanknotesIcon className="w-6 h-6" />}
+                onClick={() => onViewChange('budgets')}
             />
+            {hasTags && (
+              <ReportTile
+                  title="Spending by Tag"
+                  description="See what trips, events and projects cost."
+                  icon={<TagIcon className="w-6 h-6" />}
+                  onClick={() => onViewChange('tags')}
+              />
+            )}
           </div>
 
           <div className="bg-white p-4 rounded-xl shadow-md">
@@ -0,0 +1,86 @@
+import React, { useMemo } from 'react';
+import type { Expense } from '../types';
+import { findDuplicatePairs, mergeDuplicateInto, type DuplicatePair, type TransactionSummary } from '../utils/duplicates';
+import { getActiveExpenses, moveToTrash } from '../utils/trash';
+import type { RecordUndoableAction } from '../utils/undoHistory';
+import { useLocalStorage } from '../hooks/useLocalStorage';
+import { DocumentDuplicateIcon, TrashIcon } from './Icons';
+
+interface DuplicateFinderProps {
+  expenses: Expense[];
+  onExpensesChange: (expenses: Expense[]) => void;
+  currencySymbol: string;
+  onRecordAction: RecordUndoableAction;
+}
+
+const TransactionCard: React.FC<{
+  transaction: TransactionSummary;
+  currencySymbol: string;
+  onDelete: () => void;
+}> = ({ transaction, currencySymbol, onDelete }) => {
+  const [first] = transaction.splits;
+  return (
+    <div className="p-3 rounded-lg border border-gray-200 flex justify-between items-start space-x-2 min-w-0">
+      <div className="min-w-0">
+        <p className="font-medium text-gray-800 truncate">{transaction.vendor}</p>
+        <p className="text-xs text-gray-600">{transaction.date} · {currencySymbol}{transaction.amount.toFixed(2)}</p>
+        <p className="text-xs text-gray-500 truncate">{Array.from(new Set(transaction.splits.map(s => s.category))).join(', ')}</p>
+        {first.rawVendor && <p className="text-xs text-gray-400 truncate">{first.rawVendor}</p>}
+        {first.notes && <p className="text-xs text-gray-500 truncate">{first.notes}</p>}
+      </div>
+      <button onClick={onDelete} className="p-1 text-gray-400 hover:text-red-500 transition-colors flex-shrink-0" aria-label={`Delete ${transaction.vendor} on ${transaction.date}`}>
+        <TrashIcon className="w-5 h-5" />
+      </button>
+    </div>
+  );
+};
+
+const DuplicateFinder: React.FC<DuplicateFinderProps> = ({ expenses, onExpensesChange, currencySymbol, onRecordAction }) => {
+  const [dismissedKeys, setDismissedKeys] = useLocalStorage<string[]>('dismissedDuplicatePairs', []);
+  const pairs = useMemo(() => findDuplicatePairs(getActiveExpenses(expenses), dismissedKeys), [expenses, dismissedKeys]);
+
+  const handleDelete = (transaction: TransactionSummary) => {
+    onRecordAction(`Moved duplicate ${transaction.vendor} to trash`, { destructive: true });
+    onExpensesChange(moveToTrash(expenses, transaction.transactionId));
+  };
+
+  // Keeps the transaction saved first, with anything only the other one had, and trashes the other.
+  const handleMerge = ({ first, second }: DuplicatePair) => {
+    const merged = new Map(mergeDuplicateInto(first, second).map(split => [split.id, split]));
+    onRecordAction(`Merged duplicate ${second.vendor}`, { destructive: true });
+    onExpensesChange(moveToTrash(expenses.map(expense => merged.get(expense.id) ?? expense), second.transactionId));
+  };
+
+  if (pairs.length === 0) {
+    return (
+      <div className="text-center py-12 bg-white rounded-xl shadow-md">
+        <DocumentDuplicateIcon className="w-12 h-12 mx-auto text-gray-300" />
+        <p className="mt-3 text-gray-500 px-4">No duplicates found. Transactions with the same amount and a similar vendor on the same or next day show up here.</p>
+      </div>
+    );
+  }
+
+  return (
+    <div className="bg-white p-4 rounded-xl shadow-md">
+      <p className="text-sm text-gray-500 mb-3">
+        {pairs.length} possible {pairs.length === 1 ? 'duplicate' : 'duplicates'}. Merging keeps the first one saved, adds the other's notes and tags to it, and moves the other to the trash.
+      </p>
+      <ul className="space-y-4">
+        {pairs.map(pair => (
+          <li key={pair.key} className="space-y-2">
+            <div className="grid grid-cols-2 gap-2">
+              <TransactionCard transaction={pair.first} currencySymbol={currencySymbol} onDelete={() => handleDelete(pair.first)} />
+              <TransactionCard transaction={pair.second} currencySymbol={currencySymbol} onDelete={() => handleDelete(pair.second)} />
+            </div>
+            <div className="flex justify-end space-x-2">
+              <button onClick={() => setDismissedKeys(prev => [...prev, pair.key])} className="px-3 py-2 text-sm font-medium text-gray-700 bg-gray-100 rounded-md hover:bg-gray-200 transition-colors">Not duplicates</button>
+              <button onClick={() => handleMerge(pair)} className="px-3 py-2 text-sm font-medium text-white bg-indigo-600 rounded-md hover:bg-indigo-700 transition-colors">Merge</button>
+            </div>
+          </li>
+        ))}
+      </ul>
+    </div>
+  );
+};
+
+export default DuplicateFinder;
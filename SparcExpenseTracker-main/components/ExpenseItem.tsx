@@ -1,6 +1,9 @@
 import React from 'react';
 import type { Expense } from '../types';
 import { TrashIcon, PencilIcon } from './Icons';
+import { getTransactionKind } from '../utils/transactionUtils';
+import { formatOriginalAmount } from '../utils/currencyUtils';
+import TagChips from './TagChips';
 
 interface ExpenseItemProps {
   expense: Expense;
@@ -10,10 +13,13 @@ interface ExpenseItemProps {
   onSetConfirming: (transactionId: string | null) => void;
   currencySymbol: string;
   allCategoryColors: Record<string, string>;
+  baseCurrencyCode: string;
 }
 
-const ExpenseItem: React.FC<ExpenseItemProps> = ({ expense, onDelete, onEdit, isConfirming, onSetConfirming, currencySymbol, allCategoryColors }) => {
+const ExpenseItem: React.FC<ExpenseItemProps> = ({ expense, onDelete, onEdit, isConfirming, onSetConfirming, currencySymbol, allCategoryColors, baseCurrencyCode }) => {
   const categoryColor = allCategoryColors[expense.category] || allCategoryColors['Other'];
+  const isIncome = getTransactionKind(expense) === 'income';
+  const originalAmount = formatOriginalAmount(expense, baseCurrencyCode);
 
   const handleDeleteClick = () => {
     onDelete(expense.transactionId);
@@ -30,9 +36,12 @@ const ExpenseItem: React.FC<ExpenseItemProps> = ({ expense, onDelete, onEdit, is
         <div className="ml-4 min-w-0">
           <p className="font-semibold text-gray-800 truncate">{expense.vendor}</p>
           <div className="flex items-baseline space-x-2 mt-1">
-              <p className="font-semibold text-gray-900">{currencySymbol}{expense.amount.toFixed(2)}</p>
+              <p className={`font-semibold ${isIncome ? 'text-green-600' : 'text-gray-900'}`}>{isIncome ? '+' : ''}{currencySymbol}{expense.amount.toFixed(2)}</p>
               <p className="text-sm text-gray-500">{expense.category}</p>
           </div>
+          {originalAmount && <p className="text-xs text-gray-500">{originalAmount}</p>}
+          {expense.sharing && <p className="text-xs text-gray-500">Your share · split {expense.sharing.shares.length + 1} ways</p>}
+          <TagChips tags={expense.tags} />
         </div>
       </div>
       <div className="flex items-center flex-shrink-0 space-x-2 pl-4">
@@ -1,8 +1,10 @@
 import React, { useState, useMemo, useEffect } from 'react';
-import type { Expense } from '../types';
+import type { Account, Expense } from '../types';
 import ExpenseItem from './ExpenseItem';
 import TransactionItem from './TransactionItem';
-import { CollectionIcon, PlusIcon } from './Icons';
+import { CollectionIcon, PlusIcon, SearchIcon, XIcon } from './Icons';
+import { filterExpenses, getFilteredTotals, groupByTransaction, type ExpenseFilters } from '../utils/expenseFilters';
+import { ALL_TIME, buildExpenseQuery, CUSTOM_RANGE, parseExpenseQuery, type ExpenseQuery } from '../utils/routes';
 
 const MONTH_NAMES = [
   'January', 'February', 'March', 'April', 'May', 'June', 
@@ -24,6 +26,7 @@ interface MonthOption {
   label: string;
 }
 
+
 interface ExpensesListProps {
   expenses: Expense[];
   deleteTransaction: (transactionId: string) => void;
@@ -33,14 +36,39 @@ interface ExpensesListProps {
   allCategories: string[];
   scrollToTransactionId: string | null;
   onScrollComplete: () => void;
+  baseCurrencyCode: string;
+  allTags: string[];
+  accounts: Account[];
+  query: string; // The filters, as a URL query string
+  onQueryChange: (query: string) => void;
 }
 
-const ExpensesList: React.FC<ExpensesListProps> = ({ expenses, deleteTransaction, onEdit, currencySymbol, allCategoryColors, allCategories, scrollToTransactionId, onScrollComplete }) => {
+const DateHeading: React.FC<{ date: string; spent: number; currencySymbol: string }> = ({ date, spent, currencySymbol }) => (
+  <h2 className="flex justify-between text-sm font-semibold text-gray-500 uppercase tracking-wider pb-2 border-b mb-3">
+    <span>{date}</span>
+    {spent > 0 && <span className="normal-case tracking-normal">{currencySymbol}{spent.toFixed(2)}</span>}
+  </h2>
+);
+
+const ExpensesList: React.FC<ExpensesListProps> = ({ expenses, deleteTransaction, onEdit, currencySymbol, allCategoryColors, allCategories, scrollToTransactionId, onScrollComplete, baseCurrencyCode, allTags, accounts, query, onQueryChange }) => {
   const [confirmingDeleteId, setConfirmingDeleteId] = useState<string | null>(null);
   
   const getCurrentMonth = () => new Date().toISOString().slice(0, 7);
-  const [selectedMonth, setSelectedMonth] = useState<string>(getCurrentMonth());
-  const [selectedCategory, setSelectedCategory] = useState<string>('all');
+  const [showFilters, setShowFilters] = useState(false);
+  // The period select holds a month ("YYYY-MM"), ALL_TIME or CUSTOM_RANGE.
+  const filterQuery = useMemo(() => parseExpenseQuery(query), [query]);
+  const {
+    period: selectedPeriod,
+    searchTerm,
+    startDate,
+    endDate,
+    minAmount,
+    maxAmount,
+    categories: selectedCategories,
+    tags: selectedTags,
+    accountIds: selectedAccounts,
+  } = filterQuery;
+  const updateQuery = (changes: Partial<ExpenseQuery>) => onQueryChange(buildExpenseQuery({ ...filterQuery, ...changes }));
 
   useEffect(() => {
     if (scrollToTransactionId) {
@@ -77,25 +105,29 @@ const ExpensesList: React.FC<ExpensesListProps> = ({ expenses, deleteTransaction
       });
   }, [expenses]);
 
-  const filteredExpenses = useMemo(() => {
-    const byMonth = expenses.filter(expense => expense.date.startsWith(selectedMonth));
-    if (selectedCategory === 'all') {
-      return byMonth;
-    }
-    return byMonth.filter(expense => expense.category === selectedCategory);
-  }, [expenses, selectedMonth, selectedCategory]);
+  const filters: ExpenseFilters = useMemo(() => {
+    const parseBound = (value: string) => value.trim() === '' || isNaN(parseFloat(value)) ? undefined : parseFloat(value);
+    const isMonth = selectedPeriod !== ALL_TIME && selectedPeriod !== CUSTOM_RANGE;
+    return {
+      searchTerm,
+      startDate: isMonth ? `${selectedPeriod}-01` : selectedPeriod === CUSTOM_RANGE ? startDate || undefined : undefined,
+      endDate: isMonth ? `${selectedPeriod}-31` : selectedPeriod === CUSTOM_RANGE ? endDate || undefined : undefined,
+      minAmount: parseBound(minAmount),
+      maxAmount: parseBound(maxAmount),
+      categories: selectedCategories,
+      tags: selectedTags,
+      accountIds: selectedAccounts,
+    };
+  }, [searchTerm, selectedPeriod, startDate, endDate, minAmount, maxAmount, selectedCategories, selectedTags, selectedAccounts]);
+
+  const filteredExpenses = useMemo(() => filterExpenses(expenses, filters), [expenses, filters]);
+  const totals = useMemo(() => getFilteredTotals(filteredExpenses), [filteredExpenses]);
+  const advancedFilterCount = (minAmount ? 1 : 0) + (maxAmount ? 1 : 0) + (selectedCategories.length > 0 ? 1 : 0) + (selectedTags.length > 0 ? 1 : 0) + (selectedAccounts.length > 0 ? 1 : 0) + (selectedPeriod === CUSTOM_RANGE ? 1 : 0);
 
   // Fix: Add an explicit type annotation to `groupedByDate` to ensure TypeScript correctly infers the types for `Object.entries` and resolves the "Property 'map' does not exist on type 'unknown'" error.
   const groupedByDate: Record<string, Expense[][]> = useMemo(() => {
-    // First, group expenses into transactions by transactionId
-    const transactions = filteredExpenses.reduce((acc, expense) => {
-      acc[expense.transactionId] = acc[expense.transactionId] || [];
-      acc[expense.transactionId].push(expense);
-      return acc;
-    }, {} as Record<string, Expense[]>);
-
-    // Then, group these transactions by date
-    return Object.values(transactions).reduce((groups, transaction) => {
+    // Group the filtered transactions by date
+    return groupByTransaction(filteredExpenses).reduce((groups, transaction) => {
       const date = formatDate(transaction[0].date);
       if (!groups[date]) {
         groups[date] = [];
@@ -106,8 +138,35 @@ const ExpensesList: React.FC<ExpensesListProps> = ({ expenses, deleteTransaction
       return groups;
     }, {} as Record<string, Expense[][]>);
   }, [filteredExpenses]);
-  
-  const selectedMonthLabel = availableMonths.find(m => m.value === selectedMonth)?.label;
+
+  const handleSearchChange = (value: string) => {
+    // Searches look across all history unless a specific range has been chosen.
+    const widenPeriod = !searchTerm && value && selectedPeriod !== CUSTOM_RANGE;
+    updateQuery(widenPeriod ? { searchTerm: value, period: ALL_TIME } : { searchTerm: value });
+  };
+
+  const handleRangeChange = (field: 'startDate' | 'endDate', value: string) => {
+    updateQuery({ [field]: value, period: CUSTOM_RANGE });
+  };
+
+  const toggleCategory = (name: string) => {
+    updateQuery({ categories: selectedCategories.includes(name) ? selectedCategories.filter(c => c !== name) : [...selectedCategories, name] });
+  };
+
+  const toggleTag = (name: string) => {
+    updateQuery({ tags: selectedTags.includes(name) ? selectedTags.filter(t => t !== name) : [...selectedTags, name] });
+  };
+
+  const toggleAccount = (id: string) => {
+    updateQuery({ accountIds: selectedAccounts.includes(id) ? selectedAccounts.filter(a => a !== id) : [...selectedAccounts, id] });
+  };
+
+  const clearFilters = () => {
+    onQueryChange('');
+  };
+
+  const isFiltered = searchTerm.trim() !== '' || advancedFilterCount > 0;
+  const selectedMonthLabel = availableMonths.find(m => m.value === selectedPeriod)?.label;
 
   return (
     <div className="space-y-6">
@@ -116,49 +175,156 @@ const ExpensesList: React.FC<ExpensesListProps> = ({ expenses, deleteTransaction
         <p className="text-gray-500">A complete history of your transactions.</p>
       </header>
 
-      <div className="grid grid-cols-2 gap-4">
-        <div>
-          <label htmlFor="month-filter" className="sr-only">Filter by Month</label>
-          <select
-              id="month-filter"
-              name="month-filter"
-              value={selectedMonth}
-              onChange={(e) => setSelectedMonth(e.target.value)}
-              className="block w-full rounded-md border-gray-300 shadow-sm focus:border-indigo-500 focus:ring-indigo-500 sm:text-sm py-2 px-3"
-              aria-label="Select month to display expenses"
-          >
-              {availableMonths.map(month => (
-                  <option key={month.value} value={month.value}>
-                      {month.label}
-                  </option>
-              ))}
-          </select>
+      <div className="space-y-3">
+        <div className="relative">
+          <div className="pointer-events-none absolute inset-y-0 left-0 flex items-center pl-3">
+            <SearchIcon className="h-5 w-5 text-gray-400" />
+          </div>
+          <input
+            type="search"
+            value={searchTerm}
+            onChange={(e) => handleSearchChange(e.target.value)}
+            className="block w-full rounded-md border-gray-300 shadow-sm pl-10 focus:border-indigo-500 focus:ring-indigo-500 sm:text-sm py-2"
+            placeholder="Search vendor, notes, category or tag"
+            aria-label="Search transactions"
+          />
         </div>
-        <div>
-          <label htmlFor="category-filter" className="sr-only">Filter by Category</label>
-          <select
-              id="category-filter"
-              name="category-filter"
-              value={selectedCategory}
-              onChange={(e) => setSelectedCategory(e.target.value)}
-              className="block w-full rounded-md border-gray-300 shadow-sm focus:border-indigo-500 focus:ring-indigo-500 sm:text-sm py-2 px-3"
-              aria-label="Select category to display expenses"
+        <div className="grid grid-cols-2 gap-4">
+          <div>
+            <label htmlFor="month-filter" className="sr-only">Filter by Period</label>
+            <select
+                id="month-filter"
+                name="month-filter"
+                value={selectedPeriod}
+                onChange={(e) => updateQuery({ period: e.target.value })}
+                className="block w-full rounded-md border-gray-300 shadow-sm focus:border-indigo-500 focus:ring-indigo-500 sm:text-sm py-2 px-3"
+                aria-label="Select period to display expenses"
+            >
+                <option value={ALL_TIME}>All Time</option>
+                <option value={CUSTOM_RANGE}>Custom Range</option>
+                {availableMonths.map(month => (
+                    <option key={month.value} value={month.value}>
+                        {month.label}
+                    </option>
+                ))}
+            </select>
+          </div>
+          <button
+            type="button"
+            onClick={() => setShowFilters(prev => !prev)}
+            aria-expanded={showFilters}
+            className={`rounded-md text-sm font-medium py-2 px-3 transition-colors ${advancedFilterCount > 0 ? 'bg-indigo-100 text-indigo-700 hover:bg-indigo-200' : 'bg-white text-gray-700 shadow-sm border border-gray-300 hover:bg-gray-50'}`}
           >
-              <option value="all">All Categories</option>
-              {allCategories.map(cat => (
-                  <option key={cat} value={cat}>
-                      {cat}
-                  </option>
-              ))}
-          </select>
+            Filters{advancedFilterCount > 0 ? ` (${advancedFilterCount})` : ''}
+          </button>
         </div>
+
+        {showFilters && (
+          <div className="bg-white p-4 rounded-xl shadow-md space-y-4 animate-fade-in">
+            <div className="grid grid-cols-2 gap-3">
+              <div>
+                <label htmlFor="filter-start" className="block text-xs text-gray-500">From date</label>
+                <input id="filter-start" type="date" value={startDate} onChange={e => handleRangeChange('startDate', e.target.value)} className="mt-1 block w-full input-field date-input-with-icon" />
+              </div>
+              <div>
+                <label htmlFor="filter-end" className="block text-xs text-gray-500">To date</label>
+                <input id="filter-end" type="date" value={endDate} onChange={e => handleRangeChange('endDate', e.target.value)} className="mt-1 block w-full input-field date-input-with-icon" />
+              </div>
+              <div>
+                <label htmlFor="filter-min" className="block text-xs text-gray-500">Min amount ({currencySymbol})</label>
+                <input id="filter-min" type="number" min="0" step="0.01" value={minAmount} onChange={e => updateQuery({ minAmount: e.target.value })} className="mt-1 block w-full input-field" placeholder="Any" />
+              </div>
+              <div>
+                <label htmlFor="filter-max" className="block text-xs text-gray-500">Max amount ({currencySymbol})</label>
+                <input id="filter-max" type="number" min="0" step="0.01" value={maxAmount} onChange={e => updateQuery({ maxAmount: e.target.value })} className="mt-1 block w-full input-field" placeholder="Any" />
+              </div>
+            </div>
+            <div>
+              <p className="text-xs text-gray-500 mb-2">Categories</p>
+              <div className="flex flex-wrap gap-2">
+                {allCategories.map(cat => {
+                  const isSelected = selectedCategories.includes(cat);
+                  return (
+                    <button
+                      key={cat}
+                      type="button"
+                      onClick={() => toggleCategory(cat)}
+                      aria-pressed={isSelected}
+                      className={`px-3 py-1 text-sm rounded-full border transition-colors ${isSelected ? 'bg-indigo-600 border-indigo-600 text-white' : 'bg-white border-gray-300 text-gray-700 hover:bg-gray-50'}`}
+                    >
+                      {cat}
+                    </button>
+                  );
+                })}
+              </div>
+            </div>
+            {allTags.length > 0 && (
+              <div>
+                <p className="text-xs text-gray-500 mb-2">Tags</p>
+                <div className="flex flex-wrap gap-2">
+                  {allTags.map(tag => {
+                    const isSelected = selectedTags.includes(tag);
+                    return (
+                      <button
+                        key={tag}
+                        type="button"
+                        onClick={() => toggleTag(tag)}
+                        aria-pressed={isSelected}
+                        className={`px-3 py-1 text-sm rounded-full border transition-colors ${isSelected ? 'bg-indigo-600 border-indigo-600 text-white' : 'bg-white border-gray-300 text-gray-700 hover:bg-gray-50'}`}
+                      >
+                        #{tag}
+                      </button>
+                    );
+                  })}
+                </div>
+              </div>
+            )}
+            {accounts.length > 0 && (
+              <div>
+                <p className="text-xs text-gray-500 mb-2">Accounts</p>
+                <div className="flex flex-wrap gap-2">
+                  {accounts.map(account => {
+                    const isSelected = selectedAccounts.includes(account.id);
+                    return (
+                      <button
+                        key={account.id}
+                        type="button"
+                        onClick={() => toggleAccount(account.id)}
+                        aria-pressed={isSelected}
+                        className={`px-3 py-1 text-sm rounded-full border transition-colors ${isSelected ? 'bg-indigo-600 border-indigo-600 text-white' : 'bg-white border-gray-300 text-gray-700 hover:bg-gray-50'}`}
+                      >
+                        {account.name}
+                      </button>
+                    );
+                  })}
+                </div>
+              </div>
+            )}
+          </div>
+        )}
+
+        {filteredExpenses.length > 0 && (
+          <div className="flex items-center justify-between text-sm bg-indigo-50 text-indigo-900 rounded-lg px-3 py-2">
+            <span>
+              {totals.transactionCount} {totals.transactionCount === 1 ? 'transaction' : 'transactions'}
+              {' · '}Spent {currencySymbol}{totals.spent.toFixed(2)}
+              {totals.income > 0 && <>{' · '}Income {currencySymbol}{totals.income.toFixed(2)}</>}
+            </span>
+            {isFiltered && (
+              <button type="button" onClick={clearFilters} className="flex items-center text-indigo-600 hover:text-indigo-800 font-medium">
+                <XIcon className="w-4 h-4 mr-1" />
+                Clear
+              </button>
+            )}
+          </div>
+        )}
       </div>
       
       {filteredExpenses.length > 0 ? (
         <div className="space-y-6">
           {Object.entries(groupedByDate).map(([date, transactionsOnDate]) => (
             <div key={date}>
-              <h2 className="text-sm font-semibold text-gray-500 uppercase tracking-wider pb-2 border-b mb-3">{date}</h2>
+              <DateHeading date={date} spent={getFilteredTotals(transactionsOnDate.flat()).spent} currencySymbol={currencySymbol} />
               <ul className="space-y-3">
                 {transactionsOnDate.map(transaction => {
                   const transactionId = transaction[0].transactionId;
@@ -174,6 +340,7 @@ const ExpensesList: React.FC<ExpensesListProps> = ({ expenses, deleteTransaction
                       onSetConfirming={setConfirmingDeleteId}
                       currencySymbol={currencySymbol}
                       allCategoryColors={allCategoryColors}
+                      baseCurrencyCode={baseCurrencyCode}
                     />
                   ) : (
                     <ExpenseItem
@@ -185,6 +352,7 @@ const ExpensesList: React.FC<ExpensesListProps> = ({ expenses, deleteTransaction
                       onSetConfirming={setConfirmingDeleteId}
                       currencySymbol={currencySymbol}
                       allCategoryColors={allCategoryColors}
+                      baseCurrencyCode={baseCurrencyCode}
                     />
                   )
                 })}
@@ -197,7 +365,7 @@ const ExpensesList: React.FC<ExpensesListProps> = ({ expenses, deleteTransaction
           <CollectionIcon className="w-16 h-16 mx-auto text-gray-300" />
           <h2 className="mt-4 text-xl font-semibold text-gray-700">No Expenses Found</h2>
           <p className="mt-2 text-gray-500">
-            No expenses were found for {selectedMonthLabel || 'the selected period'}.
+            {isFiltered ? 'No transactions match your search and filters.' : `No expenses were found for ${selectedMonthLabel || 'the selected period'}.`}
           </p>
            <p className="mt-2 text-sm text-gray-500">
             Tap the <PlusIcon className="inline-block w-5 h-5 -mt-1 mx-1 p-1 bg-indigo-100 text-indigo-600 rounded-full"/> button to add a transaction.
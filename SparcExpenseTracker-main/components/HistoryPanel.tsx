@@ -0,0 +1,70 @@
+import React from 'react';
+import type { UndoHistory } from '../utils/undoHistory';
+import { ArrowPathIcon } from './Icons';
+
+interface HistoryPanelProps {
+  history: UndoHistory;
+  onUndo: () => void;
+  onRedo: () => void;
+}
+
+const formatTime = (timestamp: string) =>
+  new Date(timestamp).toLocaleString(undefined, { month: 'short', day: 'numeric', hour: 'numeric', minute: '2-digit' });
+
+const HistoryPanel: React.FC<HistoryPanelProps> = ({ history, onUndo, onRedo }) => {
+  const { past, future } = history;
+  const lastAction = past[past.length - 1];
+  const nextRedo = future[0];
+
+  return (
+    <div className="space-y-4">
+      <div className="bg-white p-4 rounded-xl shadow-md space-y-3">
+        <div className="grid grid-cols-2 gap-2">
+          <button
+            onClick={onUndo}
+            disabled={!lastAction}
+            className="px-4 py-2 text-sm font-medium text-indigo-700 bg-indigo-100 rounded-md hover:bg-indigo-200 disabled:opacity-50 disabled:cursor-not-allowed transition-colors"
+          >
+            Undo
+          </button>
+          <button
+            onClick={onRedo}
+            disabled={!nextRedo}
+            className="px-4 py-2 text-sm font-medium text-gray-700 bg-gray-100 rounded-md hover:bg-gray-200 disabled:opacity-50 disabled:cursor-not-allowed transition-colors"
+          >
+            Redo
+          </button>
+        </div>
+        <p className="text-xs text-gray-500">
+          {lastAction ? <>Undo: {lastAction.label}</> : 'Nothing to undo.'}
+          {nextRedo && <> · Redo: {nextRedo.label}</>}
+        </p>
+        <p className="text-xs text-gray-500">On a keyboard, use Ctrl+Z to undo and Ctrl+Shift+Z to redo.</p>
+      </div>
+
+      {past.length === 0 && future.length === 0 ? (
+        <div className="text-center py-12 bg-white rounded-xl shadow-md">
+          <ArrowPathIcon className="w-12 h-12 mx-auto text-gray-300" />
+          <p className="mt-3 text-gray-500">Changes you make to transactions and categories will be listed here.</p>
+        </div>
+      ) : (
+        <ul className="bg-white rounded-xl shadow-md divide-y divide-gray-200">
+          {[...future].reverse().map(entry => (
+            <li key={entry.id} className="px-4 py-3 flex justify-between text-sm text-gray-400">
+              <span className="line-through">{entry.label}</span>
+              <span>{formatTime(entry.timestamp)}</span>
+            </li>
+          ))}
+          {[...past].reverse().map(entry => (
+            <li key={entry.id} className="px-4 py-3 flex justify-between text-sm text-gray-800">
+              <span>{entry.label}</span>
+              <span className="text-gray-500">{formatTime(entry.timestamp)}</span>
+            </li>
+          ))}
+        </ul>
+      )}
+    </div>
+  );
+};
+
+export default HistoryPanel;
@@ -0,0 +1,214 @@
+import React, { useMemo, useState } from 'react';
+import type { Expense, Merchant } from '../types';
+import { applyMerchantsToExpenses, getMerchantSuggestions, getVendorKey, mergeIntoMerchant, type MerchantSuggestion } from '../utils/merchants';
+import type { RecordUndoableAction } from '../utils/undoHistory';
+import { getActiveExpenses } from '../utils/trash';
+import { useLocalStorage } from '../hooks/useLocalStorage';
+import { PencilIcon, TrashIcon, CheckIcon, XIcon, PlusIcon, CollectionIcon } from './Icons';
+
+const formatTransactionCount = (count: number) => `${count} ${count === 1 ? 'transaction' : 'transactions'}`;
+
+interface MerchantDirectoryProps {
+  merchants: Merchant[];
+  onMerchantsChange: (merchants: Merchant[]) => void;
+  expenses: Expense[];
+  onExpensesChange: (expenses: Expense[]) => void;
+  onRecordAction: RecordUndoableAction;
+}
+
+const MerchantDirectory: React.FC<MerchantDirectoryProps> = ({ merchants, onMerchantsChange, expenses, onExpensesChange, onRecordAction }) => {
+  const [dismissedKeys, setDismissedKeys] = useLocalStorage<string[]>('dismissedMerchantSuggestions', []);
+  const [suggestionNames, setSuggestionNames] = useState<Record<string, string>>({});
+  const [editingId, setEditingId] = useState<string | null>(null);
+  const [draftName, setDraftName] = useState('');
+  const [aliasDrafts, setAliasDrafts] = useState<Record<string, string>>({});
+  const [newMerchantName, setNewMerchantName] = useState('');
+
+  const activeExpenses = useMemo(() => getActiveExpenses(expenses), [expenses]);
+  const suggestions = useMemo(() => getMerchantSuggestions(activeExpenses, merchants, dismissedKeys), [activeExpenses, merchants, dismissedKeys]);
+  const transactionCounts = useMemo(() => {
+    const ids = new Map<string, Set<string>>();
+    activeExpenses.forEach(e => {
+      const set = ids.get(e.vendor) ?? new Set<string>();
+      set.add(e.transactionId);
+      ids.set(e.vendor, set);
+    });
+    return new Map(Array.from(ids.entries()).map(([vendor, set]) => [vendor, set.size]));
+  }, [activeExpenses]);
+
+  // Saves the directory and brings the vendor names in history in line with it.
+  const saveMerchants = (label: string, updated: Merchant[]) => {
+    onRecordAction(label);
+    onMerchantsChange(updated);
+    onExpensesChange(applyMerchantsToExpenses(expenses, updated));
+  };
+
+  const handleMerge = (suggestion: MerchantSuggestion) => {
+    const name = (suggestionNames[suggestion.key] ?? suggestion.suggestedName).trim();
+    if (!name) return;
+    saveMerchants(`Merged vendors into ${name}`, mergeIntoMerchant(merchants, name, suggestion.vendors.map(v => v.vendor)));
+  };
+
+  const handleRename = (merchant: Merchant) => {
+    const name = draftName.trim();
+    if (!name) return;
+    const clash = merchants.find(m => m.id !== merchant.id && getVendorKey(m.name) === getVendorKey(name));
+    if (clash && !window.confirm(`"${clash.name}" already exists. Merge "${merchant.name}" into it?`)) return;
+    if (clash) {
+      saveMerchants(`Merged ${merchant.name} into ${clash.name}`, mergeIntoMerchant(merchants.filter(m => m.id !== merchant.id), clash.name, [merchant.name, ...merchant.aliases]));
+    } else {
+      // The old name stays on as an alias so transactions saved under it are still recognised.
+      saveMerchants(`Renamed merchant ${merchant.name} to ${name}`, merchants.map(m => m.id === merchant.id ? { ...m, name, aliases: getVendorKey(m.name) === getVendorKey(name) ? m.aliases : [...m.aliases, m.name] } : m));
+    }
+    setEditingId(null);
+  };
+
+  const handleAddAlias = (merchant: Merchant) => {
+    const alias = (aliasDrafts[merchant.id] ?? '').trim();
+    if (!alias) return;
+    saveMerchants(`Added ${alias} to ${merchant.name}`, mergeIntoMerchant(merchants, merchant.name, [alias]));
+    setAliasDrafts(prev => ({ ...prev, [merchant.id]: '' }));
+  };
+
+  const handleRemoveAlias = (merchant: Merchant, alias: string) => {
+    // History keeps its current name; only future matches are affected.
+    onRecordAction(`Removed ${alias} from ${merchant.name}`);
+    onMerchantsChange(merchants.map(m => m.id === merchant.id ? { ...m, aliases: m.aliases.filter(a => a !== alias) } : m));
+  };
+
+  const handleDelete = (merchant: Merchant) => {
+    if (window.confirm(`Delete "${merchant.name}" from the directory? Existing transactions keep their names.`)) {
+      onRecordAction(`Deleted merchant ${merchant.name}`, { destructive: true });
+      onMerchantsChange(merchants.filter(m => m.id !== merchant.id));
+    }
+  };
+
+  const handleAddMerchant = () => {
+    const name = newMerchantName.trim();
+    if (!name) return;
+    saveMerchants(`Added merchant ${name}`, mergeIntoMerchant(merchants, name, []));
+    setNewMerchantName('');
+  };
+
+  return (
+    <div className="space-y-4">
+      {suggestions.length > 0 && (
+        <div className="bg-white p-4 rounded-xl shadow-md space-y-3">
+          <h2 className="text-lg font-semibold text-gray-800">Suggested merges</h2>
+          <p className="text-sm text-gray-500">These vendor names look like the same merchant. Merging renames their transactions and recognises the spellings from now on.</p>
+          <ul className="space-y-3">
+            {suggestions.map(suggestion => (
+              <li key={suggestion.key} className="p-3 rounded-lg border border-indigo-200 bg-indigo-50/40 space-y-2">
+                <ul className="text-sm text-gray-700">
+                  {suggestion.vendors.map(({ vendor, count }) => (
+                    <li key={vendor} className="flex justify-between">
+                      <span className="truncate">{vendor}</span>
+                      <span className="text-gray-500 flex-shrink-0 ml-2">{formatTransactionCount(count)}</span>
+                    </li>
+                  ))}
+                </ul>
+                <div className="flex items-center space-x-2">
+                  <input
+                    type="text"
+                    value={suggestionNames[suggestion.key] ?? suggestion.suggestedName}
+                    onChange={e => setSuggestionNames(prev => ({ ...prev, [suggestion.key]: e.target.value }))}
+                    className="flex-grow input-field"
+                    aria-label="Merchant name"
+                  />
+                  <button onClick={() => handleMerge(suggestion)} className="px-3 py-2 text-sm font-medium text-white bg-indigo-600 rounded-md hover:bg-indigo-700 transition-colors">Merge</button>
+                  <button onClick={() => setDismissedKeys(prev => [...prev, suggestion.key])} className="px-3 py-2 text-sm font-medium text-gray-700 bg-gray-100 rounded-md hover:bg-gray-200 transition-colors">Dismiss</button>
+                </div>
+              </li>
+            ))}
+          </ul>
+        </div>
+      )}
+
+      <div className="bg-white p-4 rounded-xl shadow-md space-y-3">
+        <h2 className="text-lg font-semibold text-gray-800">Merchants</h2>
+        {merchants.length === 0 ? (
+          <div className="text-center py-6">
+            <CollectionIcon className="w-10 h-10 mx-auto text-gray-300" />
+            <p className="mt-2 text-gray-500">No merchants yet. Merge a suggestion or add one below.</p>
+          </div>
+        ) : (
+          <ul className="divide-y divide-gray-200">
+            {merchants.map(merchant => (
+              <li key={merchant.id} className="py-3 space-y-2">
+                {editingId === merchant.id ? (
+                  <div className="flex items-center space-x-2">
+                    <input
+                      type="text"
+                      value={draftName}
+                      onChange={e => setDraftName(e.target.value)}
+                      onKeyDown={e => { if (e.key === 'Enter') handleRename(merchant); if (e.key === 'Escape') setEditingId(null); }}
+                      className="flex-grow input-field"
+                      aria-label={`New name for ${merchant.name}`}
+                      autoFocus
+                    />
+                    <button onClick={() => handleRename(merchant)} className="p-2 text-green-600 hover:bg-green-50 rounded-full" aria-label="Save merchant name"><CheckIcon className="w-5 h-5" /></button>
+                    <button onClick={() => setEditingId(null)} className="p-2 text-gray-500 hover:bg-gray-100 rounded-full" aria-label="Cancel renaming"><XIcon className="w-5 h-5" /></button>
+                  </div>
+                ) : (
+                  <div className="flex items-center justify-between">
+                    <div>
+                      <span className="font-medium text-gray-800">{merchant.name}</span>
+                      <span className="ml-2 text-sm text-gray-500">{formatTransactionCount(transactionCounts.get(merchant.name) ?? 0)}</span>
+                    </div>
+                    <div className="flex items-center space-x-1">
+                      <button onClick={() => { setEditingId(merchant.id); setDraftName(merchant.name); }} className="p-1 text-gray-400 hover:text-indigo-500 transition-colors" aria-label={`Rename ${merchant.name}`}>
+                        <PencilIcon className="w-5 h-5" />
+                      </button>
+                      <button onClick={() => handleDelete(merchant)} className="p-1 text-gray-400 hover:text-red-500 transition-colors" aria-label={`Delete ${merchant.name}`}>
+                        <TrashIcon className="w-5 h-5" />
+                      </button>
+                    </div>
+                  </div>
+                )}
+                <div className="flex flex-wrap gap-1">
+                  {merchant.aliases.map(alias => (
+                    <span key={alias} className="flex items-center px-2 py-0.5 text-xs text-gray-700 bg-gray-100 rounded-full">
+                      {alias}
+                      <button onClick={() => handleRemoveAlias(merchant, alias)} className="ml-1 text-gray-400 hover:text-red-500" aria-label={`Remove alias ${alias}`}>
+                        <XIcon className="w-3 h-3" />
+                      </button>
+                    </span>
+                  ))}
+                </div>
+                <div className="flex items-center space-x-2">
+                  <input
+                    type="text"
+                    value={aliasDrafts[merchant.id] ?? ''}
+                    onChange={e => setAliasDrafts(prev => ({ ...prev, [merchant.id]: e.target.value }))}
+                    onKeyDown={e => { if (e.key === 'Enter') handleAddAlias(merchant); }}
+                    className="flex-grow input-field text-sm"
+                    placeholder="Add a spelling, e.g. AMZN Mktp IN"
+                    aria-label={`New alias for ${merchant.name}`}
+                  />
+                  <button onClick={() => handleAddAlias(merchant)} className="p-2 text-indigo-600 hover:bg-indigo-50 rounded-full" aria-label={`Add alias to ${merchant.name}`}><PlusIcon className="w-5 h-5" /></button>
+                </div>
+              </li>
+            ))}
+          </ul>
+        )}
+        <div className="flex items-center space-x-2 border-t pt-3">
+          <input
+            type="text"
+            value={newMerchantName}
+            onChange={e => setNewMerchantName(e.target.value)}
+            onKeyDown={e => { if (e.key === 'Enter') handleAddMerchant(); }}
+            className="flex-grow input-field"
+            placeholder="New merchant name"
+            aria-label="New merchant name"
+          />
+          <button onClick={handleAddMerchant} disabled={!newMerchantName.trim()} className="flex items-center px-3 py-2 text-sm font-medium text-indigo-700 bg-indigo-100 rounded-md hover:bg-indigo-200 disabled:opacity-50 transition-colors">
+            <PlusIcon className="w-5 h-5 mr-1" />
+            Add
+          </button>
+        </div>
+      </div>
+    </div>
+  );
+};
+
+export default MerchantDirectory;
@@ -0,0 +1,223 @@
+import React, { useMemo, useState } from 'react';
+import type { Account, Contact, Expense, TransactionInput } from '../types';
+import { TRANSFER_CATEGORY } from '../constants';
+import { getContactBalances } from '../utils/sharing';
+import { generateTransactionId } from '../utils/transactionUtils';
+import { getActiveExpenses } from '../utils/trash';
+import type { RecordUndoableAction } from '../utils/undoHistory';
+import { PencilIcon, TrashIcon, CheckIcon, XIcon, PlusIcon, UsersIcon } from './Icons';
+
+interface PeopleManagerProps {
+  contacts: Contact[];
+  onContactsChange: (contacts: Contact[]) => void;
+  expenses: Expense[];
+  accounts: Account[];
+  onSettleUp: (transaction: TransactionInput) => void;
+  currencySymbol: string;
+  onRecordAction: RecordUndoableAction;
+}
+
+interface SettleFormState {
+  contactId: string;
+  amount: string;
+  date: string;
+  accountId: string;
+}
+
+const describeBalance = (balance: number, currencySymbol: string) => {
+  if (Math.abs(balance) < 0.005) return 'Settled up';
+  return balance > 0
+    ? `Owes you ${currencySymbol}${balance.toFixed(2)}`
+    : `You owe ${currencySymbol}${Math.abs(balance).toFixed(2)}`;
+};
+
+const PeopleManager: React.FC<PeopleManagerProps> = ({ contacts, onContactsChange, expenses, accounts, onSettleUp, currencySymbol, onRecordAction }) => {
+  const [newContactName, setNewContactName] = useState('');
+  const [editingId, setEditingId] = useState<string | null>(null);
+  const [draftName, setDraftName] = useState('');
+  const [settleForm, setSettleForm] = useState<SettleFormState | null>(null);
+
+  const balances = useMemo(() => getContactBalances(contacts, getActiveExpenses(expenses)), [contacts, expenses]);
+  const { owedToYou, youOwe } = useMemo(() => Object.values(balances).reduce(
+    (totals, balance) => balance > 0 ? { ...totals, owedToYou: totals.owedToYou + balance } : { ...totals, youOwe: totals.youOwe - balance },
+    { owedToYou: 0, youOwe: 0 }
+  ), [balances]);
+
+  const isNameTaken = (name: string, exceptId?: string) =>
+    contacts.some(c => c.id !== exceptId && c.name.toLowerCase() === name.toLowerCase());
+
+  const handleAddContact = () => {
+    const name = newContactName.trim();
+    if (!name) return;
+    if (isNameTaken(name)) {
+      alert(`"${name}" is already in your people.`);
+      return;
+    }
+    onRecordAction(`Added ${name} to people`);
+    onContactsChange([...contacts, { id: `contact-${generateTransactionId()}`, name }]);
+    setNewContactName('');
+  };
+
+  const handleRename = (contact: Contact) => {
+    const name = draftName.trim();
+    if (!name) return;
+    if (isNameTaken(name, contact.id)) {
+      alert(`"${name}" is already in your people.`);
+      return;
+    }
+    onRecordAction(`Renamed ${contact.name} to ${name}`);
+    onContactsChange(contacts.map(c => c.id === contact.id ? { ...c, name } : c));
+    setEditingId(null);
+  };
+
+  // Shared bills keep their shares, so the person's balance returns if the deletion is undone.
+  const handleDelete = (contact: Contact) => {
+    if (Math.abs(balances[contact.id] ?? 0) >= 0.005) {
+      alert(`Settle up with ${contact.name} before removing them.`);
+      return;
+    }
+    if (window.confirm(`Remove "${contact.name}" from your people?`)) {
+      onRecordAction(`Removed ${contact.name} from people`, { destructive: true });
+      onContactsChange(contacts.filter(c => c.id !== contact.id));
+    }
+  };
+
+  const openSettleForm = (contact: Contact) => {
+    setSettleForm({
+      contactId: contact.id,
+      amount: Math.abs(balances[contact.id] ?? 0).toFixed(2),
+      date: new Date().toISOString().slice(0, 10),
+      accountId: '',
+    });
+  };
+
+  // A settlement is a transfer, so it moves account balances without counting as spending or income.
+  const handleSettle = (contact: Contact) => {
+    if (!settleForm) return;
+    const amount = parseFloat(settleForm.amount);
+    if (!(amount > 0)) return;
+    const isReceived = (balances[contact.id] ?? 0) > 0;
+    onSettleUp({
+      vendor: isReceived ? `${contact.name} paid you` : `You paid ${contact.name}`,
+      date: settleForm.date,
+      notes: '',
+      kind: 'transfer',
+      splits: [{ amount, category: TRANSFER_CATEGORY }],
+      accountId: isReceived ? undefined : settleForm.accountId || undefined,
+      toAccountId: isReceived ? settleForm.accountId || undefined : undefined,
+      settlement: { contactId: contact.id, direction: isReceived ? 'received' : 'paid' },
+    });
+    setSettleForm(null);
+  };
+
+  const renderSettleForm = (contact: Contact, form: SettleFormState) => {
+    const isReceived = (balances[contact.id] ?? 0) > 0;
+    return (
+      <div className="mt-2 p-3 rounded-lg border border-indigo-200 bg-indigo-50/40 space-y-2">
+        <p className="text-sm text-gray-700">{isReceived ? `Record a payment from ${contact.name}` : `Record a payment to ${contact.name}`}</p>
+        <div className="grid grid-cols-2 gap-2">
+          <input type="number" min="0" step="0.01" value={form.amount} onChange={e => setSettleForm({ ...form, amount: e.target.value })} className="input-field" placeholder={`Amount in ${currencySymbol}`} aria-label="Amount settled" autoFocus />
+          <input type="date" value={form.date} onChange={e => setSettleForm({ ...form, date: e.target.value })} className="input-field date-input-with-icon" aria-label="Date settled" />
+          {accounts.length > 0 && (
+            <select value={form.accountId} onChange={e => setSettleForm({ ...form, accountId: e.target.value })} className="col-span-2 input-field" aria-label={isReceived ? 'Received into' : 'Paid from'}>
+              <option value="">No account</option>
+              {accounts.map(account => <option key={account.id} value={account.id}>{isReceived ? 'Into' : 'From'} {account.name}</option>)}
+            </select>
+          )}
+        </div>
+        <div className="flex justify-end space-x-3">
+          <button onClick={() => setSettleForm(null)} className="px-4 py-2 text-sm font-medium text-gray-700 bg-gray-100 rounded-md hover:bg-gray-200 transition-colors">Cancel</button>
+          <button onClick={() => handleSettle(contact)} disabled={!(parseFloat(form.amount) > 0)} className="px-4 py-2 text-sm font-medium text-white bg-indigo-600 rounded-md hover:bg-indigo-700 flex items-center transition-colors disabled:bg-indigo-300 disabled:cursor-not-allowed">
+            <CheckIcon className="w-5 h-5 mr-1" />
+            Settle Up
+          </button>
+        </div>
+      </div>
+    );
+  };
+
+  return (
+    <div className="space-y-4">
+      {contacts.length > 0 && (
+        <div className="grid grid-cols-2 gap-2 text-center">
+          <div className="p-3 rounded-xl bg-white shadow-md">
+            <p className="text-xl font-bold text-green-600">{currencySymbol}{owedToYou.toFixed(2)}</p>
+            <p className="text-xs text-gray-500">Owed to you</p>
+          </div>
+          <div className="p-3 rounded-xl bg-white shadow-md">
+            <p className="text-xl font-bold text-red-600">{currencySymbol}{youOwe.toFixed(2)}</p>
+            <p className="text-xs text-gray-500">You owe</p>
+          </div>
+        </div>
+      )}
+
+      <div className="bg-white p-4 rounded-xl shadow-md space-y-3">
+        <h2 className="text-lg font-semibold text-gray-800">People</h2>
+        {contacts.length === 0 ? (
+          <div className="text-center py-6">
+            <UsersIcon className="w-10 h-10 mx-auto text-gray-300" />
+            <p className="mt-2 text-gray-500">No people yet. Add the friends you share bills with, then split expenses with them when you add one.</p>
+          </div>
+        ) : (
+          <ul className="divide-y divide-gray-200">
+            {contacts.map(contact => {
+              const balance = balances[contact.id] ?? 0;
+              return (
+                <li key={contact.id} className="py-3">
+                  {editingId === contact.id ? (
+                    <div className="flex items-center space-x-2">
+                      <input
+                        type="text"
+                        value={draftName}
+                        onChange={e => setDraftName(e.target.value)}
+                        onKeyDown={e => { if (e.key === 'Enter') handleRename(contact); if (e.key === 'Escape') setEditingId(null); }}
+                        className="flex-grow input-field"
+                        aria-label={`New name for ${contact.name}`}
+                        autoFocus
+                      />
+                      <button onClick={() => handleRename(contact)} className="p-2 text-green-600 hover:bg-green-50 rounded-full" aria-label="Save name"><CheckIcon className="w-5 h-5" /></button>
+                      <button onClick={() => setEditingId(null)} className="p-2 text-gray-500 hover:bg-gray-100 rounded-full" aria-label="Cancel renaming"><XIcon className="w-5 h-5" /></button>
+                    </div>
+                  ) : (
+                    <div className="flex items-center justify-between space-x-3">
+                      <div className="min-w-0">
+                        <p className="font-medium text-gray-800 truncate">{contact.name}</p>
+                        <p className={`text-sm ${balance > 0 ? 'text-green-600' : balance < 0 ? 'text-red-600' : 'text-gray-500'}`}>{describeBalance(balance, currencySymbol)}</p>
+                      </div>
+                      <div className="flex items-center space-x-1 flex-shrink-0">
+                        {Math.abs(balance) >= 0.005 && settleForm?.contactId !== contact.id && (
+                          <button onClick={() => openSettleForm(contact)} className="px-3 py-1 text-sm font-medium text-indigo-700 bg-indigo-100 rounded-full hover:bg-indigo-200 transition-colors">Settle up</button>
+                        )}
+                        <button onClick={() => { setEditingId(contact.id); setDraftName(contact.name); }} className="p-1 text-gray-400 hover:text-indigo-500 transition-colors" aria-label={`Rename ${contact.name}`}>
+                          <PencilIcon className="w-5 h-5" />
+                        </button>
+                        <button onClick={() => handleDelete(contact)} className="p-1 text-gray-400 hover:text-red-500 transition-colors" aria-label={`Remove ${contact.name}`}>
+                          <TrashIcon className="w-5 h-5" />
+                        </button>
+                      </div>
+                    </div>
+                  )}
+                  {settleForm?.contactId === contact.id && renderSettleForm(contact, settleForm)}
+                </li>
+              );
+            })}
+          </ul>
+        )}
+        <div className="flex items-center space-x-2 border-t pt-3">
+          <input
+            type="text"
+            value={newContactName}
+            onChange={e => setNewContactName(e.target.value)}
+            onKeyDown={e => { if (e.key === 'Enter') handleAddContact(); }}
+            className="flex-grow input-field"
+            placeholder="Add a person, e.g. Priya"
+            aria-label="New person's name"
+          />
+          <button onClick={handleAddContact} className="p-2 text-indigo-600 hover:bg-indigo-50 rounded-full" aria-label="Add person"><PlusIcon className="w-5 h-5" /></button>
+        </div>
+      </div>
+    </div>
+  );
+};
+
+export default PeopleManager;
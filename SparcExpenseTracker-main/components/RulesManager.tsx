@@ -0,0 +1,268 @@
+import React, { useMemo, useState } from 'react';
+import type { CategoryDefinition, CategoryRule, Expense, RuleMatchType } from '../types';
+import { applyRuleChanges, describeRule, isValidRulePattern, previewRulesOnHistory, RULE_MATCH_LABELS, type RuleChange } from '../utils/rules';
+import { getCategoryKind, generateTransactionId } from '../utils/transactionUtils';
+import { getActiveExpenses } from '../utils/trash';
+import type { RecordUndoableAction } from '../utils/undoHistory';
+import TagInput from './TagInput';
+import TagChips from './TagChips';
+import { PencilIcon, TrashIcon, PlusIcon, CheckIcon, ChevronUpIcon, ChevronDownIcon, ArrowPathIcon } from './Icons';
+
+interface RulesManagerProps {
+  rules: CategoryRule[];
+  onRulesChange: (rules: CategoryRule[]) => void;
+  expenses: Expense[];
+  onExpensesChange: (expenses: Expense[]) => void;
+  categories: CategoryDefinition[];
+  allTags: string[];
+  currencySymbol: string;
+  onRecordAction: RecordUndoableAction;
+}
+
+interface RuleFormState {
+  kind: CategoryRule['kind'];
+  matchType: RuleMatchType;
+  pattern: string;
+  minAmount: string;
+  maxAmount: string;
+  category: string; // Empty leaves the category alone
+  renameTo: string;
+  tags: string[];
+}
+
+const EMPTY_FORM: RuleFormState = { kind: 'expense', matchType: 'contains', pattern: '', minAmount: '', maxAmount: '', category: '', renameTo: '', tags: [] };
+
+const toFormState = (rule: CategoryRule): RuleFormState => ({
+  kind: rule.kind,
+  matchType: rule.matchType,
+  pattern: rule.pattern,
+  minAmount: rule.minAmount?.toString() ?? '',
+  maxAmount: rule.maxAmount?.toString() ?? '',
+  category: rule.category ?? '',
+  renameTo: rule.renameTo ?? '',
+  tags: rule.tags ?? [],
+});
+
+const RulesManager: React.FC<RulesManagerProps> = ({ rules, onRulesChange, expenses, onExpensesChange, categories, allTags, currencySymbol, onRecordAction }) => {
+  const [editingId, setEditingId] = useState<string | null>(null);
+  const [isAdding, setIsAdding] = useState(false);
+  const [form, setForm] = useState<RuleFormState>(EMPTY_FORM);
+  const [error, setError] = useState<string | null>(null);
+  const [previewChanges, setPreviewChanges] = useState<RuleChange[] | null>(null);
+
+  const categoriesForKind = useMemo(
+    () => categories.filter(c => getCategoryKind(c) === form.kind).map(c => c.name),
+    [categories, form.kind]
+  );
+
+  const isFormOpen = isAdding || editingId !== null;
+
+  const openForm = (rule?: CategoryRule) => {
+    setForm(rule ? toFormState(rule) : EMPTY_FORM);
+    setEditingId(rule?.id ?? null);
+    setIsAdding(!rule);
+    setError(null);
+    setPreviewChanges(null);
+  };
+
+  const closeForm = () => {
+    setEditingId(null);
+    setIsAdding(false);
+    setError(null);
+  };
+
+  const updateForm = (changes: Partial<RuleFormState>) => setForm(prev => ({ ...prev, ...changes }));
+
+  const validateForm = (): string | null => {
+    if (!form.pattern.trim()) return 'Enter the vendor text to match.';
+    if (!isValidRulePattern(form.matchType, form.pattern)) return 'That pattern is not a valid regular expression.';
+    const min = form.minAmount.trim() === '' ? undefined : parseFloat(form.minAmount);
+    const max = form.maxAmount.trim() === '' ? undefined : parseFloat(form.maxAmount);
+    if ((min !== undefined && (isNaN(min) || min < 0)) || (max !== undefined && (isNaN(max) || max < 0))) return 'Amounts must be positive numbers.';
+    if (min !== undefined && max !== undefined && min > max) return 'The minimum amount must not be above the maximum.';
+    if (!form.category && !form.renameTo.trim() && form.tags.length === 0) return 'Choose a category, a new vendor name or tags for matching transactions.';
+    return null;
+  };
+
+  const handleSave = () => {
+    const validationError = validateForm();
+    if (validationError) {
+      setError(validationError);
+      return;
+    }
+    const rule: CategoryRule = {
+      id: editingId ?? `rule-${generateTransactionId()}`,
+      kind: form.kind,
+      matchType: form.matchType,
+      pattern: form.pattern.trim(),
+      minAmount: form.minAmount.trim() === '' ? undefined : parseFloat(form.minAmount),
+      maxAmount: form.maxAmount.trim() === '' ? undefined : parseFloat(form.maxAmount),
+      category: form.category || undefined,
+      renameTo: form.renameTo.trim() || undefined,
+      tags: form.tags.length > 0 ? form.tags : undefined,
+    };
+    onRulesChange(editingId ? rules.map(r => r.id === editingId ? rule : r) : [...rules, rule]);
+    closeForm();
+  };
+
+  const handleDelete = (rule: CategoryRule) => {
+    if (window.confirm(`Delete the rule for "${rule.pattern}"? Transactions it already changed are kept as they are.`)) {
+      onRulesChange(rules.filter(r => r.id !== rule.id));
+    }
+  };
+
+  const moveRule = (index: number, offset: -1 | 1) => {
+    const target = index + offset;
+    if (target < 0 || target >= rules.length) return;
+    const reordered = [...rules];
+    [reordered[index], reordered[target]] = [reordered[target], reordered[index]];
+    onRulesChange(reordered);
+  };
+
+  const handlePreview = () => {
+    closeForm();
+    setPreviewChanges(previewRulesOnHistory(getActiveExpenses(expenses), rules));
+  };
+
+  const handleApply = () => {
+    if (!previewChanges || previewChanges.length === 0) return;
+    onRecordAction(`Applied rules to ${previewChanges.length} ${previewChanges.length === 1 ? 'transaction' : 'transactions'}`);
+    onExpensesChange(applyRuleChanges(expenses, previewChanges));
+    alert(`Updated ${previewChanges.length} ${previewChanges.length === 1 ? 'transaction' : 'transactions'}.`);
+    setPreviewChanges(null);
+  };
+
+  const renderForm = () => (
+    <div className="p-3 rounded-lg border border-indigo-200 bg-indigo-50/40 space-y-3">
+      <div className="grid grid-cols-2 gap-2">
+        <select value={form.kind} onChange={e => updateForm({ kind: e.target.value as CategoryRule['kind'], category: '' })} className="input-field" aria-label="Transaction type">
+          <option value="expense">Expenses</option>
+          <option value="income">Income</option>
+        </select>
+        <select value={form.matchType} onChange={e => updateForm({ matchType: e.target.value as RuleMatchType })} className="input-field" aria-label="How to match the vendor">
+          {(Object.keys(RULE_MATCH_LABELS) as RuleMatchType[]).map(type => <option key={type} value={type}>Vendor {RULE_MATCH_LABELS[type]}</option>)}
+        </select>
+        <input
+          type="text"
+          value={form.pattern}
+          onChange={e => updateForm({ pattern: e.target.value })}
+          className="col-span-2 input-field"
+          placeholder={form.matchType === 'regex' ? 'e.g. swiggy|zomato' : 'e.g. SWIGGY'}
+          aria-label="Vendor text to match"
+          autoFocus
+        />
+        <input type="number" min="0" step="0.01" value={form.minAmount} onChange={e => updateForm({ minAmount: e.target.value })} className="input-field" placeholder={`Min ${currencySymbol} (optional)`} aria-label="Minimum amount" />
+        <input type="number" min="0" step="0.01" value={form.maxAmount} onChange={e => updateForm({ maxAmount: e.target.value })} className="input-field" placeholder={`Max ${currencySymbol} (optional)`} aria-label="Maximum amount" />
+      </div>
+      <div className="space-y-2">
+        <p className="text-xs font-medium text-gray-600 uppercase">Then</p>
+        <select value={form.category} onChange={e => updateForm({ category: e.target.value })} className="w-full input-field" aria-label="Set category">
+          <option value="">Keep the category</option>
+          {categoriesForKind.map(cat => <option key={cat} value={cat}>Set category to {cat}</option>)}
+        </select>
+        <input type="text" value={form.renameTo} onChange={e => updateForm({ renameTo: e.target.value })} className="w-full input-field" placeholder="Rename vendor to (optional)" aria-label="Rename vendor to" />
+        <TagInput tags={form.tags} onChange={tags => updateForm({ tags })} suggestions={allTags} />
+      </div>
+      {error && <p className="text-red-500 text-sm">{error}</p>}
+      <div className="flex justify-end space-x-3">
+        <button onClick={closeForm} className="px-4 py-2 text-sm font-medium text-gray-700 bg-gray-100 rounded-md hover:bg-gray-200 transition-colors">Cancel</button>
+        <button onClick={handleSave} className="px-4 py-2 text-sm font-medium text-white bg-indigo-600 rounded-md hover:bg-indigo-700 flex items-center transition-colors">
+          <CheckIcon className="w-5 h-5 mr-1" />
+          Save Rule
+        </button>
+      </div>
+    </div>
+  );
+
+  const renderPreview = (changes: RuleChange[]) => (
+    <div className="bg-white p-4 rounded-xl shadow-md space-y-3 animate-fade-in">
+      <h2 className="text-lg font-semibold text-gray-800">Apply rules to history</h2>
+      {changes.length === 0 ? (
+        <p className="text-sm text-gray-500">Your existing transactions already follow every rule.</p>
+      ) : (
+        <>
+          <p className="text-sm text-gray-500">{changes.length} {changes.length === 1 ? 'transaction' : 'transactions'} would change:</p>
+          <ul className="divide-y divide-gray-200 max-h-96 overflow-y-auto">
+            {changes.map(change => {
+              const before = change.before[0];
+              const addedTags = (change.tags ?? []).filter(t => !(before.tags ?? []).some(old => old.toLowerCase() === t.toLowerCase()));
+              return (
+                <li key={change.transactionId} className="py-2 text-sm">
+                  <div className="flex justify-between">
+                    <span className="font-medium text-gray-800">
+                      {change.vendor !== before.vendor ? <><span className="line-through text-gray-400">{before.vendor}</span> {change.vendor}</> : before.vendor}
+                    </span>
+                    <span className="text-gray-500">{before.date}</span>
+                  </div>
+                  {change.category && <p className="text-gray-600">{before.category} → {change.category}</p>}
+                  {addedTags.length > 0 && <TagChips tags={addedTags} />}
+                </li>
+              );
+            })}
+          </ul>
+        </>
+      )}
+      <div className="flex justify-end space-x-3">
+        <button onClick={() => setPreviewChanges(null)} className="px-4 py-2 text-sm font-medium text-gray-700 bg-gray-100 rounded-md hover:bg-gray-200 transition-colors">
+          {changes.length === 0 ? 'Close' : 'Cancel'}
+        </button>
+        {changes.length > 0 && (
+          <button onClick={handleApply} className="px-4 py-2 text-sm font-medium text-white bg-indigo-600 rounded-md hover:bg-indigo-700 flex items-center transition-colors">
+            <CheckIcon className="w-5 h-5 mr-1" />
+            Apply {changes.length}
+          </button>
+        )}
+      </div>
+    </div>
+  );
+
+  return (
+    <div className="space-y-4">
+      <div className="bg-white p-4 rounded-xl shadow-md space-y-3">
+        <p className="text-sm text-gray-500">
+          Rules run in order on parsed messages and imports, and the first one that matches is used. They take priority over the AI's suggestions.
+        </p>
+        {rules.length === 0 && !isAdding && <p className="text-center text-gray-500 py-4">No rules yet.</p>}
+        <ul className="space-y-2">
+          {rules.map((rule, index) => (
+            <li key={rule.id}>
+              {editingId === rule.id ? renderForm() : (
+                <div className="flex items-start justify-between space-x-2 p-3 rounded-lg border border-gray-200">
+                  <div className="min-w-0">
+                    <p className="text-sm font-medium text-gray-800">{describeRule(rule, currencySymbol)}</p>
+                    <p className="text-sm text-gray-600">
+                      {[rule.category && `Category: ${rule.category}`, rule.renameTo && `Rename to: ${rule.renameTo}`].filter(Boolean).join(' · ')}
+                    </p>
+                    {rule.tags && <TagChips tags={rule.tags} />}
+                  </div>
+                  <div className="flex items-center flex-shrink-0">
+                    <button onClick={() => moveRule(index, -1)} disabled={index === 0} className="p-1 text-gray-400 hover:text-indigo-500 disabled:opacity-30" aria-label="Move rule up"><ChevronUpIcon className="w-5 h-5" /></button>
+                    <button onClick={() => moveRule(index, 1)} disabled={index === rules.length - 1} className="p-1 text-gray-400 hover:text-indigo-500 disabled:opacity-30" aria-label="Move rule down"><ChevronDownIcon className="w-5 h-5" /></button>
+                    <button onClick={() => openForm(rule)} className="p-1 text-gray-400 hover:text-indigo-500 transition-colors" aria-label={`Edit rule for ${rule.pattern}`}><PencilIcon className="w-5 h-5" /></button>
+                    <button onClick={() => handleDelete(rule)} className="p-1 text-gray-400 hover:text-red-500 transition-colors" aria-label={`Delete rule for ${rule.pattern}`}><TrashIcon className="w-5 h-5" /></button>
+                  </div>
+                </div>
+              )}
+            </li>
+          ))}
+        </ul>
+        {isAdding && renderForm()}
+        {!isFormOpen && (
+          <div className="grid grid-cols-2 gap-2">
+            <button onClick={() => openForm()} className="flex items-center justify-center px-4 py-2 text-sm font-medium text-indigo-700 bg-indigo-100 rounded-md hover:bg-indigo-200 transition-colors">
+              <PlusIcon className="w-5 h-5 mr-1" />
+              Add Rule
+            </button>
+            <button onClick={handlePreview} disabled={rules.length === 0} className="flex items-center justify-center px-4 py-2 text-sm font-medium text-gray-700 bg-gray-100 rounded-md hover:bg-gray-200 disabled:opacity-50 disabled:cursor-not-allowed transition-colors">
+              <ArrowPathIcon className="w-5 h-5 mr-1" />
+              Apply to History
+            </button>
+          </div>
+        )}
+      </div>
+      {previewChanges && renderPreview(previewChanges)}
+    </div>
+  );
+};
+
+export default RulesManager;
@@ -1,18 +1,140 @@
 
-import React, { useState, useMemo, useRef } from 'react';
-import type { Currency, Expense, CustomCategory, CategoryDefinition } from '../types';
+import React, { useState, useMemo, useRef, useEffect } from 'react';
+import type { RecordUndoableAction, UndoHistory } from '../utils/undoHistory';
+import type { Currency, Expense, CategoryDefinition, RecurringTransaction, ExchangeRates, TransactionInput, AiExample, CategoryRule, Merchant, Account, Contact } from '../types';
 import { CURRENCIES } from '../currencies';
-import { SearchIcon, CheckIcon, DownloadIcon, UploadIcon, ChevronLeftIcon, BanknotesIcon, TagIcon, ChevronRightIcon } from './Icons';
+import { SearchIcon, CheckIcon, DownloadIcon, UploadIcon, ChevronLeftIcon, BanknotesIcon, TagIcon, ChevronRightIcon, ArrowPathIcon, TrendingUpIcon, DocumentTextIcon, DocumentDuplicateIcon, SparklesIcon, CollectionIcon, CalendarIcon, TrashIcon, UsersIcon } from './Icons';
 import CategoryManager from './CategoryManager';
-import { CATEGORIES, CATEGORY_COLORS } from '../constants';
+import Subscriptions from './Subscriptions';
+import CsvExport from './CsvExport';
+import CsvImport from './CsvImport';
+import StatementImport from './StatementImport';
+import TagManager from './TagManager';
+import TeachAi from './TeachAi';
+import RulesManager from './RulesManager';
+import MerchantDirectory from './MerchantDirectory';
+import HistoryPanel from './HistoryPanel';
+import Trash from './Trash';
+import BackupMerge from './BackupMerge';
+import DuplicateFinder from './DuplicateFinder';
+import AccountsManager from './AccountsManager';
+import PeopleManager from './PeopleManager';
+import { CATEGORIES, CATEGORY_COLORS, INCOME_CATEGORIES, INCOME_CATEGORY_COLORS, TRANSFER_CATEGORY } from '../constants';
+import { getCategoryKind } from '../utils/transactionUtils';
+import { rebaseToCurrency } from '../utils/currencyUtils';
+import { downloadTextFile } from '../utils/fileUtils';
+import { getActiveExpenses, getTrashedTransactions } from '../utils/trash';
+import { applyBackupMerge, planBackupMerge, type MergePlan, type MergeSide } from '../utils/backupMerge';
+import type { SettingsView } from '../utils/routes';
+import { decryptBackup, encryptBackup, isEncryptedBackup, MIN_PASSPHRASE_LENGTH, type EncryptedBackup } from '../utils/backupCrypto';
+import { isAccount, isBackupExpense, isCategory, isCategoryRule, isContact, isCurrency, isExchangeRates, isMerchant, isRecord, isRecurringTransaction } from '../utils/backupValidation';
+
+// Backups from before version 4 have no income categories, so restore the defaults alongside them.
+const withIncomeCategories = (categories: CategoryDefinition[]): CategoryDefinition[] => {
+  if (categories.some(c => getCategoryKind(c) === 'income')) return categories;
+  const existingNames = new Set(categories.map(c => c.name.toLowerCase()));
+  const incomeDefaults = INCOME_CATEGORIES
+    .filter(name => !existingNames.has(name.toLowerCase()))
+    .map(name => ({ name, color: INCOME_CATEGORY_COLORS[name], isDefault: true, kind: 'income' as const }));
+  return [...categories, ...incomeDefaults];
+};
+
+interface BackupContents {
+  expenses: Expense[];
+  currency: Currency;
+  categories?: CategoryDefinition[];
+  exchangeRates?: ExchangeRates;
+  recurringTransactions?: RecurringTransaction[];
+  rules?: CategoryRule[];
+  merchants?: Merchant[];
+  accounts?: Account[];
+  contacts?: Contact[];
+}
+
+const invalidBackup = () => new Error("Invalid backup file format.");
+
+// A part of the backup that older versions may not have. When present, every record must be valid.
+const readSection = <T,>(value: unknown, isValid: (item: unknown) => item is T): T[] | undefined => {
+  if (value === undefined || value === null) return undefined;
+  if (!Array.isArray(value) || !value.every(isValid)) throw invalidBackup();
+  return value;
+};
+
+// Reads a parsed (and, if needed, decrypted) backup of any version into the current shapes.
+// Throws if it isn't a backup or any part of it is malformed. Parts missing from older versions
+// are left undefined.
+const readBackup = (parsedData: unknown): BackupContents => {
+  if (!isRecord(parsedData) || !isCurrency(parsedData.currency)) {
+     throw invalidBackup();
+  }
+  const backupExpenses = readSection(parsedData.expenses, isBackupExpense);
+  if (!backupExpenses) throw invalidBackup();
+
+  // Backups from before version 3 have no transaction ids
+  const expenses = backupExpenses.map(exp => ({ ...exp, transactionId: exp.transactionId || exp.id }));
+
+  let categories: CategoryDefinition[] | undefined;
+  const backupCategories = readSection(parsedData.categories, isCategory);
+  const customCategories = readSection(parsedData.customCategories, isCategory);
+  if (backupCategories) {
+    categories = withIncomeCategories(backupCategories.map(c => ({ ...c, isDefault: c.isDefault === true })));
+  } else if (customCategories) { // Backward compatibility for v1 backups
+    const defaults = CATEGORIES.map(name => ({ name, color: CATEGORY_COLORS[name as keyof typeof CATEGORY_COLORS], isDefault: true }));
+    const defaultNames = new Set(defaults.map(d => d.name));
+    const newCustom = customCategories
+        .filter(c => !defaultNames.has(c.name))
+        .map(c => ({...c, isDefault: false}));
+    categories = withIncomeCategories([...defaults, ...newCustom]);
+  }
+
+  const { exchangeRates } = parsedData;
+  if (exchangeRates !== undefined && exchangeRates !== null && !isExchangeRates(exchangeRates)) throw invalidBackup();
+
+  return {
+    expenses,
+    currency: parsedData.currency,
+    categories,
+    exchangeRates: exchangeRates ?? undefined,
+    recurringTransactions: readSection(parsedData.recurringTransactions, isRecurringTransaction),
+    rules: readSection(parsedData.rules, isCategoryRule),
+    merchants: readSection(parsedData.merchants, isMerchant),
+    accounts: readSection(parsedData.accounts, isAccount),
+    contacts: readSection(parsedData.contacts, isContact),
+  };
+};
 
 interface SettingsProps {
+  view: SettingsView;
+  onViewChange: (view: SettingsView) => void;
   selectedCurrency: Currency;
   onCurrencyChange: (currency: Currency) => void;
   expenses: Expense[];
   onExpensesChange: (expenses: Expense[]) => void;
   categories: CategoryDefinition[];
   onCategoriesChange: (categories: CategoryDefinition[]) => void;
+  recurringTransactions: RecurringTransaction[];
+  onRecurringTransactionsChange: (recurringTransactions: RecurringTransaction[]) => void;
+  exchangeRates: ExchangeRates;
+  onExchangeRatesChange: (rates: ExchangeRates) => void;
+  onImportTransactions: (transactions: TransactionInput[]) => void;
+  aiExamples: AiExample[];
+  onAiExamplesChange: (examples: AiExample[]) => void;
+  rules: CategoryRule[];
+  onRulesChange: (rules: CategoryRule[]) => void;
+  allTags: string[];
+  merchants: Merchant[];
+  onMerchantsChange: (merchants: Merchant[]) => void;
+  onRecordAction: RecordUndoableAction;
+  undoHistory: UndoHistory;
+  onUndo: () => void;
+  onRedo: () => void;
+  trashRetentionDays: number;
+  onTrashRetentionDaysChange: (days: number) => void;
+  accounts: Account[];
+  onAccountsChange: (accounts: Account[]) => void;
+  contacts: Contact[];
+  onContactsChange: (contacts: Contact[]) => void;
+  onSettleUp: (transaction: TransactionInput) => void;
 }
 
 const SettingsTile: React.FC<{
@@ -39,17 +161,53 @@ const SettingsTile: React.FC<{
 
 const Settings: React.FC<SettingsProps> = (props) => {
   const { 
+    view,
+    onViewChange,
     selectedCurrency, 
     onCurrencyChange, 
     expenses, 
     onExpensesChange,
     categories,
-    onCategoriesChange
+    onCategoriesChange,
+    recurringTransactions,
+    onRecurringTransactionsChange,
+    exchangeRates,
+    onExchangeRatesChange,
+    onImportTransactions,
+    aiExamples,
+    onAiExamplesChange,
+    rules,
+    onRulesChange,
+    allTags,
+    merchants,
+    onMerchantsChange,
+    onRecordAction,
+    undoHistory,
+    onUndo,
+    onRedo,
+    trashRetentionDays,
+    onTrashRetentionDaysChange,
+    accounts,
+    onAccountsChange,
+    contacts,
+    onContactsChange,
+    onSettleUp
   } = props;
 
-  const [view, setView] = useState<'main' | 'currency' | 'categories'>('main');
   const [searchTerm, setSearchTerm] = useState('');
+  const [pendingBaseCurrency, setPendingBaseCurrency] = useState<Currency | null>(null);
+  const [rateDrafts, setRateDrafts] = useState<Record<string, string>>({});
   const fileInputRef = useRef<HTMLInputElement>(null);
+  const [encryptBackups, setEncryptBackups] = useState(false);
+  const [backupPassphrase, setBackupPassphrase] = useState('');
+  const [backupPassphraseConfirm, setBackupPassphraseConfirm] = useState('');
+  const [pendingEncryptedBackup, setPendingEncryptedBackup] = useState<EncryptedBackup | null>(null);
+  const [restorePassphrase, setRestorePassphrase] = useState('');
+  const [isCryptoBusy, setIsCryptoBusy] = useState(false);
+  const [pendingRestore, setPendingRestore] = useState<BackupContents | null>(null);
+  const [pendingMerge, setPendingMerge] = useState<MergePlan | null>(null);
+  const activeExpenses = useMemo(() => getActiveExpenses(expenses), [expenses]);
+  const trashedCount = useMemo(() => getTrashedTransactions(expenses).length, [expenses]);
 
   const filteredCurrencies = useMemo(() => {
     const lowercasedTerm = searchTerm.toLowerCase();
@@ -63,28 +221,98 @@ const Settings: React.FC<SettingsProps> = (props) => {
     );
   }, [searchTerm]);
 
-  const handleBackup = () => {
+  const handleCurrencySelect = (currency: Currency) => {
+    if (currency.code === selectedCurrency.code) return;
+    // With no history, amount rules or opening balances there's nothing to convert, so just switch.
+    const hasAmountRules = rules.some(rule => rule.minAmount !== undefined || rule.maxAmount !== undefined);
+    const hasOpeningBalances = accounts.some(account => account.openingBalance !== 0);
+    if (expenses.length === 0 && recurringTransactions.length === 0 && !hasAmountRules && !hasOpeningBalances) {
+      onCurrencyChange(currency);
+      return;
+    }
+    setPendingBaseCurrency(currency);
+  };
+
+  const handleConvertHistory = () => {
+    if (!pendingBaseCurrency) return;
+    const rebased = rebaseToCurrency({ expenses, categories, recurringTransactions, rules, accounts }, selectedCurrency.code, pendingBaseCurrency.code, exchangeRates);
+    if (!rebased) return;
+    onRecordAction(`Converted history to ${pendingBaseCurrency.code}`);
+    onExpensesChange(rebased.expenses);
+    onCategoriesChange(rebased.categories);
+    onRecurringTransactionsChange(rebased.recurringTransactions);
+    onRulesChange(rebased.rules);
+    onAccountsChange(rebased.accounts);
+    onExchangeRatesChange(rebased.rates);
+    onCurrencyChange(pendingBaseCurrency);
+    setPendingBaseCurrency(null);
+  };
+
+  const handleRelabelCurrency = () => {
+    if (!pendingBaseCurrency) return;
+    onRecordAction(`Changed currency to ${pendingBaseCurrency.code}`);
+    onCurrencyChange(pendingBaseCurrency);
+    setPendingBaseCurrency(null);
+  };
+
+  // Drafts are seeded on entering the view, including from a link, so typing a partial rate isn't overwritten.
+  useEffect(() => {
+    if (view === 'rates') {
+      setRateDrafts(Object.fromEntries(Object.entries(exchangeRates).map(([code, rate]) => [code, rate.toString()])));
+    }
+  }, [view]);
+
+  const handleRateChange = (code: string, value: string) => {
+    setRateDrafts(prev => ({ ...prev, [code]: value }));
+    const rate = parseFloat(value);
+    if (value.trim() === '') {
+      const { [code]: _removed, ...rest } = exchangeRates;
+      onExchangeRatesChange(rest);
+    } else if (!isNaN(rate) && rate > 0) {
+      onExchangeRatesChange({ ...exchangeRates, [code]: rate });
+    }
+  };
+
+  const handleBackup = async () => {
+    if (encryptBackups) {
+      if (backupPassphrase.length < MIN_PASSPHRASE_LENGTH) {
+        alert(`Use a passphrase of at least ${MIN_PASSPHRASE_LENGTH} characters.`);
+        return;
+      }
+      if (backupPassphrase !== backupPassphraseConfirm) {
+        alert("The passphrases don't match.");
+        return;
+      }
+    }
     try {
       const dataToBackup = {
-        version: 3, // Version incremented for split expense support
+        version: 8, // Version incremented for contacts and shared expenses
         expenses,
         currency: selectedCurrency,
         categories,
+        recurringTransactions,
+        exchangeRates,
+        rules,
+        merchants,
+        accounts,
+        contacts,
       };
       const jsonString = JSON.stringify(dataToBackup, null, 2);
-      const blob = new Blob([jsonString], { type: 'application/json' });
-      const url = URL.createObjectURL(blob);
-      const link = document.createElement('a');
       const date = new Date().toISOString().slice(0, 10);
-      link.download = `sparc-expenses-backup-${date}.json`;
-      link.href = url;
-      document.body.appendChild(link);
-      link.click();
-      document.body.removeChild(link);
-      URL.revokeObjectURL(url);
+      if (encryptBackups) {
+        setIsCryptoBusy(true);
+        const envelope = await encryptBackup(jsonString, backupPassphrase);
+        downloadTextFile(JSON.stringify(envelope), `sparc-expenses-backup-${date}.encrypted.json`, 'application/json');
+        setBackupPassphrase('');
+        setBackupPassphraseConfirm('');
+      } else {
+        downloadTextFile(jsonString, `sparc-expenses-backup-${date}.json`, 'application/json');
+      }
     } catch (error) {
       console.error("Failed to create backup:", error);
       alert("An error occurred while creating the backup file.");
+    } finally {
+      setIsCryptoBusy(false);
     }
   };
 
@@ -92,6 +320,60 @@ const Settings: React.FC<SettingsProps> = (props) => {
     fileInputRef.current?.click();
   };
 
+  const replaceWithBackup = (backup: BackupContents) => {
+    if (!window.confirm("Are you sure you want to restore? This will overwrite all your current data.")) return;
+    onRecordAction('Restored backup', { destructive: true });
+    onExpensesChange(backup.expenses);
+    onCurrencyChange(backup.currency);
+    if (backup.categories) onCategoriesChange(backup.categories);
+    if (backup.exchangeRates) onExchangeRatesChange(backup.exchangeRates);
+    if (backup.recurringTransactions) onRecurringTransactionsChange(backup.recurringTransactions);
+    if (backup.rules) onRulesChange(backup.rules);
+    if (backup.merchants) onMerchantsChange(backup.merchants);
+    if (backup.accounts) onAccountsChange(backup.accounts);
+    if (backup.contacts) onContactsChange(backup.contacts);
+    setPendingRestore(null);
+    alert("Data restored successfully!");
+  };
+
+  const handleStartMerge = (backup: BackupContents) => {
+    // Amounts are stored in the base currency, so they can only be combined when both sides share it.
+    if (backup.currency.code !== selectedCurrency.code) {
+      alert(`This backup is in ${backup.currency.code} but your data is in ${selectedCurrency.code}. Change the currency here to ${backup.currency.code} (converting your history), then merge again.`);
+      return;
+    }
+    const plan = planBackupMerge(
+      { expenses, categories, recurringTransactions, rules, merchants, accounts, contacts },
+      {
+        expenses: backup.expenses,
+        categories: backup.categories ?? [],
+        recurringTransactions: backup.recurringTransactions ?? [],
+        rules: backup.rules ?? [],
+        merchants: backup.merchants ?? [],
+        accounts: backup.accounts ?? [],
+        contacts: backup.contacts ?? [],
+      }
+    );
+    setPendingRestore(null);
+    setPendingMerge(plan);
+    onViewChange('merge');
+  };
+
+  const handleCommitMerge = (resolutions: Record<string, MergeSide>) => {
+    if (!pendingMerge) return;
+    const merged = applyBackupMerge({ expenses, categories, recurringTransactions, rules, merchants, accounts, contacts }, pendingMerge, resolutions);
+    onRecordAction('Merged backup', { destructive: true });
+    onExpensesChange(merged.expenses);
+    onCategoriesChange(merged.categories);
+    onRecurringTransactionsChange(merged.recurringTransactions);
+    onRulesChange(merged.rules);
+    onMerchantsChange(merged.merchants);
+    onAccountsChange(merged.accounts);
+    onContactsChange(merged.contacts);
+    setPendingMerge(null);
+    onViewChange('main');
+  };
+
   const handleFileSelect = (event: React.ChangeEvent<HTMLInputElement>) => {
     const file = event.target.files?.[0];
     if (!file) return;
@@ -103,37 +385,13 @@ const Settings: React.FC<SettingsProps> = (props) => {
         if (typeof text !== 'string') throw new Error("File content is not readable text.");
         
         const parsedData = JSON.parse(text);
-        if (!parsedData || !Array.isArray(parsedData.expenses) || !parsedData.currency?.code) {
-           throw new Error("Invalid backup file format.");
-        }
-
-        if (window.confirm("Are you sure you want to restore? This will overwrite all your current data.")) {
-          let expensesToRestore = parsedData.expenses as Expense[];
-          
-          // Migration for older backup versions
-          if (!parsedData.version || parsedData.version < 3) {
-             expensesToRestore = expensesToRestore.map(exp => ({
-                ...exp,
-                transactionId: exp.transactionId || exp.id // Add transactionId if missing
-             }));
-          }
-          
-          onExpensesChange(expensesToRestore);
-          onCurrencyChange(parsedData.currency);
-          
-          if (parsedData.categories) {
-            onCategoriesChange(parsedData.categories);
-          } else if (parsedData.customCategories) { // Backward compatibility for v1 backups
-            const defaults = CATEGORIES.map(name => ({ name, color: CATEGORY_COLORS[name as keyof typeof CATEGORY_COLORS], isDefault: true }));
-            const defaultNames = new Set(defaults.map(d => d.name));
-            const newCustom = (parsedData.customCategories as CustomCategory[])
-                .filter(c => !defaultNames.has(c.name))
-                .map(c => ({...c, isDefault: false}));
-            onCategoriesChange([...defaults, ...newCustom]);
-          }
-
-          alert("Data restored successfully!");
+        if (isEncryptedBackup(parsedData)) {
+          // Ask for the passphrase before anything is overwritten.
+          setPendingEncryptedBackup(parsedData);
+          setRestorePassphrase('');
+          return;
         }
+        setPendingRestore(readBackup(parsedData));
       } catch (error) {
         console.error("Failed to restore data:", error);
         alert(`Failed to restore data. Please make sure you select a valid backup file.\nError: ${(error as Error).message}`);
@@ -148,7 +406,34 @@ const Settings: React.FC<SettingsProps> = (props) => {
     reader.readAsText(file);
   };
 
-  const handleBack = () => setView('main');
+  const handleDecryptRestore = async () => {
+    if (!pendingEncryptedBackup) return;
+    setIsCryptoBusy(true);
+    try {
+      const text = await decryptBackup(pendingEncryptedBackup, restorePassphrase);
+      setPendingEncryptedBackup(null);
+      setPendingRestore(readBackup(JSON.parse(text)));
+    } catch (error) {
+      console.error("Failed to restore data:", error);
+      alert(`Failed to restore data.\nError: ${(error as Error).message}`);
+    } finally {
+      setIsCryptoBusy(false);
+      setRestorePassphrase('');
+    }
+  };
+
+  const handleCsvImport = (transactions: TransactionInput[], newCategories: CategoryDefinition[]) => {
+    if (newCategories.length > 0) {
+      onCategoriesChange([...categories, ...newCategories]);
+    }
+    onImportTransactions(transactions);
+  };
+
+  const handleBack = () => {
+    setPendingBaseCurrency(null);
+    setPendingMerge(null);
+    onViewChange('main');
+  };
 
   if (view === 'currency') {
     return (
@@ -163,6 +448,32 @@ const Settings: React.FC<SettingsProps> = (props) => {
           </button>
           <h1 className="text-xl font-bold text-gray-900 ml-2">Currency</h1>
         </header>
+        {pendingBaseCurrency && (
+          <div className="bg-indigo-50 p-4 rounded-xl shadow-md animate-fade-in" role="alertdialog" aria-labelledby="rebase-title">
+            <h2 id="rebase-title" className="text-lg font-semibold text-gray-800">Switch to {pendingBaseCurrency.name}?</h2>
+            <p className="text-sm text-gray-600 mt-1">
+              Your existing amounts are in {selectedCurrency.code}. Convert them to {pendingBaseCurrency.code} using your exchange rates, or keep the numbers and only change the currency label.
+            </p>
+            {!exchangeRates[pendingBaseCurrency.code] && (
+              <p className="text-sm text-red-600 mt-2">Add an exchange rate for {pendingBaseCurrency.code} in Exchange Rates to convert your history.</p>
+            )}
+            <div className="flex flex-col sm:flex-row mt-3 space-y-2 sm:space-y-0 sm:space-x-2">
+              <button
+                onClick={handleConvertHistory}
+                disabled={!exchangeRates[pendingBaseCurrency.code]}
+                className="flex-1 px-4 py-2 text-sm font-medium text-white bg-indigo-600 rounded-md hover:bg-indigo-700 disabled:bg-indigo-300 disabled:cursor-not-allowed transition-colors"
+              >
+                Convert History
+              </button>
+              <button onClick={handleRelabelCurrency} className="flex-1 px-4 py-2 text-sm font-medium text-indigo-700 bg-indigo-100 rounded-md hover:bg-indigo-200 transition-colors">
+                Only Relabel
+              </button>
+              <button onClick={() => setPendingBaseCurrency(null)} className="flex-1 px-4 py-2 text-sm font-medium text-gray-700 bg-gray-100 rounded-md hover:bg-gray-200 transition-colors">
+                Cancel
+              </button>
+            </div>
+          </div>
+        )}
         <div className="bg-white p-4 rounded-xl shadow-md">
           <div className="relative mb-4">
             <div className="pointer-events-none absolute inset-y-0 left-0 flex items-center pl-3">
@@ -183,7 +494,7 @@ const Settings: React.FC<SettingsProps> = (props) => {
                 filteredCurrencies.map((currency) => (
                   <li key={currency.code}>
                     <button
-                      onClick={() => onCurrencyChange(currency)}
+                      onClick={() => handleCurrencySelect(currency)}
                       className="w-full flex justify-between items-center p-3 text-left hover:bg-gray-50 transition-colors"
                       aria-pressed={selectedCurrency.code === currency.code}
                     >
@@ -223,7 +534,377 @@ const Settings: React.FC<SettingsProps> = (props) => {
           </button>
           <h1 className="text-xl font-bold text-gray-900 ml-2">Manage Categories</h1>
         </header>
-        <CategoryManager {...props} />
+        <CategoryManager {...props} currencySymbol={selectedCurrency.symbol} />
+      </div>
+    );
+  }
+
+  if (view === 'tags') {
+    return (
+      <div className="space-y-4 animate-fade-in">
+        <header className="flex items-center">
+          <button
+            onClick={handleBack}
+            className="p-2 -ml-2 text-gray-500 hover:text-indigo-600 hover:bg-indigo-50 rounded-full transition-colors"
+            aria-label="Back to settings"
+          >
+            <ChevronLeftIcon className="w-7 h-7" />
+          </button>
+          <h1 className="text-xl font-bold text-gray-900 ml-2">Manage Tags</h1>
+        </header>
+        <TagManager
+          expenses={expenses}
+          onExpensesChange={onExpensesChange}
+          recurringTransactions={recurringTransactions}
+          onRecurringTransactionsChange={onRecurringTransactionsChange}
+          rules={rules}
+          onRulesChange={onRulesChange}
+          onRecordAction={onRecordAction}
+        />
+      </div>
+    );
+  }
+
+  if (view === 'rules') {
+    return (
+      <div className="space-y-4 animate-fade-in">
+        <header className="flex items-center">
+          <button
+            onClick={handleBack}
+            className="p-2 -ml-2 text-gray-500 hover:text-indigo-600 hover:bg-indigo-50 rounded-full transition-colors"
+            aria-label="Back to settings"
+          >
+            <ChevronLeftIcon className="w-7 h-7" />
+          </button>
+          <h1 className="text-xl font-bold text-gray-900 ml-2">Rules</h1>
+        </header>
+        <RulesManager
+          rules={rules}
+          onRulesChange={onRulesChange}
+          expenses={expenses}
+          onExpensesChange={onExpensesChange}
+          categories={categories}
+          allTags={allTags}
+          currencySymbol={selectedCurrency.symbol}
+          onRecordAction={onRecordAction}
+        />
+      </div>
+    );
+  }
+
+  if (view === 'merchants') {
+    return (
+      <div className="space-y-4 animate-fade-in">
+        <header className="flex items-center">
+          <button
+            onClick={handleBack}
+            className="p-2 -ml-2 text-gray-500 hover:text-indigo-600 hover:bg-indigo-50 rounded-full transition-colors"
+            aria-label="Back to settings"
+          >
+            <ChevronLeftIcon className="w-7 h-7" />
+          </button>
+          <h1 className="text-xl font-bold text-gray-900 ml-2">Merchants</h1>
+        </header>
+        <MerchantDirectory
+          merchants={merchants}
+          onMerchantsChange={onMerchantsChange}
+          expenses={expenses}
+          onExpensesChange={onExpensesChange}
+          onRecordAction={onRecordAction}
+        />
+      </div>
+    );
+  }
+
+  if (view === 'history') {
+    return (
+      <div className="space-y-4 animate-fade-in">
+        <header className="flex items-center">
+          <button
+            onClick={handleBack}
+            className="p-2 -ml-2 text-gray-500 hover:text-indigo-600 hover:bg-indigo-50 rounded-full transition-colors"
+            aria-label="Back to settings"
+          >
+            <ChevronLeftIcon className="w-7 h-7" />
+          </button>
+          <h1 className="text-xl font-bold text-gray-900 ml-2">History</h1>
+        </header>
+        <HistoryPanel history={undoHistory} onUndo={onUndo} onRedo={onRedo} />
+      </div>
+    );
+  }
+
+  if (view === 'merge' && pendingMerge) {
+    return (
+      <div className="space-y-4 animate-fade-in">
+        <header className="flex items-center">
+          <button
+            onClick={handleBack}
+            className="p-2 -ml-2 text-gray-500 hover:text-indigo-600 hover:bg-indigo-50 rounded-full transition-colors"
+            aria-label="Back to settings"
+          >
+            <ChevronLeftIcon className="w-7 h-7" />
+          </button>
+          <h1 className="text-xl font-bold text-gray-900 ml-2">Merge Backup</h1>
+        </header>
+        <BackupMerge plan={pendingMerge} currencySymbol={selectedCurrency.symbol} onCommit={handleCommitMerge} onCancel={handleBack} />
+      </div>
+    );
+  }
+
+  if (view === 'duplicates') {
+    return (
+      <div className="space-y-4 animate-fade-in">
+        <header className="flex items-center">
+          <button
+            onClick={handleBack}
+            className="p-2 -ml-2 text-gray-500 hover:text-indigo-600 hover:bg-indigo-50 rounded-full transition-colors"
+            aria-label="Back to settings"
+          >
+            <ChevronLeftIcon className="w-7 h-7" />
+          </button>
+          <h1 className="text-xl font-bold text-gray-900 ml-2">Find Duplicates</h1>
+        </header>
+        <DuplicateFinder
+          expenses={expenses}
+          onExpensesChange={onExpensesChange}
+          currencySymbol={selectedCurrency.symbol}
+          onRecordAction={onRecordAction}
+        />
+      </div>
+    );
+  }
+
+  if (view === 'accounts') {
+    return (
+      <div className="space-y-4 animate-fade-in">
+        <header className="flex items-center">
+          <button
+            onClick={handleBack}
+            className="p-2 -ml-2 text-gray-500 hover:text-indigo-600 hover:bg-indigo-50 rounded-full transition-colors"
+            aria-label="Back to settings"
+          >
+            <ChevronLeftIcon className="w-7 h-7" />
+          </button>
+          <h1 className="text-xl font-bold text-gray-900 ml-2">Accounts</h1>
+        </header>
+        <AccountsManager
+          accounts={accounts}
+          onAccountsChange={onAccountsChange}
+          expenses={expenses}
+          onExpensesChange={onExpensesChange}
+          recurringTransactions={recurringTransactions}
+          onRecurringTransactionsChange={onRecurringTransactionsChange}
+          currencySymbol={selectedCurrency.symbol}
+          onRecordAction={onRecordAction}
+        />
+      </div>
+    );
+  }
+
+  if (view === 'people') {
+    return (
+      <div className="space-y-4 animate-fade-in">
+        <header className="flex items-center">
+          <button
+            onClick={handleBack}
+            className="p-2 -ml-2 text-gray-500 hover:text-indigo-600 hover:bg-indigo-50 rounded-full transition-colors"
+            aria-label="Back to settings"
+          >
+            <ChevronLeftIcon className="w-7 h-7" />
+          </button>
+          <h1 className="text-xl font-bold text-gray-900 ml-2">People & Balances</h1>
+        </header>
+        <PeopleManager
+          contacts={contacts}
+          onContactsChange={onContactsChange}
+          expenses={expenses}
+          accounts={accounts}
+          onSettleUp={onSettleUp}
+          currencySymbol={selectedCurrency.symbol}
+          onRecordAction={onRecordAction}
+        />
+      </div>
+    );
+  }
+
+  if (view === 'trash') {
+    return (
+      <div className="space-y-4 animate-fade-in">
+        <header className="flex items-center">
+          <button
+            onClick={handleBack}
+            className="p-2 -ml-2 text-gray-500 hover:text-indigo-600 hover:bg-indigo-50 rounded-full transition-colors"
+            aria-label="Back to settings"
+          >
+            <ChevronLeftIcon className="w-7 h-7" />
+          </button>
+          <h1 className="text-xl font-bold text-gray-900 ml-2">Trash</h1>
+        </header>
+        <Trash
+          expenses={expenses}
+          onExpensesChange={onExpensesChange}
+          retentionDays={trashRetentionDays}
+          onRetentionDaysChange={onTrashRetentionDaysChange}
+          currencySymbol={selectedCurrency.symbol}
+          onRecordAction={onRecordAction}
+        />
+      </div>
+    );
+  }
+
+  if (view === 'teach') {
+    return (
+      <div className="space-y-4 animate-fade-in">
+        <header className="flex items-center">
+          <button
+            onClick={handleBack}
+            className="p-2 -ml-2 text-gray-500 hover:text-indigo-600 hover:bg-indigo-50 rounded-full transition-colors"
+            aria-label="Back to settings"
+          >
+            <ChevronLeftIcon className="w-7 h-7" />
+          </button>
+          <h1 className="text-xl font-bold text-gray-900 ml-2">Teach the AI</h1>
+        </header>
+        <TeachAi
+          examples={aiExamples}
+          onExamplesChange={onAiExamplesChange}
+          allCategories={categories.filter(c => getCategoryKind(c) === 'expense').map(c => c.name)}
+          allIncomeCategories={categories.filter(c => getCategoryKind(c) === 'income').map(c => c.name)}
+        />
+      </div>
+    );
+  }
+
+  if (view === 'rates') {
+    return (
+      <div className="space-y-4 animate-fade-in">
+        <header className="flex items-center">
+          <button
+            onClick={handleBack}
+            className="p-2 -ml-2 text-gray-500 hover:text-indigo-600 hover:bg-indigo-50 rounded-full transition-colors"
+            aria-label="Back to settings"
+          >
+            <ChevronLeftIcon className="w-7 h-7" />
+          </button>
+          <h1 className="text-xl font-bold text-gray-900 ml-2">Exchange Rates</h1>
+        </header>
+        <div className="bg-white p-4 rounded-xl shadow-md">
+          <p className="text-sm text-gray-500 mb-4">
+            Foreign-currency transactions are converted to {selectedCurrency.code} with these rates when you save them. Leave a rate empty if you don't use that currency.
+          </p>
+          <ul className="divide-y divide-gray-200">
+            {CURRENCIES.filter(c => c.code !== selectedCurrency.code).map(currency => (
+              <li key={currency.code} className="flex items-center justify-between py-2">
+                <label htmlFor={`rate-${currency.code}`} className="text-sm text-gray-700">
+                  1 {currency.code} <span className="text-gray-400">({currency.name})</span> =
+                </label>
+                <div className="flex items-center space-x-2">
+                  <input
+                    id={`rate-${currency.code}`}
+                    type="number"
+                    min="0"
+                    step="any"
+                    value={rateDrafts[currency.code] ?? ''}
+                    onChange={e => handleRateChange(currency.code, e.target.value)}
+                    className="w-28 input-field"
+                    placeholder="—"
+                  />
+                  <span className="text-sm text-gray-500">{selectedCurrency.code}</span>
+                </div>
+              </li>
+            ))}
+          </ul>
+        </div>
+      </div>
+    );
+  }
+
+  if (view === 'export') {
+    return (
+      <div className="space-y-4 animate-fade-in">
+        <header className="flex items-center">
+          <button
+            onClick={handleBack}
+            className="p-2 -ml-2 text-gray-500 hover:text-indigo-600 hover:bg-indigo-50 rounded-full transition-colors"
+            aria-label="Back to settings"
+          >
+            <ChevronLeftIcon className="w-7 h-7" />
+          </button>
+          <h1 className="text-xl font-bold text-gray-900 ml-2">Export CSV</h1>
+        </header>
+        <CsvExport
+          expenses={activeExpenses}
+          categoryNames={[...categories.map(c => c.name), TRANSFER_CATEGORY]}
+          baseCurrencyCode={selectedCurrency.code}
+        />
+      </div>
+    );
+  }
+
+  if (view === 'import') {
+    return (
+      <div className="space-y-4 animate-fade-in">
+        <header className="flex items-center">
+          <button
+            onClick={handleBack}
+            className="p-2 -ml-2 text-gray-500 hover:text-indigo-600 hover:bg-indigo-50 rounded-full transition-colors"
+            aria-label="Back to settings"
+          >
+            <ChevronLeftIcon className="w-7 h-7" />
+          </button>
+          <h1 className="text-xl font-bold text-gray-900 ml-2">Import CSV</h1>
+        </header>
+        <CsvImport categories={categories} currencySymbol={selectedCurrency.symbol} rules={rules} merchants={merchants} expenses={activeExpenses} onImport={handleCsvImport} />
+      </div>
+    );
+  }
+
+  if (view === 'statement') {
+    return (
+      <div className="space-y-4 animate-fade-in">
+        <header className="flex items-center">
+          <button
+            onClick={handleBack}
+            className="p-2 -ml-2 text-gray-500 hover:text-indigo-600 hover:bg-indigo-50 rounded-full transition-colors"
+            aria-label="Back to settings"
+          >
+            <ChevronLeftIcon className="w-7 h-7" />
+          </button>
+          <h1 className="text-xl font-bold text-gray-900 ml-2">Import Bank Statement</h1>
+        </header>
+        <StatementImport
+          expenses={expenses}
+          categories={categories}
+          currencySymbol={selectedCurrency.symbol}
+          baseCurrencyCode={selectedCurrency.code}
+          exchangeRates={exchangeRates}
+          rules={rules}
+          merchants={merchants}
+          onImport={onImportTransactions}
+        />
+      </div>
+    );
+  }
+
+  if (view === 'subscriptions') {
+    return (
+      <div className="space-y-4 animate-fade-in">
+        <header className="flex items-center">
+          <button
+            onClick={handleBack}
+            className="p-2 -ml-2 text-gray-500 hover:text-indigo-600 hover:bg-indigo-50 rounded-full transition-colors"
+            aria-label="Back to settings"
+          >
+            <ChevronLeftIcon className="w-7 h-7" />
+          </button>
+          <h1 className="text-xl font-bold text-gray-900 ml-2">Subscriptions</h1>
+        </header>
+        <Subscriptions
+          recurringTransactions={recurringTransactions}
+          onRecurringTransactionsChange={onRecurringTransactionsChange}
+          currencySymbol={selectedCurrency.symbol}
+        />
       </div>
     );
   }
@@ -240,26 +921,156 @@ const Settings: React.FC<SettingsProps> = (props) => {
           title="Currency"
           description={`Set your default currency (${selectedCurrency.code})`}
           icon={<BanknotesIcon className="w-6 h-6" />}
-          onClick={() => setView('currency')}
+          onClick={() => onViewChange('currency')}
+        />
+        <SettingsTile
+          title="Exchange Rates"
+          description={`Convert foreign-currency transactions to ${selectedCurrency.code}`}
+          icon={<TrendingUpIcon className="w-6 h-6" />}
+          onClick={() => onViewChange('rates')}
         />
         <SettingsTile
           title="Manage Categories"
-          description="Add, edit, or delete expense categories"
+          description="Add, edit, or delete expense and income categories"
           icon={<TagIcon className="w-6 h-6" />}
-          onClick={() => setView('categories')}
+          onClick={() => onViewChange('categories')}
+        />
+        <SettingsTile
+          title="Manage Tags"
+          description="Rename, merge, or delete transaction tags"
+          icon={<TagIcon className="w-6 h-6" />}
+          onClick={() => onViewChange('tags')}
+        />
+        <SettingsTile
+          title="Accounts"
+          description={accounts.length > 0 ? `${accounts.length} ${accounts.length === 1 ? 'account' : 'accounts'} with balances and statements` : 'Track balances for your bank accounts, cards and wallets'}
+          icon={<BanknotesIcon className="w-6 h-6" />}
+          onClick={() => onViewChange('accounts')}
+        />
+        <SettingsTile
+          title="People & Balances"
+          description="Who you share bills with, who owes whom, and settling up"
+          icon={<UsersIcon className="w-6 h-6" />}
+          onClick={() => onViewChange('people')}
+        />
+        <SettingsTile
+          title="Merchants"
+          description="Group different spellings of the same merchant under one name"
+          icon={<DocumentDuplicateIcon className="w-6 h-6" />}
+          onClick={() => onViewChange('merchants')}
+        />
+        <SettingsTile
+          title="Rules"
+          description="Always categorize, rename or tag transactions from chosen vendors"
+          icon={<CollectionIcon className="w-6 h-6" />}
+          onClick={() => onViewChange('rules')}
+        />
+        <SettingsTile
+          title="Teach the AI"
+          description={aiExamples.length > 0 ? `${aiExamples.length} learned ${aiExamples.length === 1 ? 'correction' : 'corrections'} from your edits` : 'Review corrections the AI learns from your edits'}
+          icon={<SparklesIcon className="w-6 h-6" />}
+          onClick={() => onViewChange('teach')}
+        />
+        <SettingsTile
+          title="Subscriptions"
+          description="Recurring charges, upcoming payments and yearly totals"
+          icon={<ArrowPathIcon className="w-6 h-6" />}
+          onClick={() => onViewChange('subscriptions')}
+        />
+        <SettingsTile
+          title="History"
+          description={undoHistory.past.length > 0 ? `Undo your last change: ${undoHistory.past[undoHistory.past.length - 1].label}` : 'Undo and redo changes to your data'}
+          icon={<CalendarIcon className="w-6 h-6" />}
+          onClick={() => onViewChange('history')}
+        />
+        <SettingsTile
+          title="Trash"
+          description={trashedCount > 0 ? `${trashedCount} deleted ${trashedCount === 1 ? 'transaction' : 'transactions'} you can restore` : `Deleted transactions are kept for ${trashRetentionDays} days`}
+          icon={<TrashIcon className="w-6 h-6" />}
+          onClick={() => onViewChange('trash')}
+        />
+        <SettingsTile
+          title="Find Duplicates"
+          description="Spot transactions saved twice and merge or delete them"
+          icon={<DocumentDuplicateIcon className="w-6 h-6" />}
+          onClick={() => onViewChange('duplicates')}
         />
       </div>
 
       <div className="bg-white p-4 rounded-xl shadow-md">
         <h2 className="text-lg font-semibold text-gray-800 mb-3">Data Management</h2>
-        <p className="text-sm text-gray-500 mb-4">Save your data to a file or restore it from a backup.</p>
-        <div className="flex flex-col sm:flex-row space-y-2 sm:space-y-0 sm:space-x-4">
+        <p className="text-sm text-gray-500 mb-4">Save your data to a file, restore it from a backup, or move transactions in and out of spreadsheets and bank statements.</p>
+        <div className="mb-4 space-y-2">
+          <label className="flex items-center space-x-2 text-sm text-gray-700">
+            <input type="checkbox" checked={encryptBackups} onChange={e => setEncryptBackups(e.target.checked)} className="rounded text-indigo-600" />
+            <span>Encrypt backups with a passphrase</span>
+          </label>
+          {encryptBackups && (
+            <div className="grid grid-cols-1 sm:grid-cols-2 gap-2">
+              <input
+                type="password"
+                value={backupPassphrase}
+                onChange={e => setBackupPassphrase(e.target.value)}
+                className="input-field"
+                placeholder="Passphrase"
+                aria-label="Backup passphrase"
+                autoComplete="new-password"
+              />
+              <input
+                type="password"
+                value={backupPassphraseConfirm}
+                onChange={e => setBackupPassphraseConfirm(e.target.value)}
+                className="input-field"
+                placeholder="Repeat passphrase"
+                aria-label="Repeat backup passphrase"
+                autoComplete="new-password"
+              />
+              <p className="text-xs text-gray-500 sm:col-span-2">The passphrase is never stored. Without it, the backup can't be restored.</p>
+            </div>
+          )}
+        </div>
+        {pendingRestore && (
+          <div className="mb-4 p-3 rounded-lg border border-indigo-200 bg-indigo-50/40 space-y-2">
+            <p className="text-sm text-gray-700">
+              This backup has {new Set(pendingRestore.expenses.map(e => e.transactionId)).size} transactions in {pendingRestore.currency.code}. Merge it with the data on this device, or replace everything with it?
+            </p>
+            <div className="flex justify-end space-x-2">
+              <button onClick={() => setPendingRestore(null)} className="px-3 py-2 text-sm font-medium text-gray-700 bg-gray-100 rounded-md hover:bg-gray-200 transition-colors">Cancel</button>
+              <button onClick={() => replaceWithBackup(pendingRestore)} className="px-3 py-2 text-sm font-medium text-red-700 bg-red-50 rounded-md hover:bg-red-100 transition-colors">Replace all</button>
+              <button onClick={() => handleStartMerge(pendingRestore)} className="px-3 py-2 text-sm font-medium text-white bg-indigo-600 rounded-md hover:bg-indigo-700 transition-colors">Merge</button>
+            </div>
+          </div>
+        )}
+        {pendingEncryptedBackup && (
+          <div className="mb-4 p-3 rounded-lg border border-indigo-200 bg-indigo-50/40 space-y-2">
+            <p className="text-sm text-gray-700">This backup is encrypted. Enter its passphrase to restore it.</p>
+            <input
+              type="password"
+              value={restorePassphrase}
+              onChange={e => setRestorePassphrase(e.target.value)}
+              onKeyDown={e => { if (e.key === 'Enter' && restorePassphrase) handleDecryptRestore(); }}
+              className="w-full input-field"
+              placeholder="Passphrase"
+              aria-label="Passphrase for the backup"
+              autoComplete="current-password"
+              autoFocus
+            />
+            <div className="flex justify-end space-x-2">
+              <button onClick={() => setPendingEncryptedBackup(null)} className="px-3 py-2 text-sm font-medium text-gray-700 bg-gray-100 rounded-md hover:bg-gray-200 transition-colors">Cancel</button>
+              <button onClick={handleDecryptRestore} disabled={!restorePassphrase || isCryptoBusy} className="px-3 py-2 text-sm font-medium text-white bg-indigo-600 rounded-md hover:bg-indigo-700 disabled:opacity-50 transition-colors">
+                {isCryptoBusy ? 'Decrypting…' : 'Decrypt and restore'}
+              </button>
+            </div>
+          </div>
+        )}
+        <div className="grid grid-cols-1 sm:grid-cols-2 gap-2 sm:gap-4">
             <button
               onClick={handleBackup}
-              className="flex-1 flex items-center justify-center px-4 py-2 text-sm font-medium text-indigo-700 bg-indigo-100 rounded-md hover:bg-indigo-200 transition-colors"
+              disabled={isCryptoBusy}
+              className="flex-1 flex items-center justify-center px-4 py-2 text-sm font-medium text-indigo-700 bg-indigo-100 rounded-md hover:bg-indigo-200 disabled:opacity-50 transition-colors"
             >
               <DownloadIcon className="w-5 h-5 mr-2" />
-              Backup Data
+              {encryptBackups ? 'Backup Encrypted' : 'Backup Data'}
             </button>
             <button
               onClick={handleRestoreClick}
@@ -268,6 +1079,27 @@ const Settings: React.FC<SettingsProps> = (props) => {
               <UploadIcon className="w-5 h-5 mr-2" />
               Restore Data
             </button>
+            <button
+              onClick={() => onViewChange('export')}
+              className="flex-1 flex items-center justify-center px-4 py-2 text-sm font-medium text-gray-700 bg-gray-100 rounded-md hover:bg-gray-200 transition-colors"
+            >
+              <DocumentTextIcon className="w-5 h-5 mr-2" />
+              Export CSV
+            </button>
+            <button
+              onClick={() => onViewChange('import')}
+              className="flex-1 flex items-center justify-center px-4 py-2 text-sm font-medium text-gray-700 bg-gray-100 rounded-md hover:bg-gray-200 transition-colors"
+            >
+              <DocumentDuplicateIcon className="w-5 h-5 mr-2" />
+              Import CSV
+            </button>
+            <button
+              onClick={() => onViewChange('statement')}
+              className="flex-1 flex items-center justify-center px-4 py-2 text-sm font-medium text-gray-700 bg-gray-100 rounded-md hover:bg-gray-200 transition-colors"
+            >
+              <BanknotesIcon className="w-5 h-5 mr-2" />
+              Import Statement
+            </button>
             <input
               type="file"
               ref={fileInputRef}
@@ -5,13 +5,20 @@ interface StatCardProps {
   title: string;
   value: string;
   prefix?: string;
+  tone?: 'neutral' | 'positive' | 'negative';
 }
 
-const StatCard: React.FC<StatCardProps> = ({ title, value, prefix }) => {
+const TONE_CLASSES: Record<NonNullable<StatCardProps['tone']>, string> = {
+  neutral: 'text-gray-900',
+  positive: 'text-green-600',
+  negative: 'text-red-600',
+};
+
+const StatCard: React.FC<StatCardProps> = ({ title, value, prefix, tone = 'neutral' }) => {
   return (
     <div className="bg-white p-4 rounded-xl shadow-md">
       <h3 className="text-sm font-medium text-gray-500">{title}</h3>
-      <p className="mt-1 text-2xl font-semibold text-gray-900">
+      <p className={`mt-1 text-2xl font-semibold ${TONE_CLASSES[tone]}`}>
         {prefix}{value}
       </p>
     </div>
@@ -0,0 +1,227 @@
+import React, { useMemo, useRef, useState } from 'react';
+import type { CategoryDefinition, CategoryRule, Expense, ExchangeRates, Merchant, TransactionInput } from '../types';
+import { detectStatementFormat, parseStatement, type StatementEntry } from '../utils/statementParsers';
+import { convertToBase } from '../utils/currencyUtils';
+import { getCategoryKind, getDefaultCategory } from '../utils/transactionUtils';
+import { getRuleOutcome } from '../utils/rules';
+import { canonicalizeVendor } from '../utils/merchants';
+import { UploadIcon, CheckIcon, XIcon } from './Icons';
+import TagChips from './TagChips';
+
+interface StatementImportProps {
+  expenses: Expense[];
+  categories: CategoryDefinition[];
+  currencySymbol: string;
+  baseCurrencyCode: string;
+  exchangeRates: ExchangeRates;
+  rules: CategoryRule[];
+  merchants: Merchant[];
+  onImport: (transactions: TransactionInput[]) => void;
+}
+
+interface ReviewRow {
+  importId: string;
+  accepted: boolean;
+  kind: 'expense' | 'income';
+  vendor: string;
+  amount: string; // In the statement's currency
+  category: string;
+  date: string;
+  notes: string;
+  currency?: string; // Only set when it differs from the base currency
+  tags?: string[];
+  payee: string; // As it appears on the statement
+}
+
+const isRowValid = (row: ReviewRow) => row.vendor.trim() !== '' && parseFloat(row.amount) > 0 && !!row.date;
+
+const StatementImport: React.FC<StatementImportProps> = ({ expenses, categories, currencySymbol, baseCurrencyCode, exchangeRates, rules, merchants, onImport }) => {
+  const [fileName, setFileName] = useState('');
+  const [entries, setEntries] = useState<StatementEntry[] | null>(null);
+  const [rows, setRows] = useState<ReviewRow[]>([]);
+  const [includeCredits, setIncludeCredits] = useState(true);
+  const [error, setError] = useState<string | null>(null);
+  const fileInputRef = useRef<HTMLInputElement>(null);
+
+  const expenseCategories = useMemo(() => categories.filter(c => getCategoryKind(c) === 'expense').map(c => c.name), [categories]);
+  const incomeCategories = useMemo(() => categories.filter(c => getCategoryKind(c) === 'income').map(c => c.name), [categories]);
+  const importedIds = useMemo(() => new Set(expenses.map(e => e.importId).filter(Boolean)), [expenses]);
+
+  const duplicateCount = entries ? entries.filter(e => importedIds.has(e.importId)).length : 0;
+  const visibleRows = rows.filter(r => includeCredits || r.kind === 'expense');
+  const acceptedRows = visibleRows.filter(r => r.accepted);
+  const missingRateCodes = Array.from(new Set(acceptedRows.filter(r => r.currency && !exchangeRates[r.currency]).map(r => r.currency!)));
+  const canImport = acceptedRows.length > 0 && acceptedRows.every(isRowValid) && missingRateCodes.length === 0;
+
+  const toReviewRow = (entry: StatementEntry): ReviewRow => {
+    const kind = entry.amount < 0 ? 'expense' : 'income';
+    const known = kind === 'income' ? incomeCategories : expenseCategories;
+    const category = entry.category && known.find(c => c.toLowerCase() === entry.category!.toLowerCase());
+    const currency = entry.currency && entry.currency !== baseCurrencyCode ? entry.currency : undefined;
+    // Rule amounts are in the base currency.
+    const baseAmount = currency ? convertToBase(Math.abs(entry.amount), currency, baseCurrencyCode, exchangeRates) : Math.abs(entry.amount);
+    const merchantName = canonicalizeVendor(entry.payee, merchants).vendor;
+    const outcome = getRuleOutcome(rules, merchantName, baseAmount ?? Math.abs(entry.amount), kind);
+    return {
+      importId: entry.importId,
+      accepted: true,
+      kind,
+      vendor: outcome?.vendor ?? merchantName,
+      amount: Math.abs(entry.amount).toString(),
+      category: outcome?.category || category || getDefaultCategory(kind),
+      date: entry.date,
+      notes: entry.memo ?? '',
+      currency,
+      tags: outcome?.tags,
+      payee: entry.payee,
+    };
+  };
+
+  const handleFileSelect = (event: React.ChangeEvent<HTMLInputElement>) => {
+    const file = event.target.files?.[0];
+    if (!file) return;
+    const reader = new FileReader();
+    reader.onload = (e) => {
+      const text = e.target?.result;
+      const format = typeof text === 'string' ? detectStatementFormat(file.name, text) : null;
+      if (typeof text !== 'string' || !format) {
+        setError("This doesn't look like an OFX, QFX or QIF statement.");
+        return;
+      }
+      const parsed = parseStatement(format, text);
+      if (parsed.length === 0) {
+        setError("No transactions were found in this statement.");
+        return;
+      }
+      setError(null);
+      setFileName(file.name);
+      setEntries(parsed);
+      // Entries already imported from an overlapping statement are left out entirely.
+      setRows(parsed.filter(entry => !importedIds.has(entry.importId)).map(toReviewRow));
+    };
+    reader.onerror = () => setError("Failed to read the file.");
+    reader.readAsText(file);
+    event.target.value = '';
+  };
+
+  const updateRow = (importId: string, changes: Partial<ReviewRow>) => {
+    setRows(prev => prev.map(row => row.importId === importId ? { ...row, ...changes } : row));
+  };
+
+  const reset = () => {
+    setEntries(null);
+    setRows([]);
+    setFileName('');
+  };
+
+  const handleImport = () => {
+    if (!canImport) return;
+    const transactions = acceptedRows.map((row): TransactionInput => {
+      const amount = parseFloat(row.amount);
+      return {
+        vendor: row.vendor.trim(),
+        date: row.date,
+        notes: row.notes.trim() || undefined,
+        kind: row.kind,
+        currency: row.currency,
+        importId: row.importId,
+        tags: row.tags,
+        rawVendor: row.vendor.trim() !== row.payee ? row.payee : undefined,
+        splits: [row.currency
+          ? { amount: convertToBase(amount, row.currency, baseCurrencyCode, exchangeRates)!, category: row.category, originalAmount: amount }
+          : { amount, category: row.category }],
+      };
+    });
+    reset();
+    onImport(transactions);
+  };
+
+  if (!entries) {
+    return (
+      <div className="bg-white p-4 rounded-xl shadow-md space-y-4">
+        <p className="text-sm text-gray-500">
+          Import a statement downloaded from your bank in OFX, QFX or QIF format. Entries you've already imported from an overlapping statement are skipped automatically.
+        </p>
+        <button
+          onClick={() => fileInputRef.current?.click()}
+          className="w-full flex items-center justify-center px-4 py-2 text-sm font-medium text-white bg-indigo-600 rounded-md hover:bg-indigo-700 transition-colors"
+        >
+          <UploadIcon className="w-5 h-5 mr-2" />
+          Choose Statement File
+        </button>
+        <input type="file" ref={fileInputRef} onChange={handleFileSelect} accept=".ofx,.qfx,.qif,application/x-ofx,application/vnd.intu.qfx" className="hidden" aria-hidden="true" />
+        {error && <p className="text-red-500 text-sm">{error}</p>}
+      </div>
+    );
+  }
+
+  return (
+    <div className="bg-white p-4 rounded-xl shadow-md space-y-4 animate-fade-in">
+      <div>
+        <p className="text-sm text-gray-700">
+          <span className="font-medium">{fileName}</span>: {entries.length} {entries.length === 1 ? 'entry' : 'entries'}
+          {duplicateCount > 0 && <>, {duplicateCount} already imported and skipped</>}.
+        </p>
+        <label className="flex items-center space-x-2 text-sm text-gray-700 mt-2">
+          <input type="checkbox" checked={includeCredits} onChange={e => setIncludeCredits(e.target.checked)} className="h-4 w-4 text-indigo-600 border-gray-300 rounded focus:ring-indigo-500" />
+          <span>Import credits as income</span>
+        </label>
+      </div>
+
+      {visibleRows.length === 0 ? (
+        <p className="text-center text-gray-500 py-6">Nothing new to import from this statement.</p>
+      ) : (
+        <ul className="space-y-3">
+          {visibleRows.map(row => {
+            const rowCategories = row.kind === 'income' ? incomeCategories : expenseCategories;
+            return (
+              <li key={row.importId} className={`p-3 rounded-lg border ${row.accepted ? (isRowValid(row) ? 'border-indigo-200 bg-indigo-50/40' : 'border-yellow-300 bg-yellow-50') : 'border-gray-200 bg-gray-50 opacity-75'}`}>
+                <div className="flex items-center justify-between space-x-2">
+                  <span className={`text-xs font-semibold uppercase ${row.kind === 'income' ? 'text-green-600' : 'text-gray-500'}`}>{row.kind === 'income' ? 'Credit' : 'Debit'}</span>
+                  <button
+                    type="button"
+                    onClick={() => updateRow(row.importId, { accepted: !row.accepted })}
+                    className={`flex items-center px-2 py-1 text-xs font-medium rounded-full transition-colors ${row.accepted ? 'bg-green-100 text-green-700 hover:bg-green-200' : 'bg-gray-200 text-gray-600 hover:bg-gray-300'}`}
+                    aria-pressed={row.accepted}
+                  >
+                    {row.accepted ? <><CheckIcon className="w-4 h-4 mr-1" />Accepted</> : <><XIcon className="w-4 h-4 mr-1" />Rejected</>}
+                  </button>
+                </div>
+                <div className="grid grid-cols-2 gap-2 mt-2">
+                  <input type="text" value={row.vendor} onChange={e => updateRow(row.importId, { vendor: e.target.value })} className="input-field" placeholder="Vendor" aria-label="Vendor" />
+                  <div className="relative">
+                    <span className="pointer-events-none absolute inset-y-0 left-0 flex items-center pl-2 text-xs text-gray-400">{row.currency ?? currencySymbol}</span>
+                    <input type="number" step="0.01" value={row.amount} onChange={e => updateRow(row.importId, { amount: e.target.value })} className={`w-full input-field ${row.currency ? 'pl-10' : 'pl-7'}`} aria-label="Amount" />
+                  </div>
+                  <select value={row.category} onChange={e => updateRow(row.importId, { category: e.target.value })} className="input-field" aria-label="Category">
+                    {rowCategories.map(cat => <option key={cat}>{cat}</option>)}
+                  </select>
+                  <input type="date" value={row.date} onChange={e => updateRow(row.importId, { date: e.target.value })} className="input-field date-input-with-icon" aria-label="Date" />
+                  {row.notes && <p className="col-span-2 text-xs text-gray-500 truncate" title={row.notes}>{row.notes}</p>}
+                </div>
+                <TagChips tags={row.tags} />
+              </li>
+            );
+          })}
+        </ul>
+      )}
+
+      {missingRateCodes.length > 0 && (
+        <p className="text-sm text-red-500">Add an exchange rate for {missingRateCodes.join(', ')} in Exchange Rates before importing.</p>
+      )}
+      <div className="flex items-center justify-end space-x-3">
+        <button onClick={reset} className="px-4 py-2 text-sm font-medium text-gray-700 bg-gray-100 rounded-md hover:bg-gray-200 transition-colors">Cancel</button>
+        <button
+          onClick={handleImport}
+          disabled={!canImport}
+          className="px-4 py-2 text-sm font-medium text-white bg-indigo-600 rounded-md hover:bg-indigo-700 flex items-center disabled:bg-indigo-300 disabled:cursor-not-allowed transition-colors"
+        >
+          <CheckIcon className="w-5 h-5 mr-1" />
+          Import {acceptedRows.length}
+        </button>
+      </div>
+    </div>
+  );
+};
+
+export default StatementImport;
@@ -0,0 +1,186 @@
+import React, { useMemo, useState } from 'react';
+import type { RecurringTransaction, RecurrenceFrequency } from '../types';
+import { FREQUENCY_LABELS, getOccurrencesBetween, getNextOccurrenceDate, getSeriesAmount, getYearlyCost, isSeriesFinished } from '../utils/recurrence';
+import { PencilIcon, TrashIcon, CheckIcon, XIcon, ArrowPathIcon } from './Icons';
+
+interface SubscriptionsProps {
+  recurringTransactions: RecurringTransaction[];
+  onRecurringTransactionsChange: (recurringTransactions: RecurringTransaction[]) => void;
+  currencySymbol: string;
+}
+
+// How far ahead the upcoming charges list looks.
+const UPCOMING_DAYS = 30;
+
+const Subscriptions: React.FC<SubscriptionsProps> = ({ recurringTransactions, onRecurringTransactionsChange, currencySymbol }) => {
+  const [editingId, setEditingId] = useState<string | null>(null);
+  const [formState, setFormState] = useState({ vendor: '', amount: '', frequency: 'monthly' as RecurrenceFrequency, endDate: '' });
+  const [error, setError] = useState<string | null>(null);
+
+  const activeSeries = useMemo(() =>
+    recurringTransactions
+      .filter(s => !isSeriesFinished(s))
+      .sort((a, b) => a.nextDueDate.localeCompare(b.nextDueDate)),
+    [recurringTransactions]
+  );
+
+  const finishedSeries = useMemo(() => recurringTransactions.filter(isSeriesFinished), [recurringTransactions]);
+
+  const yearlyTotal = useMemo(() =>
+    activeSeries
+      .filter(s => s.kind === 'expense')
+      .reduce((sum, s) => sum + getYearlyCost(s), 0),
+    [activeSeries]
+  );
+
+  const upcomingCharges = useMemo(() => {
+    const now = new Date();
+    const today = now.toISOString().slice(0, 10);
+    const until = new Date(Date.UTC(now.getUTCFullYear(), now.getUTCMonth(), now.getUTCDate() + UPCOMING_DAYS)).toISOString().slice(0, 10);
+    return activeSeries
+      .flatMap(s => getOccurrencesBetween(s, s.nextDueDate > today ? s.nextDueDate : today, until).map(date => ({ date, series: s })))
+      .sort((a, b) => a.date.localeCompare(b.date));
+  }, [activeSeries]);
+
+  const handleEditClick = (series: RecurringTransaction) => {
+    setFormState({
+      vendor: series.vendor,
+      amount: getSeriesAmount(series).toString(),
+      frequency: series.frequency,
+      endDate: series.endDate ?? '',
+    });
+    setEditingId(series.id);
+    setError(null);
+  };
+
+  const handleCancel = () => {
+    setEditingId(null);
+    setError(null);
+  };
+
+  const handleSave = (series: RecurringTransaction) => {
+    const amount = parseFloat(formState.amount);
+    if (!formState.vendor.trim()) {
+      setError("Vendor cannot be empty.");
+      return;
+    }
+    if (isNaN(amount) || amount <= 0) {
+      setError("Amount must be a positive number.");
+      return;
+    }
+
+    // Split series keep their per-category amounts, so only single-category amounts are editable here.
+    const splits = series.splits.length === 1 ? [{ ...series.splits[0], amount }] : series.splits;
+    // A new frequency reschedules from the original start date, never reaching back before what's already been created.
+    const nextDueDate = formState.frequency === series.frequency
+      ? series.nextDueDate
+      : getNextOccurrenceDate({ startDate: series.startDate, frequency: formState.frequency }, series.nextDueDate);
+
+    onRecurringTransactionsChange(recurringTransactions.map(s => s.id === series.id
+      ? { ...s, vendor: formState.vendor.trim(), splits, frequency: formState.frequency, endDate: formState.endDate || undefined, nextDueDate }
+      : s
+    ));
+    handleCancel();
+  };
+
+  const handleDelete = (series: RecurringTransaction) => {
+    if (window.confirm(`Stop the recurring "${series.vendor}" transaction? Transactions already created will be kept.`)) {
+      onRecurringTransactionsChange(recurringTransactions.filter(s => s.id !== series.id));
+    }
+  };
+
+  const renderSeries = (series: RecurringTransaction) => {
+    const amount = getSeriesAmount(series);
+
+    if (editingId === series.id) {
+      return (
+        <li key={series.id} className="p-3 bg-indigo-50 rounded-lg animate-fade-in space-y-2">
+          <input type="text" value={formState.vendor} onChange={e => setFormState({ ...formState, vendor: e.target.value })} className="block w-full input-field" aria-label="Vendor" />
+          <div className="grid grid-cols-2 gap-2">
+            <input type="number" step="0.01" value={formState.amount} onChange={e => setFormState({ ...formState, amount: e.target.value })} disabled={series.splits.length > 1} className="input-field disabled:bg-gray-100" aria-label="Amount" />
+            <select value={formState.frequency} onChange={e => setFormState({ ...formState, frequency: e.target.value as RecurrenceFrequency })} className="input-field" aria-label="Frequency">
+              {(Object.keys(FREQUENCY_LABELS) as RecurrenceFrequency[]).map(freq => (
+                <option key={freq} value={freq}>{FREQUENCY_LABELS[freq]}</option>
+              ))}
+            </select>
+          </div>
+          <div>
+            <label htmlFor={`end-date-${series.id}`} className="block text-xs font-medium text-gray-600">Ends on (Optional)</label>
+            <input type="date" id={`end-date-${series.id}`} value={formState.endDate} min={series.startDate} onChange={e => setFormState({ ...formState, endDate: e.target.value })} className="mt-1 block w-full input-field date-input-with-icon" />
+          </div>
+          {series.splits.length > 1 && <p className="text-xs text-gray-500">This series is split across categories. Edit one of its transactions to change the amounts.</p>}
+          {error && <p className="text-red-500 text-sm">{error}</p>}
+          <div className="flex justify-end space-x-2">
+            <button onClick={() => handleSave(series)} className="p-1 text-green-600 hover:text-green-800" aria-label="Save changes"><CheckIcon className="w-6 h-6" /></button>
+            <button onClick={handleCancel} className="p-1 text-red-500 hover:text-red-700" aria-label="Cancel editing"><XIcon className="w-6 h-6" /></button>
+          </div>
+        </li>
+      );
+    }
+
+    return (
+      <li key={series.id} className="flex items-center justify-between p-3">
+        <div className="min-w-0">
+          <p className="font-semibold text-gray-800 truncate">{series.vendor}</p>
+          <p className="text-sm text-gray-500">
+            {currencySymbol}{amount.toFixed(2)} · {FREQUENCY_LABELS[series.frequency]}
+            {isSeriesFinished(series) ? ' · Ended' : ` · Next ${series.nextDueDate}`}
+          </p>
+          {series.endDate && !isSeriesFinished(series) && <p className="text-xs text-gray-400">Ends {series.endDate}</p>}
+        </div>
+        <div className="space-x-3 flex-shrink-0 pl-4">
+          <button onClick={() => handleEditClick(series)} className="text-gray-400 hover:text-indigo-500" aria-label={`Edit ${series.vendor} recurring transaction`}><PencilIcon className="w-5 h-5" /></button>
+          <button onClick={() => handleDelete(series)} className="text-gray-400 hover:text-red-500" aria-label={`Stop ${series.vendor} recurring transaction`}><TrashIcon className="w-5 h-5" /></button>
+        </div>
+      </li>
+    );
+  };
+
+  if (recurringTransactions.length === 0) {
+    return (
+      <div className="text-center py-16 bg-white rounded-xl shadow-md">
+        <ArrowPathIcon className="w-16 h-16 mx-auto text-gray-300" />
+        <h2 className="mt-4 text-xl font-semibold text-gray-700">No Recurring Transactions</h2>
+        <p className="mt-2 px-4 text-gray-500">Choose a Repeat option when adding a transaction to track rent, subscriptions and EMIs automatically.</p>
+      </div>
+    );
+  }
+
+  return (
+    <div className="space-y-4">
+      <div className="bg-white p-4 rounded-xl shadow-md">
+        <h3 className="text-sm font-medium text-gray-500">Yearly Total</h3>
+        <p className="mt-1 text-2xl font-semibold text-gray-900">{currencySymbol}{yearlyTotal.toFixed(2)}</p>
+        <p className="text-sm text-gray-500">About {currencySymbol}{(yearlyTotal / 12).toFixed(2)} per month across {activeSeries.filter(s => s.kind === 'expense').length} recurring expenses.</p>
+      </div>
+
+      <div className="bg-white p-4 rounded-xl shadow-md">
+        <h2 className="text-lg font-semibold text-gray-800 mb-3">Upcoming in the Next {UPCOMING_DAYS} Days</h2>
+        {upcomingCharges.length > 0 ? (
+          <ul className="divide-y divide-gray-200">
+            {upcomingCharges.map(({ date, series }) => (
+              <li key={`${series.id}-${date}`} className="flex justify-between py-2 text-sm">
+                <span className="text-gray-700">{date} · {series.vendor}</span>
+                <span className={`font-medium ${series.kind === 'income' ? 'text-green-600' : 'text-gray-900'}`}>
+                  {series.kind === 'income' ? '+' : ''}{currencySymbol}{getSeriesAmount(series).toFixed(2)}
+                </span>
+              </li>
+            ))}
+          </ul>
+        ) : (
+          <p className="text-sm text-gray-500">Nothing due soon.</p>
+        )}
+      </div>
+
+      <div className="bg-white p-4 rounded-xl shadow-md">
+        <h2 className="text-lg font-semibold text-gray-800 mb-3">All Recurring</h2>
+        <ul className="divide-y divide-gray-200">
+          {activeSeries.map(renderSeries)}
+          {finishedSeries.map(renderSeries)}
+        </ul>
+      </div>
+    </div>
+  );
+};
+
+export default Subscriptions;
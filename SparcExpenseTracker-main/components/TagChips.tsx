@@ -0,0 +1,18 @@
+import React from 'react';
+
+interface TagChipsProps {
+  tags?: string[];
+}
+
+const TagChips: React.FC<TagChipsProps> = ({ tags }) => {
+  if (!tags || tags.length === 0) return null;
+  return (
+    <div className="flex flex-wrap gap-1 mt-1">
+      {tags.map(tag => (
+        <span key={tag} className="px-2 py-0.5 text-xs font-medium text-indigo-700 bg-indigo-50 rounded-full">#{tag}</span>
+      ))}
+    </div>
+  );
+};
+
+export default TagChips;
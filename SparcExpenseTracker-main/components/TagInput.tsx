@@ -0,0 +1,86 @@
+import React, { useMemo, useState } from 'react';
+import { addTag } from '../utils/tagUtils';
+import { XIcon } from './Icons';
+
+interface TagInputProps {
+  tags: string[];
+  onChange: (tags: string[]) => void;
+  suggestions: string[];
+}
+
+const MAX_SUGGESTIONS = 5;
+
+const TagInput: React.FC<TagInputProps> = ({ tags, onChange, suggestions }) => {
+  const [draft, setDraft] = useState('');
+  const [isFocused, setIsFocused] = useState(false);
+
+  const matchingSuggestions = useMemo(() => {
+    const term = draft.trim().toLowerCase();
+    const unused = suggestions.filter(s => !tags.some(t => t.toLowerCase() === s.toLowerCase()));
+    if (!term) return unused.slice(0, MAX_SUGGESTIONS);
+    return unused.filter(s => s.toLowerCase().includes(term)).slice(0, MAX_SUGGESTIONS);
+  }, [draft, suggestions, tags]);
+
+  const commit = (value: string) => {
+    onChange(addTag(tags, value, suggestions));
+    setDraft('');
+  };
+
+  const handleKeyDown = (e: React.KeyboardEvent<HTMLInputElement>) => {
+    if ((e.key === 'Enter' || e.key === ',') && draft.trim()) {
+      e.preventDefault();
+      commit(draft);
+    } else if (e.key === 'Backspace' && !draft && tags.length > 0) {
+      onChange(tags.slice(0, -1));
+    }
+  };
+
+  return (
+    <div className="relative">
+      <div className="mt-1 flex flex-wrap items-center gap-1 w-full input-field min-h-[2.5rem]">
+        {tags.map(tag => (
+          <span key={tag} className="flex items-center px-2 py-0.5 text-sm text-indigo-700 bg-indigo-100 rounded-full">
+            #{tag}
+            <button type="button" onClick={() => onChange(tags.filter(t => t !== tag))} className="ml-1 text-indigo-400 hover:text-indigo-700" aria-label={`Remove tag ${tag}`}>
+              <XIcon className="w-3 h-3" />
+            </button>
+          </span>
+        ))}
+        <input
+          id="tags"
+          type="text"
+          value={draft}
+          onChange={e => setDraft(e.target.value.replace(',', ''))}
+          onKeyDown={handleKeyDown}
+          onFocus={() => setIsFocused(true)}
+          onBlur={() => {
+            setIsFocused(false);
+            if (draft.trim()) commit(draft);
+          }}
+          className="flex-grow min-w-[6rem] border-none p-0 focus:ring-0 text-sm"
+          placeholder={tags.length === 0 ? 'e.g. Goa trip, reimbursable' : ''}
+          autoComplete="off"
+        />
+      </div>
+      {isFocused && matchingSuggestions.length > 0 && (
+        <ul className="absolute z-10 mt-1 w-full bg-white border border-gray-200 rounded-md shadow-lg max-h-48 overflow-y-auto" role="listbox">
+          {matchingSuggestions.map(suggestion => (
+            <li key={suggestion}>
+              <button
+                type="button"
+                // Keep focus in the input so picking a suggestion doesn't trigger the blur commit.
+                onMouseDown={e => e.preventDefault()}
+                onClick={() => commit(suggestion)}
+                className="w-full text-left px-3 py-2 text-sm text-gray-700 hover:bg-indigo-50"
+              >
+                #{suggestion}
+              </button>
+            </li>
+          ))}
+        </ul>
+      )}
+    </div>
+  );
+};
+
+export default TagInput;
@@ -0,0 +1,118 @@
+import React, { useMemo, useState } from 'react';
+import type { CategoryRule, Expense, RecurringTransaction } from '../types';
+import { getActiveExpenses } from '../utils/trash';
+import { getTagSummaries, normalizeTag, retagExpenses, retagRecurringTransactions, retagRules } from '../utils/tagUtils';
+import type { RecordUndoableAction } from '../utils/undoHistory';
+import { PencilIcon, TrashIcon, CheckIcon, XIcon, TagIcon } from './Icons';
+
+interface TagManagerProps {
+  expenses: Expense[];
+  onExpensesChange: (expenses: Expense[]) => void;
+  recurringTransactions: RecurringTransaction[];
+  onRecurringTransactionsChange: (recurringTransactions: RecurringTransaction[]) => void;
+  rules: CategoryRule[];
+  onRulesChange: (rules: CategoryRule[]) => void;
+  onRecordAction: RecordUndoableAction;
+}
+
+const TagManager: React.FC<TagManagerProps> = ({ expenses, onExpensesChange, recurringTransactions, onRecurringTransactionsChange, rules, onRulesChange, onRecordAction }) => {
+  const [editingTag, setEditingTag] = useState<string | null>(null);
+  const [draftName, setDraftName] = useState('');
+  const [error, setError] = useState<string | null>(null);
+
+  const tagSummaries = useMemo(() => getTagSummaries(getActiveExpenses(expenses)), [expenses]);
+
+  const applyRetag = (from: string, to: string | null) => {
+    onExpensesChange(retagExpenses(expenses, from, to));
+    onRecurringTransactionsChange(retagRecurringTransactions(recurringTransactions, from, to));
+    onRulesChange(retagRules(rules, from, to));
+  };
+
+  const startEditing = (tag: string) => {
+    setEditingTag(tag);
+    setDraftName(tag);
+    setError(null);
+  };
+
+  const handleRename = () => {
+    if (!editingTag) return;
+    const newName = normalizeTag(draftName);
+    if (!newName) {
+      setError('Tag name cannot be empty.');
+      return;
+    }
+    const existing = tagSummaries.find(t => t.name.toLowerCase() === newName.toLowerCase() && t.name !== editingTag);
+    if (existing && !window.confirm(`"${existing.name}" already exists. Merge "${editingTag}" into it?`)) {
+      return;
+    }
+    if (newName !== editingTag) {
+      onRecordAction(`Renamed tag ${editingTag} to ${existing ? existing.name : newName}`);
+      applyRetag(editingTag, existing ? existing.name : newName);
+    }
+    setEditingTag(null);
+    setError(null);
+  };
+
+  const handleDelete = (tag: string, transactionCount: number) => {
+    if (window.confirm(`Remove the tag "${tag}" from ${transactionCount} ${transactionCount === 1 ? 'transaction' : 'transactions'}? The transactions themselves are kept.`)) {
+      onRecordAction(`Deleted tag ${tag}`, { destructive: true });
+      applyRetag(tag, null);
+    }
+  };
+
+  if (tagSummaries.length === 0) {
+    return (
+      <div className="text-center py-12 bg-white rounded-xl shadow-md">
+        <TagIcon className="w-12 h-12 mx-auto text-gray-300" />
+        <p className="mt-3 text-gray-500">No tags yet. Add tags to a transaction when you create or edit it.</p>
+      </div>
+    );
+  }
+
+  return (
+    <div className="bg-white p-4 rounded-xl shadow-md">
+      <p className="text-sm text-gray-500 mb-3">Renaming a tag to one that already exists merges the two.</p>
+      <ul className="divide-y divide-gray-200">
+        {tagSummaries.map(({ name, transactionCount }) => (
+          <li key={name} className="py-2">
+            {editingTag === name ? (
+              <div>
+                <div className="flex items-center space-x-2">
+                  <input
+                    type="text"
+                    value={draftName}
+                    onChange={e => setDraftName(e.target.value)}
+                    onKeyDown={e => { if (e.key === 'Enter') handleRename(); if (e.key === 'Escape') setEditingTag(null); }}
+                    className="flex-grow input-field"
+                    aria-label={`New name for tag ${name}`}
+                    autoFocus
+                  />
+                  <button onClick={handleRename} className="p-2 text-green-600 hover:bg-green-50 rounded-full" aria-label="Save tag name"><CheckIcon className="w-5 h-5" /></button>
+                  <button onClick={() => setEditingTag(null)} className="p-2 text-gray-500 hover:bg-gray-100 rounded-full" aria-label="Cancel renaming"><XIcon className="w-5 h-5" /></button>
+                </div>
+                {error && <p className="text-red-500 text-sm mt-1">{error}</p>}
+              </div>
+            ) : (
+              <div className="flex items-center justify-between">
+                <div>
+                  <span className="font-medium text-gray-800">#{name}</span>
+                  <span className="ml-2 text-sm text-gray-500">{transactionCount} {transactionCount === 1 ? 'transaction' : 'transactions'}</span>
+                </div>
+                <div className="flex items-center space-x-1">
+                  <button onClick={() => startEditing(name)} className="p-1 text-gray-400 hover:text-indigo-500 transition-colors" aria-label={`Rename tag ${name}`}>
+                    <PencilIcon className="w-5 h-5" />
+                  </button>
+                  <button onClick={() => handleDelete(name, transactionCount)} className="p-1 text-gray-400 hover:text-red-500 transition-colors" aria-label={`Delete tag ${name}`}>
+                    <TrashIcon className="w-5 h-5" />
+                  </button>
+                </div>
+              </div>
+            )}
+          </li>
+        ))}
+      </ul>
+    </div>
+  );
+};
+
+export default TagManager;
@@ -0,0 +1,114 @@
+import React, { useState } from 'react';
+import type { AiExample } from '../types';
+import { PencilIcon, TrashIcon, CheckIcon, XIcon, SparklesIcon } from './Icons';
+
+interface TeachAiProps {
+  examples: AiExample[];
+  onExamplesChange: (examples: AiExample[]) => void;
+  allCategories: string[];
+  allIncomeCategories: string[];
+}
+
+const TeachAi: React.FC<TeachAiProps> = ({ examples, onExamplesChange, allCategories, allIncomeCategories }) => {
+  const [editingId, setEditingId] = useState<string | null>(null);
+  const [draftVendor, setDraftVendor] = useState('');
+  const [draftCategory, setDraftCategory] = useState('');
+
+  const startEditing = (example: AiExample) => {
+    setEditingId(example.id);
+    setDraftVendor(example.vendor);
+    setDraftCategory(example.category);
+  };
+
+  const handleSave = () => {
+    if (!editingId || !draftVendor.trim()) return;
+    onExamplesChange(examples.map(e => e.id === editingId
+      ? { ...e, vendor: draftVendor.trim(), category: draftCategory, updatedAt: new Date().toISOString() }
+      : e));
+    setEditingId(null);
+  };
+
+  const handleDelete = (example: AiExample) => {
+    if (window.confirm(`Forget the correction for "${example.vendor}"?`)) {
+      onExamplesChange(examples.filter(e => e.id !== example.id));
+    }
+  };
+
+  const handleClearAll = () => {
+    if (window.confirm(`Forget all ${examples.length} learned examples? The AI will go back to its own suggestions.`)) {
+      onExamplesChange([]);
+    }
+  };
+
+  if (examples.length === 0) {
+    return (
+      <div className="text-center py-12 bg-white rounded-xl shadow-md">
+        <SparklesIcon className="w-12 h-12 mx-auto text-gray-300" />
+        <p className="mt-3 text-gray-500 px-4">Nothing learned yet. When you change the vendor or category of a parsed SMS before saving it, the correction shows up here.</p>
+      </div>
+    );
+  }
+
+  return (
+    <div className="bg-white p-4 rounded-xl shadow-md">
+      <div className="flex justify-between items-start mb-3 space-x-3">
+        <p className="text-sm text-gray-500">The most relevant of these examples are sent along with each message you parse.</p>
+        <button onClick={handleClearAll} className="flex-shrink-0 text-xs font-medium text-red-600 hover:text-red-800">Clear all</button>
+      </div>
+      <ul className="divide-y divide-gray-200">
+        {examples.map(example => {
+          const categories = example.kind === 'income' ? allIncomeCategories : allCategories;
+          return (
+            <li key={example.id} className="py-3">
+              {editingId === example.id ? (
+                <div className="space-y-2">
+                  <div className="grid grid-cols-2 gap-2">
+                    <input
+                      type="text"
+                      value={draftVendor}
+                      onChange={e => setDraftVendor(e.target.value)}
+                      className="input-field"
+                      aria-label="Vendor"
+                      autoFocus
+                    />
+                    <select value={draftCategory} onChange={e => setDraftCategory(e.target.value)} className="input-field" aria-label="Category">
+                      {!categories.includes(draftCategory) && <option value={draftCategory}>{draftCategory} (deleted)</option>}
+                      {categories.map(cat => <option key={cat}>{cat}</option>)}
+                    </select>
+                  </div>
+                  <div className="flex justify-end space-x-1">
+                    <button onClick={handleSave} disabled={!draftVendor.trim()} className="p-2 text-green-600 hover:bg-green-50 rounded-full disabled:text-gray-300" aria-label="Save example"><CheckIcon className="w-5 h-5" /></button>
+                    <button onClick={() => setEditingId(null)} className="p-2 text-gray-500 hover:bg-gray-100 rounded-full" aria-label="Cancel editing"><XIcon className="w-5 h-5" /></button>
+                  </div>
+                </div>
+              ) : (
+                <div className="flex items-start justify-between space-x-2">
+                  <div className="min-w-0">
+                    <p className="font-medium text-gray-800">
+                      {example.vendor} <span className="text-gray-400">→</span> {example.category}
+                      {example.kind === 'income' && <span className="ml-2 text-xs font-semibold uppercase text-green-600">Income</span>}
+                    </p>
+                    <p className="text-xs text-gray-500">
+                      Suggested: {example.suggestedVendor}{example.suggestedCategory && ` → ${example.suggestedCategory}`}
+                    </p>
+                    <p className="text-xs text-gray-400 truncate mt-1" title={example.text}>{example.text}</p>
+                  </div>
+                  <div className="flex items-center space-x-1 flex-shrink-0">
+                    <button onClick={() => startEditing(example)} className="p-1 text-gray-400 hover:text-indigo-500 transition-colors" aria-label={`Edit example for ${example.vendor}`}>
+                      <PencilIcon className="w-5 h-5" />
+                    </button>
+                    <button onClick={() => handleDelete(example)} className="p-1 text-gray-400 hover:text-red-500 transition-colors" aria-label={`Delete example for ${example.vendor}`}>
+                      <TrashIcon className="w-5 h-5" />
+                    </button>
+                  </div>
+                </div>
+              )}
+            </li>
+          );
+        })}
+      </ul>
+    </div>
+  );
+};
+
+export default TeachAi;
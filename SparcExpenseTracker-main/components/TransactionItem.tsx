@@ -1,6 +1,9 @@
 import React from 'react';
 import type { Expense } from '../types';
 import { TrashIcon, PencilIcon, DocumentDuplicateIcon } from './Icons';
+import { getTransactionKind } from '../utils/transactionUtils';
+import { formatOriginalAmount } from '../utils/currencyUtils';
+import TagChips from './TagChips';
 
 interface TransactionItemProps {
   transaction: Expense[];
@@ -10,11 +13,19 @@ interface TransactionItemProps {
   onSetConfirming: (transactionId: string | null) => void;
   currencySymbol: string;
   allCategoryColors: Record<string, string>;
+  baseCurrencyCode: string;
 }
 
-const TransactionItem: React.FC<TransactionItemProps> = ({ transaction, onDelete, onEdit, isConfirming, onSetConfirming, currencySymbol, allCategoryColors }) => {
+const TransactionItem: React.FC<TransactionItemProps> = ({ transaction, onDelete, onEdit, isConfirming, onSetConfirming, currencySymbol, allCategoryColors, baseCurrencyCode }) => {
   const { transactionId, vendor, notes } = transaction[0];
   const totalAmount = transaction.reduce((sum, exp) => sum + exp.amount, 0);
+  const isIncome = getTransactionKind(transaction[0]) === 'income';
+  const totalOriginalAmount = formatOriginalAmount({
+    currency: transaction[0].currency,
+    originalAmount: transaction.every(exp => exp.originalAmount !== undefined)
+      ? transaction.reduce((sum, exp) => sum + (exp.originalAmount ?? 0), 0)
+      : undefined,
+  }, baseCurrencyCode);
 
   const handleDeleteClick = () => {
     onDelete(transactionId);
@@ -33,7 +44,10 @@ const TransactionItem: React.FC<TransactionItemProps> = ({ transaction, onDelete
             </div>
             <div className="ml-4 min-w-0">
             <p className="font-semibold text-gray-800 truncate">{vendor}</p>
-            <p className="font-semibold text-gray-900">{currencySymbol}{totalAmount.toFixed(2)}</p>
+            <p className={`font-semibold ${isIncome ? 'text-green-600' : 'text-gray-900'}`}>{isIncome ? '+' : ''}{currencySymbol}{totalAmount.toFixed(2)}</p>
+            {totalOriginalAmount && <p className="text-xs text-gray-500">{totalOriginalAmount}</p>}
+            {transaction[0].sharing && <p className="text-xs text-gray-500">Your share · split {transaction[0].sharing.shares.length + 1} ways</p>}
+            <TagChips tags={transaction[0].tags} />
             </div>
         </div>
         <div className="flex items-center flex-shrink-0 space-x-2 pl-4">
@@ -0,0 +1,100 @@
+import React, { useMemo } from 'react';
+import type { Expense } from '../types';
+import { getPurgeDate, getTrashedTransactions, purgeFromTrash, restoreFromTrash, TRASH_RETENTION_OPTIONS, type TrashedTransaction } from '../utils/trash';
+import type { RecordUndoableAction } from '../utils/undoHistory';
+import { TrashIcon, ArrowPathIcon } from './Icons';
+
+interface TrashProps {
+  expenses: Expense[];
+  onExpensesChange: (expenses: Expense[]) => void;
+  retentionDays: number;
+  onRetentionDaysChange: (days: number) => void;
+  currencySymbol: string;
+  onRecordAction: RecordUndoableAction;
+}
+
+const formatDay = (date: Date) => date.toLocaleDateString(undefined, { month: 'short', day: 'numeric', year: 'numeric' });
+
+const Trash: React.FC<TrashProps> = ({ expenses, onExpensesChange, retentionDays, onRetentionDaysChange, currencySymbol, onRecordAction }) => {
+  const trashed = useMemo(() => getTrashedTransactions(expenses), [expenses]);
+
+  const handleRestore = (transaction: TrashedTransaction) => {
+    onRecordAction(`Restored ${transaction.vendor} from trash`);
+    onExpensesChange(restoreFromTrash(expenses, [transaction.transactionId]));
+  };
+
+  const handlePurge = (transaction: TrashedTransaction) => {
+    if (window.confirm(`Permanently delete "${transaction.vendor}"?`)) {
+      onRecordAction(`Permanently deleted ${transaction.vendor}`, { destructive: true });
+      onExpensesChange(purgeFromTrash(expenses, [transaction.transactionId]));
+    }
+  };
+
+  const handleRestoreAll = () => {
+    onRecordAction(`Restored ${trashed.length} ${trashed.length === 1 ? 'transaction' : 'transactions'} from trash`);
+    onExpensesChange(restoreFromTrash(expenses, trashed.map(t => t.transactionId)));
+  };
+
+  const handleEmpty = () => {
+    if (window.confirm(`Permanently delete all ${trashed.length} ${trashed.length === 1 ? 'transaction' : 'transactions'} in the trash?`)) {
+      onRecordAction('Emptied trash', { destructive: true });
+      onExpensesChange(purgeFromTrash(expenses, trashed.map(t => t.transactionId)));
+    }
+  };
+
+  return (
+    <div className="space-y-4">
+      <div className="bg-white p-4 rounded-xl shadow-md flex items-center justify-between space-x-3">
+        <label htmlFor="trash-retention" className="text-sm text-gray-700">Permanently delete items after</label>
+        <select
+          id="trash-retention"
+          value={retentionDays}
+          onChange={e => onRetentionDaysChange(parseInt(e.target.value, 10))}
+          className="input-field w-auto"
+        >
+          {TRASH_RETENTION_OPTIONS.map(days => <option key={days} value={days}>{days} days</option>)}
+        </select>
+      </div>
+
+      {trashed.length === 0 ? (
+        <div className="text-center py-12 bg-white rounded-xl shadow-md">
+          <TrashIcon className="w-12 h-12 mx-auto text-gray-300" />
+          <p className="mt-3 text-gray-500">The trash is empty. Deleted transactions stay here for {retentionDays} days.</p>
+        </div>
+      ) : (
+        <div className="bg-white p-4 rounded-xl shadow-md">
+          <div className="flex justify-between items-center mb-3">
+            <p className="text-sm text-gray-500">{trashed.length} {trashed.length === 1 ? 'transaction' : 'transactions'}</p>
+            <div className="space-x-3">
+              <button onClick={handleRestoreAll} className="text-xs font-medium text-indigo-600 hover:text-indigo-800">Restore all</button>
+              <button onClick={handleEmpty} className="text-xs font-medium text-red-600 hover:text-red-800">Empty trash</button>
+            </div>
+          </div>
+          <ul className="divide-y divide-gray-200">
+            {trashed.map(transaction => (
+              <li key={transaction.transactionId} className="py-3 flex items-center justify-between space-x-3">
+                <div className="min-w-0">
+                  <p className="font-medium text-gray-800 truncate">{transaction.vendor}</p>
+                  <p className="text-xs text-gray-500 truncate">
+                    {transaction.date} · {transaction.categories.join(', ')} · {transaction.kind === 'income' ? '+' : ''}{currencySymbol}{transaction.amount.toFixed(2)}
+                  </p>
+                  <p className="text-xs text-gray-400">Deleted for good on {formatDay(getPurgeDate(transaction.deletedAt, retentionDays))}</p>
+                </div>
+                <div className="flex items-center space-x-1 flex-shrink-0">
+                  <button onClick={() => handleRestore(transaction)} className="p-1 text-gray-400 hover:text-indigo-500 transition-colors" aria-label={`Restore ${transaction.vendor}`}>
+                    <ArrowPathIcon className="w-5 h-5" />
+                  </button>
+                  <button onClick={() => handlePurge(transaction)} className="p-1 text-gray-400 hover:text-red-500 transition-colors" aria-label={`Permanently delete ${transaction.vendor}`}>
+                    <TrashIcon className="w-5 h-5" />
+                  </button>
+                </div>
+              </li>
+            ))}
+          </ul>
+        </div>
+      )}
+    </div>
+  );
+};
+
+export default Trash;
@@ -0,0 +1,37 @@
+import React, { useEffect } from 'react';
+import { XIcon } from './Icons';
+
+interface UndoToastProps {
+  message: string;
+  actionLabel: string;
+  onAction: () => void;
+  onDismiss: () => void;
+}
+
+// How long the toast stays up before dismissing itself.
+const TOAST_DURATION_MS = 6000;
+
+const UndoToast: React.FC<UndoToastProps> = ({ message, actionLabel, onAction, onDismiss }) => {
+  useEffect(() => {
+    const timer = window.setTimeout(onDismiss, TOAST_DURATION_MS);
+    return () => window.clearTimeout(timer);
+  }, [message, onDismiss]);
+
+  return (
+    <div className="fixed bottom-28 left-1/2 -translate-x-1/2 z-30 w-[calc(100%-2rem)] max-w-md animate-fade-in" role="status" aria-live="polite">
+      <div className="flex items-center justify-between px-4 py-3 bg-gray-900 text-white rounded-lg shadow-lg">
+        <span className="text-sm truncate">{message}</span>
+        <div className="flex items-center flex-shrink-0 ml-3">
+          <button onClick={onAction} className="px-2 py-1 text-sm font-semibold text-indigo-300 hover:text-indigo-200 uppercase">
+            {actionLabel}
+          </button>
+          <button onClick={onDismiss} className="p-1 ml-1 text-gray-400 hover:text-white" aria-label="Dismiss">
+            <XIcon className="w-4 h-4" />
+          </button>
+        </div>
+      </div>
+    </div>
+  );
+};
+
+export default UndoToast;
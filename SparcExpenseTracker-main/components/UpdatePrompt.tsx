@@ -0,0 +1,29 @@
+import React from 'react';
+import { ArrowPathIcon, XIcon } from './Icons';
+
+interface UpdatePromptProps {
+  onReload: () => void;
+  onDismiss: () => void;
+}
+
+// Unlike the undo toast this stays up until answered, since the new version only loads on reload.
+const UpdatePrompt: React.FC<UpdatePromptProps> = ({ onReload, onDismiss }) => (
+  <div className="fixed top-4 left-1/2 -translate-x-1/2 z-30 w-[calc(100%-2rem)] max-w-md animate-fade-in" role="status" aria-live="polite">
+    <div className="flex items-center justify-between px-4 py-3 bg-gray-900 text-white rounded-lg shadow-lg">
+      <span className="flex items-center text-sm">
+        <ArrowPathIcon className="w-4 h-4 mr-2 flex-shrink-0" />
+        Update available
+      </span>
+      <div className="flex items-center flex-shrink-0 ml-3">
+        <button onClick={onReload} className="px-2 py-1 text-sm font-semibold text-indigo-300 hover:text-indigo-200 uppercase">
+          Reload
+        </button>
+        <button onClick={onDismiss} className="p-1 ml-1 text-gray-400 hover:text-white" aria-label="Dismiss">
+          <XIcon className="w-4 h-4" />
+        </button>
+      </div>
+    </div>
+  </div>
+);
+
+export default UpdatePrompt;
@@ -1,4 +1,3 @@
-
 import type { Category } from './types';
 
 export enum Page {
@@ -27,3 +26,27 @@ export const CATEGORY_COLORS: Record<Category, string> = {
   Health: '#F87171',      // Red 400
   Other: '#9CA3AF'      // Gray 400
 };
+
+export const INCOME_CATEGORIES: Category[] = [
+  'Salary',
+  'Refund',
+  'Cashback',
+  'Interest',
+  'Other Income'
+];
+
+export const INCOME_CATEGORY_COLORS: Record<Category, string> = {
+  Salary: '#10B981',      // Emerald 500
+  Refund: '#14B8A6',      // Teal 500
+  Cashback: '#22C55E',    // Green 500
+  Interest: '#84CC16',    // Lime 500
+  'Other Income': '#6B7280' // Gray 500
+};
+
+// Fallback categories that can never be renamed or deleted.
+export const DEFAULT_EXPENSE_CATEGORY: Category = 'Other';
+export const DEFAULT_INCOME_CATEGORY: Category = 'Other Income';
+
+// Transfers don't belong to a user-managed category.
+export const TRANSFER_CATEGORY: Category = 'Transfer';
+export const TRANSFER_COLOR = '#818CF8'; // Indigo 400
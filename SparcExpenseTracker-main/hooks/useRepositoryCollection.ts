@@ -0,0 +1,67 @@
+import { useState, useEffect, useRef, Dispatch, SetStateAction } from 'react';
+import type { Repository, RepositoryStatus } from '../services/repositories';
+
+// Keeps a whole collection in React state, loaded from a repository on mount. After each change
+// only the records that were added, replaced or removed are written back, so unchanged records
+// must keep their object identity (as they do with the usual immutable update patterns).
+export function useRepositoryCollection<T>(
+  repository: Repository<T>,
+  getKey: (item: T) => string,
+  normalize: (items: T[]) => T[] = items => items
+): [T[], Dispatch<SetStateAction<T[]>>, RepositoryStatus] {
+  const [items, setItems] = useState<T[]>([]);
+  const [isLoaded, setIsLoaded] = useState(false);
+  const [hasLoadError, setHasLoadError] = useState(false);
+  const [hasSaveError, setHasSaveError] = useState(false);
+  // What the repository currently holds, by key. Null until loaded, which also blocks writes: a
+  // collection that failed to load must never be written back over the data it couldn't read.
+  const persistedRef = useRef<Map<string, T> | null>(null);
+  const latestItemsRef = useRef(items);
+  const writeQueueRef = useRef<Promise<void>>(Promise.resolve());
+
+  useEffect(() => {
+    let cancelled = false;
+    repository.getAll()
+      .then(loaded => {
+        if (cancelled) return;
+        const normalized = normalize(loaded);
+        persistedRef.current = new Map(normalized.map(item => [getKey(item), item]));
+        latestItemsRef.current = normalized;
+        setItems(normalized);
+        setIsLoaded(true);
+      })
+      .catch(error => {
+        console.error("Failed to load data from the database:", error);
+        if (!cancelled) setHasLoadError(true);
+      });
+    return () => { cancelled = true; };
+  }, [repository]);
+
+  // Writes run one at a time, each diffing the latest items against what has actually been
+  // committed. A failed write leaves that unchanged, so its records are retried with the next change.
+  useEffect(() => {
+    latestItemsRef.current = items;
+    if (!isLoaded) return;
+
+    writeQueueRef.current = writeQueueRef.current.then(async () => {
+      const persisted = persistedRef.current;
+      if (!persisted) return;
+      const latest = latestItemsRef.current;
+      const next = new Map(latest.map(item => [getKey(item), item]));
+      const puts = latest.filter(item => persisted.get(getKey(item)) !== item);
+      const deleteKeys = Array.from(persisted.keys()).filter(key => !next.has(key));
+      if (puts.length === 0 && deleteKeys.length === 0) return;
+
+      try {
+        await repository.applyChanges(puts, deleteKeys);
+        persistedRef.current = next;
+        setHasSaveError(false);
+      } catch (error) {
+        console.error("Failed to save changes to the database:", error);
+        setHasSaveError(true);
+      }
+    });
+  }, [items, isLoaded]);
+
+  return [items, setItems, { isLoaded, hasLoadError, hasSaveError }];
+}
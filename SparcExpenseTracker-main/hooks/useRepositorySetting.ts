@@ -0,0 +1,43 @@
+import { useState, useEffect, useRef, Dispatch, SetStateAction } from 'react';
+import { settingsRepository, type RepositoryStatus } from '../services/repositories';
+
+// Like useLocalStorage, but for a single value kept in the database's settings store.
+export function useRepositorySetting<T>(key: string, initialValue: T): [T, Dispatch<SetStateAction<T>>, RepositoryStatus] {
+  const [value, setValue] = useState<T>(initialValue);
+  const [isLoaded, setIsLoaded] = useState(false);
+  const [hasLoadError, setHasLoadError] = useState(false);
+  const [hasSaveError, setHasSaveError] = useState(false);
+  const loadedValueRef = useRef<T | null>(null);
+
+  useEffect(() => {
+    let cancelled = false;
+    settingsRepository.get<T>(key)
+      .then(stored => {
+        if (cancelled) return;
+        if (stored !== undefined) {
+          loadedValueRef.current = stored;
+          setValue(stored);
+        }
+        setIsLoaded(true);
+      })
+      .catch(error => {
+        console.error(error);
+        // Staying unloaded keeps the default from being saved over the value that couldn't be read.
+        if (!cancelled) setHasLoadError(true);
+      });
+    return () => { cancelled = true; };
+  }, [key]);
+
+  useEffect(() => {
+    // Don't write back the value we just loaded.
+    if (!isLoaded || value === loadedValueRef.current) return;
+    settingsRepository.set(key, value)
+      .then(() => setHasSaveError(false))
+      .catch(error => {
+        console.error(error);
+        setHasSaveError(true);
+      });
+  }, [key, value, isLoaded]);
+
+  return [value, setValue, { isLoaded, hasLoadError, hasSaveError }];
+}
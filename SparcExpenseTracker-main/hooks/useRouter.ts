@@ -0,0 +1,47 @@
+import { useState, useEffect, useCallback, useRef } from 'react';
+
+export interface RouterLocation {
+  pathname: string;
+  search: string;
+}
+
+const readLocation = (): RouterLocation => ({ pathname: window.location.pathname, search: window.location.search });
+
+// Keeps the current URL in state using the History API. `canLeave` is asked before the browser's
+// back and forward buttons change the page; returning false puts the previous URL back.
+export function useRouter(canLeave?: (to: RouterLocation) => boolean) {
+  const [location, setLocation] = useState<RouterLocation>(readLocation);
+  const locationRef = useRef(location);
+  const canLeaveRef = useRef(canLeave);
+  locationRef.current = location;
+  canLeaveRef.current = canLeave;
+
+  useEffect(() => {
+    const handlePopState = () => {
+      const next = readLocation();
+      if (canLeaveRef.current && !canLeaveRef.current(next)) {
+        const { pathname, search } = locationRef.current;
+        window.history.pushState(null, '', `${pathname}${search}`);
+        return;
+      }
+      locationRef.current = next;
+      setLocation(next);
+    };
+    window.addEventListener('popstate', handlePopState);
+    return () => window.removeEventListener('popstate', handlePopState);
+  }, []);
+
+  // `replace` swaps the current history entry, for changes like typing in a filter that shouldn't
+  // each take a press of the back button to undo.
+  const navigate = useCallback((to: string, options: { replace?: boolean } = {}) => {
+    const { pathname, search } = locationRef.current;
+    if (to === `${pathname}${search}`) return;
+    if (options.replace) window.history.replaceState(null, '', to);
+    else window.history.pushState(null, '', to);
+    const next = readLocation();
+    locationRef.current = next;
+    setLocation(next);
+  }, []);
+
+  return { location, navigate };
+}
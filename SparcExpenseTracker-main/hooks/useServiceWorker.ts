@@ -0,0 +1,46 @@
+import { useState, useEffect, useCallback, useRef } from 'react';
+
+// Registers the service worker in production builds, where sw.js is generated with the build's
+// files. A new version installs in the background and waits; `applyUpdate` switches to it and
+// reloads the page once it has taken over.
+export function useServiceWorker() {
+  const [waitingWorker, setWaitingWorker] = useState<ServiceWorker | null>(null);
+  const isUpdatingRef = useRef(false);
+
+  useEffect(() => {
+    // `import.meta.env` is missing when the source runs unbundled, as in AI Studio.
+    if (!import.meta.env?.PROD || !('serviceWorker' in navigator)) return;
+
+    // The first install also finishes as 'installed', but with no controller there's nothing to replace.
+    const trackInstalling = (worker: ServiceWorker) => {
+      worker.addEventListener('statechange', () => {
+        if (worker.state === 'installed' && navigator.serviceWorker.controller) setWaitingWorker(worker);
+      });
+    };
+
+    const handleControllerChange = () => {
+      if (isUpdatingRef.current) window.location.reload();
+    };
+    navigator.serviceWorker.addEventListener('controllerchange', handleControllerChange);
+
+    navigator.serviceWorker.register('/sw.js').then(registration => {
+      if (registration.waiting && navigator.serviceWorker.controller) setWaitingWorker(registration.waiting);
+      if (registration.installing) trackInstalling(registration.installing);
+      registration.addEventListener('updatefound', () => {
+        if (registration.installing) trackInstalling(registration.installing);
+      });
+    }, err => {
+      console.error('Service worker registration failed:', err);
+    });
+
+    return () => navigator.serviceWorker.removeEventListener('controllerchange', handleControllerChange);
+  }, []);
+
+  const applyUpdate = useCallback(() => {
+    if (!waitingWorker) return;
+    isUpdatingRef.current = true;
+    waitingWorker.postMessage({ type: 'SKIP_WAITING' });
+  }, [waitingWorker]);
+
+  return { isUpdateAvailable: waitingWorker !== null, applyUpdate };
+}
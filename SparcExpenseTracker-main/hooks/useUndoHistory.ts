@@ -0,0 +1,50 @@
+import { useCallback, useEffect, useRef, useState } from 'react';
+import { useRepositorySetting } from './useRepositorySetting';
+import { addHistoryEntry, applyHistoryEntry, createHistoryEntry, EMPTY_UNDO_HISTORY, type HistoryEntry, type UndoableData, type UndoHistory } from '../utils/undoHistory';
+
+// Records named data changes so they can be undone and redone. The history is kept in the
+// database's settings store so it survives a reload. Call `recordAction` right before making the
+// change it names; changes made without a name (loading, background updates, undo itself) are
+// not recorded. The label is state, so it commits in the same render as the change it names and
+// is cleared right after, even when the action ended up changing nothing.
+export function useUndoHistory(data: UndoableData, isDataLoaded: boolean, onApply: (changes: Partial<UndoableData>) => void) {
+  const [history, setHistory, historyStatus] = useRepositorySetting<UndoHistory>('undoHistory', EMPTY_UNDO_HISTORY);
+  const previousDataRef = useRef<UndoableData | null>(null);
+  const [pendingLabel, setPendingLabel] = useState<string | null>(null);
+
+  useEffect(() => {
+    if (!isDataLoaded) return;
+    const previous = previousDataRef.current;
+    previousDataRef.current = data;
+    if (!pendingLabel) return;
+    setPendingLabel(null);
+    const entry = previous && createHistoryEntry(pendingLabel, previous, data);
+    if (entry) {
+      setHistory(prev => ({ past: addHistoryEntry(prev.past, entry), future: [] }));
+    }
+  }, [data, isDataLoaded, pendingLabel]);
+
+  const recordAction = useCallback((label: string) => {
+    setPendingLabel(label);
+  }, []);
+
+  const undo = useCallback((): HistoryEntry | null => {
+    const entry = history.past[history.past.length - 1];
+    if (!entry) return null;
+    setPendingLabel(null);
+    onApply(applyHistoryEntry(data, entry, 'undo'));
+    setHistory({ past: history.past.slice(0, -1), future: [entry, ...history.future] });
+    return entry;
+  }, [history, data, onApply, setHistory]);
+
+  const redo = useCallback((): HistoryEntry | null => {
+    const [entry, ...remaining] = history.future;
+    if (!entry) return null;
+    setPendingLabel(null);
+    onApply(applyHistoryEntry(data, entry, 'redo'));
+    setHistory({ past: [...history.past, entry], future: remaining });
+    return entry;
+  }, [history, data, onApply, setHistory]);
+
+  return { history, status: historyStatus, recordAction, undo, redo };
+}
@@ -0,0 +1,146 @@
+const DB_NAME = 'sparc-expense-tracker';
+const DB_VERSION = 1;
+
+export const STORE_NAMES = {
+  expenses: 'expenses',
+  categories: 'categories',
+  settings: 'settings',
+} as const;
+
+export type StoreName = typeof STORE_NAMES[keyof typeof STORE_NAMES];
+
+// localStorage keys used before the move to IndexedDB, keyed by the store their data moves to.
+const LEGACY_KEYS = {
+  expenses: 'expenses',
+  categories: 'categories',
+  currency: 'currency',
+};
+
+const readLegacyValue = <T>(key: string): T | null => {
+  try {
+    const raw = window.localStorage.getItem(key);
+    return raw ? JSON.parse(raw) as T : null;
+  } catch (error) {
+    console.error(`Error reading legacy "${key}" from localStorage:`, error);
+    return null;
+  }
+};
+
+interface MigrationResult {
+  migrated: boolean;
+  skipped: number; // Legacy records that couldn't be stored
+}
+
+// Writes legacy records that have the store's key, skipping the rest. A failed put would abort
+// the whole upgrade transaction, and with it every later attempt to open the database.
+const putLegacyRecords = (store: IDBObjectStore, records: unknown[], keyPath: string, result: MigrationResult) => {
+  const skip = (record: unknown, error?: unknown) => {
+    console.error('Skipped a legacy record that could not be stored:', record, error);
+    result.skipped++;
+  };
+  records.forEach(record => {
+    const key = typeof record === 'object' && record !== null ? (record as Record<string, unknown>)[keyPath] : undefined;
+    if (typeof key !== 'string' || key === '') {
+      skip(record);
+      return;
+    }
+    try {
+      store.put(record).onerror = (event) => {
+        // Keeps the upgrade transaction alive.
+        event.preventDefault();
+        skip(record, (event.target as IDBRequest).error);
+      };
+    } catch (error) {
+      skip(record, error);
+    }
+  });
+};
+
+// Copies data from localStorage into the freshly created stores. This runs inside the upgrade
+// transaction, so it happens exactly once. Records without a key are skipped rather than allowed
+// to fail the upgrade.
+const migrateFromLocalStorage = (transaction: IDBTransaction): MigrationResult => {
+  const expenses = readLegacyValue<unknown[]>(LEGACY_KEYS.expenses);
+  const categories = readLegacyValue<unknown[]>(LEGACY_KEYS.categories);
+  const currency = readLegacyValue<unknown>(LEGACY_KEYS.currency);
+  // Skips from failed puts are counted once the transaction runs, before the database opens.
+  const result: MigrationResult = { migrated: Array.isArray(expenses) || Array.isArray(categories) || !!currency, skipped: 0 };
+
+  if (Array.isArray(expenses)) {
+    putLegacyRecords(transaction.objectStore(STORE_NAMES.expenses), expenses, 'id', result);
+  }
+  if (Array.isArray(categories)) {
+    putLegacyRecords(transaction.objectStore(STORE_NAMES.categories), categories, 'name', result);
+  }
+  if (currency) {
+    transaction.objectStore(STORE_NAMES.settings).put(currency, 'currency');
+  }
+  return result;
+};
+
+let dbPromise: Promise<IDBDatabase> | null = null;
+
+export const openDatabase = (): Promise<IDBDatabase> => {
+  if (dbPromise) return dbPromise;
+
+  dbPromise = new Promise((resolve, reject) => {
+    if (typeof indexedDB === 'undefined') {
+      reject(new Error("IndexedDB is not available in this browser."));
+      return;
+    }
+
+    let migration: MigrationResult | null = null;
+    const request = indexedDB.open(DB_NAME, DB_VERSION);
+
+    request.onupgradeneeded = (event) => {
+      const db = request.result;
+      const transaction = request.transaction!;
+
+      if (event.oldVersion < 1) {
+        const expenses = db.createObjectStore(STORE_NAMES.expenses, { keyPath: 'id' });
+        expenses.createIndex('date', 'date');
+        expenses.createIndex('category', 'category');
+        expenses.createIndex('transactionId', 'transactionId');
+        db.createObjectStore(STORE_NAMES.categories, { keyPath: 'name' });
+        db.createObjectStore(STORE_NAMES.settings);
+
+        migration = migrateFromLocalStorage(transaction);
+      }
+    };
+
+    request.onsuccess = () => {
+      // Only clear the old keys once the data is safely committed to IndexedDB, and keep them if
+      // any record was skipped so it isn't lost.
+      if (migration?.migrated && migration.skipped === 0) {
+        Object.values(LEGACY_KEYS).forEach(key => window.localStorage.removeItem(key));
+      } else if (migration?.skipped) {
+        console.warn(`${migration.skipped} legacy records couldn't be migrated and were left in localStorage.`);
+      }
+      resolve(request.result);
+    };
+
+    request.onerror = () => {
+      dbPromise = null;
+      reject(request.error);
+    };
+  });
+
+  return dbPromise;
+};
+
+// Wraps a request in a promise that settles with the request's result.
+export const promisifyRequest = <T>(request: IDBRequest<T>): Promise<T> => {
+  return new Promise((resolve, reject) => {
+    request.onsuccess = () => resolve(request.result);
+    request.onerror = () => reject(request.error);
+  });
+};
+
+// Resolves once a transaction commits, so callers know their writes are durable.
+export const transactionComplete = (transaction: IDBTransaction): Promise<void> => {
+  return new Promise((resolve, reject) => {
+    transaction.oncomplete = () => resolve();
+    transaction.onerror = () => reject(transaction.error);
+    transaction.onabort = () => reject(transaction.error);
+  });
+};
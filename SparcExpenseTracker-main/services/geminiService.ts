@@ -1,49 +1,71 @@
 import { GoogleGenAI, Type } from "@google/genai";
-import type { ParsedExpense, Expense } from '../types';
-import { CATEGORIES } from '../constants';
+import type { ParsedExpense, Expense, AiExample } from '../types';
+import { CATEGORIES, INCOME_CATEGORIES } from '../constants';
 import { sanitizeSmsText } from "../utils/textUtils";
+import { parseSmsLocally } from "./localSmsParser";
+import { applyLearnedCorrection, selectRelevantExamples } from "../utils/aiExamples";
 
-interface AiExpenseResponse extends ParsedExpense {
-  isExpense: boolean;
+interface AiExpenseResponse extends Omit<ParsedExpense, 'kind'> {
+  transactionType: 'expense' | 'income' | 'none';
 }
 
+// The part of a learned correction the model needs to see.
+type PromptExample = Pick<AiExample, 'text' | 'kind' | 'vendor' | 'category'>;
+
+const toPromptExample = ({ text, kind, vendor, category }: AiExample): PromptExample => ({ text, kind, vendor, category });
+
+const buildExamplesPrompt = (examples: PromptExample[]): string => {
+  if (examples.length === 0) return '';
+  const lines = examples.map(e => `- Text: ${JSON.stringify(e.text)} => transactionType: ${e.kind}, vendor: ${JSON.stringify(e.vendor)}, category: ${JSON.stringify(e.category)}`);
+  return `The user has corrected earlier results. Follow these examples for messages from the same merchant or in the same style:\n${lines.join('\n')}`;
+};
+
 // This function is for direct API call (AI Studio)
-const parseWithSdk = async (text: string, allCategories?: string[]): Promise<AiExpenseResponse | null> => {
+const parseWithSdk = async (text: string, allCategories?: string[], allIncomeCategories?: string[], examples: PromptExample[] = []): Promise<AiExpenseResponse | null> => {
   const ai = new GoogleGenAI({ apiKey: process.env.API_KEY });
   const categoriesToUse = allCategories && allCategories.length > 0 ? allCategories : CATEGORIES;
+  const incomeCategoriesToUse = allIncomeCategories && allIncomeCategories.length > 0 ? allIncomeCategories : INCOME_CATEGORIES;
 
   const expenseSchema = {
     type: Type.OBJECT,
     properties: {
-      isExpense: {
-        type: Type.BOOLEAN,
-        description: 'Set to true if the text describes a financial expense, otherwise set to false.'
+      transactionType: {
+        type: Type.STRING,
+        enum: ['expense', 'income', 'none'],
+        description: "'expense' for money spent, 'income' for money received, 'none' if the text is not a transaction."
       },
       amount: {
         type: Type.NUMBER,
-        description: 'The transaction amount. Omit this field if isExpense is false.'
+        description: "The transaction amount. Omit this field if transactionType is 'none'."
       },
       vendor: {
         type: Type.STRING,
-        description: 'The merchant name. Omit this field if isExpense is false.'
+        description: "The merchant name for an expense, or the payer for income. Omit this field if transactionType is 'none'."
       },
       description: {
           type: Type.STRING
       },
+      date: {
+        type: Type.STRING,
+        description: "The transaction date in YYYY-MM-DD format, only if the text states it."
+      },
       category: {
         type: Type.STRING,
-        description: `The expense category. Omit this field if isExpense is false. Must be one of: ${categoriesToUse.join(', ')}.`
+        description: `The transaction category. Omit this field if transactionType is 'none'. For an expense it must be one of: ${categoriesToUse.join(', ')}. For income it must be one of: ${incomeCategoriesToUse.join(', ')}.`
       }
     },
-    required: ['isExpense']
+    required: ['transactionType']
   };
 
   const prompt = `
     Analyze the following text, which is likely from an SMS or a notification about a financial transaction.
-    Your primary task is to determine if it's a spending transaction.
+    Your primary task is to determine whether money was spent, money was received, or neither.
+
+    - If it IS a spending transaction: Set 'transactionType' to 'expense' and extract the expense amount, the vendor name, and suggest an appropriate category from this list: ${JSON.stringify(categoriesToUse)}. The vendor should be the merchant name, not the bank or payment method.
+    - If money was RECEIVED (e.g., a salary credit, deposit, refund, cashback, interest): Set 'transactionType' to 'income' and extract the amount, the payer as the vendor, and suggest an appropriate category from this list: ${JSON.stringify(incomeCategoriesToUse)}.
+    - If it is NOT a transaction (e.g., an OTP, marketing message, balance inquiry): Set 'transactionType' to 'none' and omit all other fields.
 
-    - If it IS a spending transaction: Set 'isExpense' to true and extract the expense amount, the vendor name, and suggest an appropriate category from this list: ${JSON.stringify(categoriesToUse)}. The vendor should be the merchant name, not the bank or payment method.
-    - If it is NOT a spending transaction (e.g., a deposit, OTP, marketing message, balance inquiry): Set 'isExpense' to false and omit all other fields.
+    ${buildExamplesPrompt(examples)}
 
     Text to analyze: "${text}"
   `;
@@ -68,46 +90,68 @@ const parseWithSdk = async (text: string, allCategories?: string[]): Promise<AiE
 
 
 // This function is for proxy API call (Vercel)
-const parseWithProxy = async (text: string, allCategories?: string[]): Promise<AiExpenseResponse | null> => {
+const parseWithProxy = async (text: string, allCategories?: string[], allIncomeCategories?: string[], examples: PromptExample[] = []): Promise<AiExpenseResponse | null> => {
     const response = await fetch('/api/gemini', {
         method: 'POST',
         headers: {
             'Content-Type': 'application/json',
         },
-        body: JSON.stringify({ action: 'parse', text, allCategories }),
+        body: JSON.stringify({ action: 'parse', text, allCategories, allIncomeCategories, examples }),
     });
     if (!response.ok) {
         console.error("Proxy API call failed:", response.statusText);
         const errorBody = await response.text();
         console.error("Error body:", errorBody);
-        return null;
+        throw new Error(`Proxy API call failed with status ${response.status}`);
     }
     return response.json() as Promise<AiExpenseResponse | null>;
 }
 
-export const parseExpenseFromText = async (text: string, allCategories?: string[]): Promise<ParsedExpense | null> => {
-  try {
-    // Sanitize the input text to remove extra whitespace and special characters from copy-pasting.
-    const sanitizedText = sanitizeSmsText(text);
+// Thrown when a message needs the AI but there's no connection, so the caller can queue it and
+// try again once the device is back online.
+export class OfflineError extends Error {
+  constructor() {
+    super('The AI could not be reached while offline.');
+    this.name = 'OfflineError';
+  }
+}
+
+// fetch rejects with a TypeError when the request never reached the server.
+const isOfflineFailure = (error: unknown) => !navigator.onLine || error instanceof TypeError;
+
+// Local results at or above this confidence are used as-is without calling the AI.
+const LOCAL_CONFIDENCE_THRESHOLD = 0.8;
+
+// Calls the AI and validates its answer. Throws when the AI can't be reached, so callers can tell
+// a failed request apart from a message the model says isn't a transaction.
+const parseWithAi = async (text: string, allCategories?: string[], allIncomeCategories?: string[], examples: PromptExample[] = []): Promise<ParsedExpense | null> => {
     let aiResponse: AiExpenseResponse | null;
 
     // A simple check: if API_KEY is present on the client, we're likely in AI Studio.
     // Otherwise, we're in a production environment like Vercel and should use the proxy.
     if (process.env.API_KEY) {
-      aiResponse = await parseWithSdk(sanitizedText, allCategories);
+      aiResponse = await parseWithSdk(text, allCategories, allIncomeCategories, examples);
     } else {
-      aiResponse = await parseWithProxy(sanitizedText, allCategories);
+      aiResponse = await parseWithProxy(text, allCategories, allIncomeCategories, examples);
     }
 
-    if (aiResponse && aiResponse.isExpense && typeof aiResponse.amount === 'number' && typeof aiResponse.vendor === 'string') {
+    const kind = aiResponse?.transactionType;
+    if (aiResponse && (kind === 'expense' || kind === 'income') && typeof aiResponse.amount === 'number' && typeof aiResponse.vendor === 'string') {
         const parsedExpense: ParsedExpense = {
             amount: aiResponse.amount,
             vendor: aiResponse.vendor,
             // Fix: Cannot find name 'ai'. Use 'aiResponse.description' to access the description from the AI's response.
             description: aiResponse.description,
             category: aiResponse.category,
+            kind,
         };
-        const categoriesToUse = allCategories && allCategories.length > 0 ? allCategories : CATEGORIES;
+        // Only keep a date the model returned in the exact format we store.
+        if (aiResponse.date && /^\d{4}-\d{2}-\d{2}$/.test(aiResponse.date)) {
+            parsedExpense.date = aiResponse.date;
+        }
+        const categoriesToUse = kind === 'income'
+            ? (allIncomeCategories && allIncomeCategories.length > 0 ? allIncomeCategories : INCOME_CATEGORIES)
+            : (allCategories && allCategories.length > 0 ? allCategories : CATEGORIES);
 
         // Validate the category from the AI response case-insensitively.
         // If a match is found, use the correctly cased category name from our list.
@@ -126,8 +170,35 @@ export const parseExpenseFromText = async (text: string, allCategories?: string[
     }
 
     return null;
+};
+
+export const parseExpenseFromText = async (text: string, allCategories?: string[], allIncomeCategories?: string[], learnedExamples: AiExample[] = []): Promise<ParsedExpense | null> => {
+  // Sanitize the input text to remove extra whitespace and special characters from copy-pasting.
+  const sanitizedText = sanitizeSmsText(text);
+  const expenseCategories = allCategories && allCategories.length > 0 ? allCategories : CATEGORIES;
+  const incomeCategories = allIncomeCategories && allIncomeCategories.length > 0 ? allIncomeCategories : INCOME_CATEGORIES;
+  const withCorrections = (parsed: ParsedExpense) =>
+    applyLearnedCorrection(parsed, learnedExamples, parsed.kind === 'income' ? incomeCategories : expenseCategories);
+
+  // Most bank SMS follow a handful of fixed templates, so try the offline parser first.
+  const localResult = parseSmsLocally(sanitizedText, expenseCategories, incomeCategories);
+  if (localResult && localResult.confidence >= LOCAL_CONFIDENCE_THRESHOLD) {
+    return withCorrections(localResult.expense);
+  }
+
+  try {
+    const examples = selectRelevantExamples(sanitizedText, learnedExamples).map(toPromptExample);
+    const aiResult = await parseWithAi(sanitizedText, allCategories, allIncomeCategories, examples);
+    // The model rarely picks up dates; keep the one the local parser found.
+    if (aiResult && !aiResult.date && localResult?.expense.date) {
+      aiResult.date = localResult.expense.date;
+    }
+    return aiResult && withCorrections(aiResult);
   } catch (error) {
     console.error("Error parsing expense with Gemini:", error);
+    // Offline or the proxy failed: a partial local result is better than nothing.
+    if (localResult) return withCorrections(localResult.expense);
+    if (isOfflineFailure(error)) throw new OfflineError();
     return null;
   }
 };
@@ -0,0 +1,179 @@
+import type { ParsedExpense } from '../types';
+
+export interface LocalParseResult {
+  expense: ParsedExpense;
+  // 0 to 1: how many of the fields we care about were found in a recognised format.
+  confidence: number;
+}
+
+// Weights for each piece of evidence. A message with an amount, a direction and a merchant scores
+// 0.85 before category and date, which is enough to skip the AI call.
+const CONFIDENCE_WEIGHTS = {
+  amount: 0.35,
+  direction: 0.25,
+  vendor: 0.25,
+  category: 0.1,
+  date: 0.05,
+};
+
+const NON_TRANSACTION_PATTERN = /\b(otp|one[- ]time password|verification code|is due|due on|will be debited|requested|request of)\b/i;
+
+// Currency markers banks use in SMS, e.g. "Rs.1,200.00", "INR 500", "₹99". The lookbehind keeps
+// the "rs" ending a word like "Flowers 123" from reading as a currency.
+const AMOUNT_PATTERN = /(?<![a-z])(?:rs\.?|inr|₹)\s*([\d,]+(?:\.\d{1,2})?)/gi;
+// Amounts right after these words are balances or limits, not the transaction amount.
+const BALANCE_PREFIX_PATTERN = /(bal(ance)?|limit|avl\.?|available)[\s:.-]*(is|of)?[\s:.-]*$/i;
+
+const DEBIT_PATTERN = /\b(debited|spent|paid|sent|withdrawn|purchase|charged|payment of|txn of)\b/i;
+const CREDIT_PATTERN = /\b(credited|received|deposited|refund(ed)?|cashback)\b/i;
+
+// Merchant fields in the order we trust them. "Paid to" comes before "at", which often
+// introduces a time instead ("paid to uber at 14:30"). A merchant after "at" ends at the amount
+// too ("shopping at X for Rs 500").
+const EXPENSE_VENDOR_PATTERNS: RegExp[] = [
+  /\binfo[:\s-]+([^.,;]+)/i,
+  /\bto\s+vpa\s+([\w.-]+@[\w.-]+)/i,
+  /\b(?:paid|sent|trf|transfer(?:red)?)\s+to\s+(.+?)(?=\s+(?:on|via|ref|from|upi|a\/c|at)\b|[.,;]\s|[.,;]?$)/i,
+  /\bat\s+(.+?)(?=\s+(?:on|via|using|ref|txn|avl|with|for|at)\b|\s+(?:rs|inr)\b|\s*₹|[.,;]\s|[.,;]?$)/i,
+  /\bcredited to\s+(?!your\b)(?!a\/c\b)(.+?)(?=\s+(?:on|via|ref|upi|at)\b|[.,;]\s|[.,;]?$)/i,
+  /\bto\s+(?!your\b)(?!a\/c\b)([a-z][\w .&'-]*?)(?=\s+(?:on|via|ref|upi|at)\b|[.,;]\s|[.,;]?$)/i,
+];
+
+const INCOME_VENDOR_PATTERNS: RegExp[] = [
+  /\binfo[:\s-]+([^.,;]+)/i,
+  /\b(?:from|by)\s+vpa\s+([\w.-]+@[\w.-]+)/i,
+  /\b(?:from|by)\s+(?!a\/c\b)(?!your\b)(.+?)(?=\s+(?:on|via|ref|upi|into|to)\b|[.,;]\s|[.,;]?$)/i,
+];
+
+// Keyword hints for the default categories. Only used when the user still has a category by that name.
+const CATEGORY_KEYWORDS: { category: string; pattern: RegExp }[] = [
+  { category: 'Food', pattern: /swiggy|zomato|restaurant|cafe|coffee|starbucks|domino|pizza|mcdonald|kfc|burger|bakery|\bdine|\bfood|\beats\b/i },
+  { category: 'Transport', pattern: /uber|\bola\b|rapido|metro|irctc|railway|petrol|fuel|hpcl|bpcl|indian ?oil|\bshell\b|fastag|parking|airline|indigo|vistara/i },
+  { category: 'Shopping', pattern: /amazon|amzn|flipkart|myntra|ajio|nykaa|meesho|\bmall\b|\bstore|\bmart\b|retail|\bshop/i },
+  { category: 'Utilities', pattern: /electricity|bescom|\bwater\b|\bgas\b|broadband|airtel|jio|vodafone|\bvi\b|bsnl|recharge|\bdth\b|bill ?pay/i },
+  { category: 'Entertainment', pattern: /netflix|prime video|hotstar|spotify|bookmyshow|pvr|inox|youtube|cinema|movie/i },
+  { category: 'Health', pattern: /pharma|pharmacy|medical|hospital|clinic|apollo|medplus|1mg|netmeds|diagnostic|\blabs?\b/i },
+];
+
+const INCOME_CATEGORY_KEYWORDS: { category: string; pattern: RegExp }[] = [
+  { category: 'Salary', pattern: /salary|\bsal\b|payroll/i },
+  { category: 'Refund', pattern: /refund|reversal|reversed/i },
+  { category: 'Cashback', pattern: /cashback|cash back|reward/i },
+  { category: 'Interest', pattern: /interest|\bint\b/i },
+];
+
+const MONTHS = ['jan', 'feb', 'mar', 'apr', 'may', 'jun', 'jul', 'aug', 'sep', 'oct', 'nov', 'dec'];
+
+const findAmount = (text: string): number | null => {
+  for (const match of text.matchAll(AMOUNT_PATTERN)) {
+    const preceding = text.slice(Math.max(0, (match.index ?? 0) - 20), match.index);
+    if (BALANCE_PREFIX_PATTERN.test(preceding)) continue;
+    const amount = parseFloat(match[1].replace(/,/g, ''));
+    if (amount > 0) return amount;
+  }
+  return null;
+};
+
+// Whichever keyword comes first wins, so "debited ... and credited to VPA x" is an expense
+// while "credited to your a/c ... by VPA x" is income.
+const findKind = (text: string): ParsedExpense['kind'] | null => {
+  const debitIndex = text.search(DEBIT_PATTERN);
+  const creditIndex = text.search(CREDIT_PATTERN);
+  if (debitIndex === -1 && creditIndex === -1) return null;
+  if (creditIndex === -1) return 'expense';
+  if (debitIndex === -1) return 'income';
+  return debitIndex < creditIndex ? 'expense' : 'income';
+};
+
+const toTitleCase = (value: string) => value.toLowerCase().replace(/\b[a-z]/g, c => c.toUpperCase());
+
+// Turns a raw merchant field ("UPI/P2M/412345678/SWIGGY LTD", "swiggy.upi@axisbank") into a display name.
+const cleanVendor = (raw: string): string | null => {
+  // Drop the payment rail in front of the name, e.g. "NEFT from ACME CORP".
+  let vendor = raw.trim().replace(/^(neft|imps|rtgs|upi)\b\s*(from|by|-)?\s*/i, '');
+  if (vendor.includes('@')) {
+    vendor = vendor.split('@')[0].replace(/[._-]?(upi|pay|payments?)$/i, '').replace(/[._-]+/g, ' ');
+  }
+  if (vendor.includes('/')) {
+    const segments = vendor.split('/').map(s => s.trim()).filter(s => s && !/^\d+$/.test(s) && !/^(upi|p2m|p2a|imps|neft|pos|ecom)$/i.test(s));
+    vendor = segments[segments.length - 1] ?? '';
+  }
+  vendor = vendor.replace(/\s+/g, ' ').replace(/[*#:-]+$/g, '').trim();
+  if (vendor.length < 2 || /^[\dx*]+$/i.test(vendor)) return null;
+  // A time or date caught by "at" ("at 14:30 hrs", "at 05-03-24") isn't a merchant.
+  if (/^\d{1,2}[:.]\d{2}\b/.test(vendor) || /^\d{1,2}[-/.]\d{1,2}[-/.]\d{2,4}\b/.test(vendor)) return null;
+  // Bank SMS and UPI handles use a single case; keep mixed-case names as the bank wrote them.
+  return vendor === vendor.toUpperCase() || vendor === vendor.toLowerCase() ? toTitleCase(vendor) : vendor;
+};
+
+const findVendor = (text: string, kind: ParsedExpense['kind']): string | null => {
+  const patterns = kind === 'income' ? INCOME_VENDOR_PATTERNS : EXPENSE_VENDOR_PATTERNS;
+  for (const pattern of patterns) {
+    const match = text.match(pattern);
+    const vendor = match ? cleanVendor(match[1]) : null;
+    if (vendor) return vendor;
+  }
+  return null;
+};
+
+const toIsoDate = (year: number, month: number, day: number): string | null => {
+  const fullYear = year < 100 ? 2000 + year : year;
+  const date = new Date(Date.UTC(fullYear, month - 1, day));
+  if (date.getUTCFullYear() !== fullYear || date.getUTCMonth() !== month - 1 || date.getUTCDate() !== day) return null;
+  return date.toISOString().slice(0, 10);
+};
+
+// Indian bank SMS write dates day-first: 05-03-24, 05/03/2024, 05-Mar-24, 05Mar2024. ISO dates are also accepted.
+const findDate = (text: string): string | null => {
+  const iso = text.match(/\b(\d{4})-(\d{2})-(\d{2})\b/);
+  if (iso) return toIsoDate(+iso[1], +iso[2], +iso[3]);
+
+  const numeric = text.match(/\b(\d{1,2})[-/.](\d{1,2})[-/.](\d{2}|\d{4})\b/);
+  if (numeric) return toIsoDate(+numeric[3], +numeric[2], +numeric[1]);
+
+  const named = text.match(/\b(\d{1,2})[-\s]?(jan|feb|mar|apr|may|jun|jul|aug|sep|oct|nov|dec)[a-z]*[-\s,]?(\d{2}|\d{4})\b/i);
+  if (named) return toIsoDate(+named[3], MONTHS.indexOf(named[2].toLowerCase()) + 1, +named[1]);
+
+  return null;
+};
+
+const findCategory = (text: string, vendor: string | null, kind: ParsedExpense['kind'], categories: string[]): string | null => {
+  const keywords = kind === 'income' ? INCOME_CATEGORY_KEYWORDS : CATEGORY_KEYWORDS;
+  // The merchant name is the strongest hint; fall back to the whole message.
+  const haystacks = vendor ? [vendor, text] : [text];
+  for (const haystack of haystacks) {
+    const hit = keywords.find(k => k.pattern.test(haystack));
+    if (hit) {
+      const match = categories.find(c => c.toLowerCase() === hit.category.toLowerCase());
+      if (match) return match;
+    }
+  }
+  return null;
+};
+
+// Deterministic parser for the fixed templates used by bank, card and UPI SMS. Returns null when
+// the text has no amount or looks like an OTP or reminder, so the caller can defer to the AI.
+export const parseSmsLocally = (text: string, expenseCategories: string[], incomeCategories: string[]): LocalParseResult | null => {
+  if (!text || NON_TRANSACTION_PATTERN.test(text)) return null;
+
+  const amount = findAmount(text);
+  if (amount === null) return null;
+
+  const detectedKind = findKind(text);
+  const kind = detectedKind ?? 'expense';
+  const vendor = findVendor(text, kind);
+  const category = findCategory(text, vendor, kind, kind === 'income' ? incomeCategories : expenseCategories);
+  const date = findDate(text);
+
+  const expense: ParsedExpense = { amount, vendor: vendor ?? '', kind };
+  if (category) expense.category = category;
+  if (date) expense.date = date;
+
+  const confidence = CONFIDENCE_WEIGHTS.amount
+    + (detectedKind ? CONFIDENCE_WEIGHTS.direction : 0)
+    + (vendor ? CONFIDENCE_WEIGHTS.vendor : 0)
+    + (category ? CONFIDENCE_WEIGHTS.category : 0)
+    + (date ? CONFIDENCE_WEIGHTS.date : 0);
+
+  return { expense, confidence: Math.round(confidence * 100) / 100 };
+};
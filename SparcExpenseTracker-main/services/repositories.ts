@@ -0,0 +1,50 @@
+import type { Expense, CategoryDefinition } from '../types';
+import { openDatabase, promisifyRequest, transactionComplete, STORE_NAMES, StoreName } from './db';
+
+export interface Repository<T> {
+  getAll: () => Promise<T[]>;
+  // Writes and deletes records in a single IndexedDB transaction.
+  applyChanges: (puts: T[], deleteKeys: string[]) => Promise<void>;
+}
+
+// How a collection or setting kept in the database is doing. Data that failed to load is never
+// written back; a failed save is retried with the next change.
+export interface RepositoryStatus {
+  isLoaded: boolean;
+  hasLoadError: boolean;
+  hasSaveError: boolean;
+}
+
+const createRepository = <T>(storeName: StoreName): Repository<T> => ({
+  getAll: async () => {
+    const db = await openDatabase();
+    return promisifyRequest(db.transaction(storeName, 'readonly').objectStore(storeName).getAll() as IDBRequest<T[]>);
+  },
+
+  applyChanges: async (puts, deleteKeys) => {
+    const db = await openDatabase();
+    const transaction = db.transaction(storeName, 'readwrite');
+    const store = transaction.objectStore(storeName);
+    deleteKeys.forEach(key => store.delete(key));
+    puts.forEach(item => store.put(item));
+    return transactionComplete(transaction);
+  },
+});
+
+export const expenseRepository = createRepository<Expense>(STORE_NAMES.expenses);
+export const categoryRepository = createRepository<CategoryDefinition>(STORE_NAMES.categories);
+
+// Single values (like the selected currency) stored under a fixed key.
+export const settingsRepository = {
+  get: async <T>(key: string): Promise<T | undefined> => {
+    const db = await openDatabase();
+    return promisifyRequest(db.transaction(STORE_NAMES.settings, 'readonly').objectStore(STORE_NAMES.settings).get(key) as IDBRequest<T | undefined>);
+  },
+
+  set: async <T>(key: string, value: T): Promise<void> => {
+    const db = await openDatabase();
+    const transaction = db.transaction(STORE_NAMES.settings, 'readwrite');
+    transaction.objectStore(STORE_NAMES.settings).put(value, key);
+    return transactionComplete(transaction);
+  },
+};
@@ -1,74 +1,84 @@
-const CACHE_NAME = 'sparc-expense-tracker-cache-v2';
-const APP_SHELL_URLS = [
-  '/',
-  '/index.html',
-  '/manifest.json',
-  '/vite.svg',
-  // Cache key external resources used in AI Studio
-  'https://cdn.tailwindcss.com',
-  'https://fonts.googleapis.com/css2?family=Inter:wght@400;500;600;700&display=swap'
-];
+// The production build prepends `self.__PRECACHE_MANIFEST` with the build's version and every file
+// it emitted (see vite.config.ts). Without it, as under the dev server, nothing is precached.
+const { version: BUILD_VERSION, urls: PRECACHE_URLS } = self.__PRECACHE_MANIFEST || { version: 'dev', urls: [] };
+const CACHE_PREFIX = 'sparc-expense-tracker-';
+const CACHE_NAME = `${CACHE_PREFIX}${BUILD_VERSION}`;
+// Fonts and other files the build doesn't produce, kept across versions.
+const RUNTIME_CACHE_NAME = `${CACHE_PREFIX}runtime`;
 
+// Installing fails if any file can't be fetched, so a version is only ever used complete. The new
+// version then waits until the app asks it to take over, instead of swapping files under an open page.
 self.addEventListener('install', (event) => {
   event.waitUntil(
-    caches.open(CACHE_NAME).then((cache) => {
-      console.log('Opened cache');
-      return cache.addAll(APP_SHELL_URLS).catch(err => {
-        console.error('Failed to cache app shell:', err);
-      });
-    })
+    caches.open(CACHE_NAME).then((cache) => cache.addAll(PRECACHE_URLS))
+  );
+});
+
+self.addEventListener('message', (event) => {
+  if (event.data && event.data.type === 'SKIP_WAITING') {
+    self.skipWaiting();
+  }
+});
+
+self.addEventListener('activate', (event) => {
+  event.waitUntil(
+    caches.keys().then((cacheNames) => Promise.all(
+      cacheNames
+        .filter((cacheName) => cacheName.startsWith(CACHE_PREFIX) && cacheName !== CACHE_NAME && cacheName !== RUNTIME_CACHE_NAME)
+        .map((cacheName) => caches.delete(cacheName))
+    )).then(() => self.clients.claim())
   );
 });
 
+// Text shared to the app, like an SMS, is posted here by the share target in manifest.json. It is
+// handed to the Add screen in the query string, which the app removes once it has read it.
+const handleShareTarget = async (request) => {
+  const formData = await request.formData();
+  const text = [formData.get('text'), formData.get('url')].filter(Boolean).join(' ') || formData.get('title') || '';
+  return Response.redirect(`/add?text=${encodeURIComponent(text)}`, 303);
+};
+
 self.addEventListener('fetch', (event) => {
-  if (event.request.method !== 'GET') {
+  const { request } = event;
+  const url = new URL(request.url);
+  if (request.method === 'POST' && url.origin === self.location.origin && url.pathname === '/share-target') {
+    event.respondWith(handleShareTarget(request));
+    return;
+  }
+  if (request.method !== 'GET') {
     return;
   }
-  
-  // For navigation requests, use a network-first strategy
-  if (event.request.mode === 'navigate') {
+  // AI requests always go to the network; the app queues them itself while offline.
+  if (url.origin === self.location.origin && url.pathname.startsWith('/api/')) {
+    return;
+  }
+
+  // Every route is the same single-page app, so navigations get the precached page. That keeps the
+  // page and its hashed bundles from the same build, and lets the app start with no connection.
+  if (request.mode === 'navigate') {
     event.respondWith(
-      fetch(event.request).catch(() => caches.match('/index.html'))
+      caches.open(CACHE_NAME)
+        .then((cache) => cache.match('/index.html'))
+        .then((response) => response || fetch(request))
     );
     return;
   }
 
-  // For other requests, use a stale-while-revalidate strategy
   event.respondWith(
-    caches.match(event.request).then((response) => {
-      const fetchPromise = fetch(event.request).then((networkResponse) => {
-        // Check if we received a valid response to cache
-        if (networkResponse && networkResponse.status === 200) {
-            const responseToCache = networkResponse.clone();
-            caches.open(CACHE_NAME).then((cache) => {
-              cache.put(event.request, responseToCache);
-            });
-        }
-        return networkResponse;
-      });
-
-      // Return cached response if available, otherwise wait for network
-      return response || fetchPromise;
-    }).catch(error => {
-      console.error('Fetch failed:', error);
-      // Fallback could be added here for a true offline experience
-    })
-  );
-});
-
-
-self.addEventListener('activate', (event) => {
-  const cacheWhitelist = [CACHE_NAME];
-  event.waitUntil(
-    caches.keys().then((cacheNames) => {
-      return Promise.all(
-        cacheNames.map((cacheName) => {
-          if (cacheWhitelist.indexOf(cacheName) === -1) {
-            console.log('Deleting old cache:', cacheName);
-            return caches.delete(cacheName);
+    caches.open(CACHE_NAME).then((cache) => cache.match(request)).then((precached) => {
+      if (precached) {
+        return precached;
+      }
+      // Anything else, like Google Fonts, is stale-while-revalidate.
+      return caches.open(RUNTIME_CACHE_NAME).then((cache) => cache.match(request).then((cached) => {
+        const fetchPromise = fetch(request).then((networkResponse) => {
+          if (networkResponse && (networkResponse.ok || networkResponse.type === 'opaque')) {
+            cache.put(request, networkResponse.clone());
           }
-        })
-      );
+          return networkResponse;
+        }).catch((error) => cached || Promise.reject(error));
+        return cached || fetchPromise;
+      }));
     })
   );
-});
\ No newline at end of file
+});
@@ -1,3 +1,6 @@
+// 'expense' is money going out, 'income' is money coming in and 'transfer' moves
+// money between your own accounts without affecting spend or income totals.
+export type TransactionKind = 'expense' | 'income' | 'transfer';
 
 export interface Expense {
   id: string;
@@ -7,10 +10,27 @@ export interface Expense {
   category: string;
   date: string; // ISO string format
   notes?: string; // Notes are shared across all splits of a transaction
+  kind?: TransactionKind; // Shared across splits. Missing on older records, which are expenses.
+  recurringId?: string; // Set when the transaction was created from a recurring series.
+  // Set when the transaction was made in a currency other than the base currency.
+  // `amount` is always in the base currency; `originalAmount` is this split in `currency`.
+  currency?: string;
+  originalAmount?: number;
+  importId?: string; // Identifies the statement entry (e.g. an OFX FITID) this was imported from.
+  tags?: string[]; // Free-form labels, shared across all splits of a transaction
+  rawVendor?: string; // The vendor as parsed or imported, when a merchant alias replaced it
+  deletedAt?: string; // ISO timestamp, set while the transaction is in the trash
+  accountId?: string; // The account the money left (or, for income, arrived in). Shared across splits.
+  toAccountId?: string; // For transfers, the account the money moved into
+  sharing?: ExpenseSharing; // Set when the bill was split with other people. Shared across splits.
+  settlement?: Settlement; // Set on the transfer recording money settled with a contact
 }
 
 export type Category = string;
 
+// Categories are scoped to either spending or income; transfers use a fixed category.
+export type CategoryKind = 'expense' | 'income';
+
 export interface CustomCategory {
   name: string;
   color: string;
@@ -19,6 +39,8 @@ export interface CustomCategory {
 // A full category definition used for managing all categories
 export interface CategoryDefinition extends CustomCategory {
   isDefault: boolean;
+  kind?: CategoryKind; // Missing on older records, which are expense categories.
+  budget?: number; // Optional monthly spending limit for expense categories.
 }
 
 export interface ParsedExpense {
@@ -26,10 +48,122 @@ export interface ParsedExpense {
     vendor:string;
     description?: string;
     category?: Category;
+    kind?: Exclude<TransactionKind, 'transfer'>;
+    date?: string; // YYYY-MM-DD, when the message states one
+}
+
+// A correction the user made to a parsed SMS, replayed to the AI as a few-shot example.
+export interface AiExample {
+  id: string;
+  text: string; // The message as it was parsed
+  kind: Exclude<TransactionKind, 'transfer'>;
+  vendor: string; // What the user saved
+  category: Category;
+  suggestedVendor: string; // What the parser returned, used to recognise the merchant again
+  suggestedCategory?: Category;
+  updatedAt: string; // ISO timestamp
+}
+
+export type AccountType = 'bank' | 'card' | 'upi' | 'cash' | 'wallet';
+
+// A bank account, card or other place money is paid from or received into.
+export interface Account {
+  id: string;
+  name: string;
+  type: AccountType;
+  openingBalance: number; // In the base currency; negative for money owed, e.g. on a credit card
+  last4?: string; // The digits banks quote in SMS, e.g. "card ending 1234"
+}
+
+// Someone expenses are shared with.
+export interface Contact {
+  id: string;
+  name: string;
+}
+
+export type ShareMode = 'equal' | 'exact' | 'percentage' | 'shares';
+
+export interface PersonShare {
+  contactId: string;
+  value: number; // As entered: an amount, a percentage or a number of shares; 1 for equal splits
+  amount: number; // What this person owes for the bill, in the base currency
+}
+
+// How a bill was divided. The transaction's own splits hold only our share, so spend totals
+// leave out what other people owe.
+export interface ExpenseSharing {
+  mode: ShareMode;
+  total: number; // The whole bill, in the transaction's currency
+  myValue: number; // Our part as entered, like `PersonShare.value`
+  shares: PersonShare[]; // Everyone else's part
+  paidBy?: string; // A contact's id when they paid the bill; missing when we paid it
+}
+
+// Money that changed hands to settle what was owed for shared bills.
+export interface Settlement {
+  contactId: string;
+  direction: 'received' | 'paid';
+}
+
+// A merchant's display name and the raw vendor strings that stand for it.
+export interface Merchant {
+  id: string;
+  name: string;
+  aliases: string[]; // Compared ignoring case, punctuation and spacing
 }
 
+export type RuleMatchType = 'contains' | 'equals' | 'regex';
+
+// A user-defined rule that sets the category, vendor name and tags of matching transactions.
+export interface CategoryRule {
+  id: string;
+  kind: Exclude<TransactionKind, 'transfer'>; // Rules only match transactions of this kind
+  matchType: RuleMatchType;
+  pattern: string; // Compared with the vendor, ignoring case
+  minAmount?: number; // Inclusive, in the base currency
+  maxAmount?: number;
+  category?: Category;
+  renameTo?: string;
+  tags?: string[];
+}
+
+// The shape used to create or update a transaction and all of its splits.
+export interface TransactionInput {
+  vendor: string;
+  date: string;
+  notes?: string;
+  kind: TransactionKind;
+  splits: { amount: number; category: string; originalAmount?: number }[]; // `amount` is in the base currency
+  recurringId?: string;
+  currency?: string; // Only set for foreign-currency transactions
+  importId?: string;
+  tags?: string[];
+  rawVendor?: string;
+  accountId?: string;
+  toAccountId?: string;
+  sharing?: ExpenseSharing;
+  settlement?: Settlement;
+}
+
+export type RecurrenceFrequency = 'daily' | 'weekly' | 'monthly' | 'yearly';
+
+// A template that materializes a real transaction every time an occurrence falls due.
+export interface RecurringTransaction extends Omit<TransactionInput, 'date' | 'recurringId' | 'importId' | 'rawVendor' | 'settlement'> {
+  id: string;
+  frequency: RecurrenceFrequency;
+  startDate: string; // YYYY-MM-DD, the first occurrence and the anchor for later ones
+  endDate?: string; // YYYY-MM-DD, inclusive
+  nextDueDate: string; // YYYY-MM-DD, the earliest occurrence not yet materialized
+}
+
+// How far an edit to a transaction from a recurring series reaches.
+export type RecurringEditScope = 'occurrence' | 'future';
+
 export interface Currency {
   code: string;
   name: string;
   symbol: string;
-}
\ No newline at end of file
+}
+
+// How many units of the base currency one unit of each other currency is worth, keyed by currency code.
+export type ExchangeRates = Record<string, number>;
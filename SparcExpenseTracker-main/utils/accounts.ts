@@ -0,0 +1,103 @@
+import type { Account, AccountType, Expense, RecurringTransaction } from '../types';
+import { getTransactionKind } from './transactionUtils';
+import { groupByTransaction } from './expenseFilters';
+import { getOthersShare } from './sharing';
+
+export const ACCOUNT_TYPE_LABELS: Record<AccountType, string> = {
+  bank: 'Bank account',
+  card: 'Card',
+  upi: 'UPI',
+  cash: 'Cash',
+  wallet: 'Wallet',
+};
+
+// Banks quote an account or card by its last digits in many ways: "card ending 1234",
+// "A/c XX1234", "a/c no. ****123", "Acct **1234". Some only show three digits.
+const ACCOUNT_ENDING_PATTERNS = [
+  /\bend(?:ing|s)?(?:\s+(?:with|in))?\s*[x*]*\s*(\d{3,4})\b/i,
+  /\b(?:a\/c|acct|account|card)(?:\s*(?:no\.?|number))?\s*[:.-]?\s*[x*.]*\s*(\d{3,4})\b/i,
+  /[x*]{2,}(\d{3,4})\b/i,
+];
+
+export const extractAccountEnding = (text: string): string | null => {
+  for (const pattern of ACCOUNT_ENDING_PATTERNS) {
+    const match = text.match(pattern);
+    if (match) return match[1];
+  }
+  return null;
+};
+
+// Finds the account a message refers to by the digits it quotes.
+export const matchAccountByText = (text: string, accounts: Account[]): Account | null => {
+  const ending = extractAccountEnding(text);
+  if (!ending) return null;
+  return accounts.find(a => a.last4 && a.last4.endsWith(ending)) ?? null;
+};
+
+// How much a split moves the given account's balance: income adds, spending and transfers out
+// subtract, and transfers in add.
+const getBalanceChange = (expense: Expense, accountId: string): number => {
+  const kind = getTransactionKind(expense);
+  let change = 0;
+  if (expense.accountId === accountId) change += kind === 'income' ? expense.amount : -expense.amount;
+  if (kind === 'transfer' && expense.toAccountId === accountId) change += expense.amount;
+  return change;
+};
+
+// A shared bill we paid took the whole amount out of the account, not just our share; one a
+// contact paid took nothing.
+const getTransactionBalanceChange = (splits: Expense[], accountId: string): number => {
+  const [first] = splits;
+  if (first.sharing?.paidBy) return 0;
+  const change = splits.reduce((sum, split) => sum + getBalanceChange(split, accountId), 0);
+  return first.accountId === accountId ? change - getOthersShare(splits) : change;
+};
+
+// Trashed transactions are expected to be left out by the caller.
+export const getAccountBalances = (accounts: Account[], expenses: Expense[]): Record<string, number> => {
+  const transactions = groupByTransaction(expenses);
+  return Object.fromEntries(accounts.map(account => [
+    account.id,
+    transactions.reduce((balance, splits) => balance + getTransactionBalanceChange(splits, account.id), account.openingBalance),
+  ]));
+};
+
+export interface StatementEntry {
+  transaction: Expense[]; // The transaction's splits
+  change: number;
+  balance: number; // After this transaction
+}
+
+// Every transaction that touched the account with the running balance after it, oldest first.
+export const getAccountStatement = (account: Account, expenses: Expense[]): StatementEntry[] => {
+  const transactions = groupByTransaction(expenses)
+    .filter(splits => splits[0].accountId === account.id || splits[0].toAccountId === account.id)
+    .sort((a, b) => a[0].date.localeCompare(b[0].date) || a[0].transactionId.localeCompare(b[0].transactionId, undefined, { numeric: true }));
+  let balance = account.openingBalance;
+  return transactions.map(transaction => {
+    const change = getTransactionBalanceChange(transaction, account.id);
+    balance += change;
+    return { transaction, change, balance };
+  });
+};
+
+// Unchanged records are returned as the same objects, so only the changed ones get written.
+export const clearAccountFromExpenses = (expenses: Expense[], accountId: string): Expense[] =>
+  expenses.map(expense => {
+    if (expense.accountId !== accountId && expense.toAccountId !== accountId) return expense;
+    return {
+      ...expense,
+      accountId: expense.accountId === accountId ? undefined : expense.accountId,
+      toAccountId: expense.toAccountId === accountId ? undefined : expense.toAccountId,
+    };
+  });
+
+export const clearAccountFromRecurring = (series: RecurringTransaction[], accountId: string): RecurringTransaction[] =>
+  series.map(s => {
+    if (s.accountId !== accountId && s.toAccountId !== accountId) return s;
+    return {
+      ...s,
+      accountId: s.accountId === accountId ? undefined : s.accountId,
+      toAccountId: s.toAccountId === accountId ? undefined : s.toAccountId,
+    };
+  });
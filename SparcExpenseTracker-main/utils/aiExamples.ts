@@ -0,0 +1,68 @@
+import type { AiExample, ParsedExpense } from '../types';
+import { generateTransactionId } from './transactionUtils';
+
+// Older corrections are dropped once the store grows past this.
+export const MAX_AI_EXAMPLES = 100;
+// How many examples go into a single parse prompt.
+export const PROMPT_EXAMPLE_LIMIT = 5;
+
+export type AiCorrection = Omit<AiExample, 'id' | 'updatedAt'>;
+
+// Words every bank message shares, which say nothing about the merchant.
+const COMMON_WORDS = new Set([
+  'the', 'and', 'for', 'you', 'your', 'has', 'have', 'been', 'was', 'with', 'from', 'via', 'not', 'call', 'info',
+  'bank', 'card', 'account', 'acct', 'avl', 'bal', 'balance', 'debited', 'credited', 'spent', 'paid', 'sent', 'received',
+  'txn', 'transaction', 'ref', 'upi', 'imps', 'neft', 'rtgs', 'inr', 'usd', 'eur', 'gbp', 'dear', 'customer', 'thank',
+]);
+
+const normalize = (value: string) => value.trim().toLowerCase();
+
+const getKeywords = (text: string): Set<string> => new Set(
+  text.toLowerCase().split(/[^a-z0-9]+/).filter(word => word.length >= 3 && !/^\d+$/.test(word) && !COMMON_WORDS.has(word))
+);
+
+const isSameMerchant = (example: AiExample, vendor: string) => {
+  const name = normalize(vendor);
+  return normalize(example.suggestedVendor) === name || normalize(example.vendor) === name;
+};
+
+// Saves a correction, replacing any earlier one for the same merchant so the latest choice wins.
+export const recordAiCorrection = (examples: AiExample[], correction: AiCorrection): AiExample[] => {
+  const example: AiExample = {
+    ...correction,
+    id: `example-${generateTransactionId()}`,
+    updatedAt: new Date().toISOString(),
+  };
+  const others = examples.filter(e => !(e.kind === correction.kind && isSameMerchant(e, correction.suggestedVendor)));
+  return [example, ...others].slice(0, MAX_AI_EXAMPLES);
+};
+
+// Ranks examples by how many distinctive words they share with the message, with a strong boost
+// when the merchant itself is named in it.
+export const selectRelevantExamples = (text: string, examples: AiExample[], limit = PROMPT_EXAMPLE_LIMIT): AiExample[] => {
+  const lowerText = text.toLowerCase();
+  const keywords = getKeywords(text);
+  return examples
+    .map(example => {
+      const sharedWords = Array.from(getKeywords(example.text)).filter(word => keywords.has(word)).length;
+      const namesMerchant = [example.suggestedVendor, example.vendor].some(name => name.trim().length >= 3 && lowerText.includes(normalize(name)));
+      return { example, score: sharedWords + (namesMerchant ? 5 : 0) };
+    })
+    .filter(({ score }) => score > 0)
+    .sort((a, b) => b.score - a.score || b.example.updatedAt.localeCompare(a.example.updatedAt))
+    .slice(0, limit)
+    .map(({ example }) => example);
+};
+
+// When the user has already corrected this merchant, their answer beats whatever the parser guessed.
+// A learned category that has since been deleted is ignored.
+export const applyLearnedCorrection = (parsed: ParsedExpense, examples: AiExample[], validCategories: string[]): ParsedExpense => {
+  const kind = parsed.kind ?? 'expense';
+  const match = examples.find(e => e.kind === kind && isSameMerchant(e, parsed.vendor));
+  if (!match) return parsed;
+  return {
+    ...parsed,
+    vendor: match.vendor,
+    category: validCategories.includes(match.category) ? match.category : parsed.category,
+  };
+};
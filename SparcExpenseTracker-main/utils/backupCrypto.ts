@@ -0,0 +1,79 @@
+// Passphrase encryption for backup files, using the browser's Web Crypto API. The key is derived
+// from the passphrase with PBKDF2 and the backup JSON is sealed with AES-GCM, which also detects a
+// wrong passphrase or a tampered file. Everything needed to decrypt except the passphrase is
+// stored in the envelope, so the parameters can change in later versions.
+
+export const ENCRYPTED_BACKUP_FORMAT = 'sparc-encrypted-backup';
+const ENVELOPE_VERSION = 1;
+const PBKDF2_ITERATIONS = 310_000;
+// The counts a backup may ask for. More would hang the tab while deriving the key.
+const MIN_PBKDF2_ITERATIONS = 100_000;
+const MAX_PBKDF2_ITERATIONS = 10_000_000;
+const SALT_BYTES = 16;
+const IV_BYTES = 12;
+
+export const MIN_PASSPHRASE_LENGTH = 8;
+
+export interface EncryptedBackup {
+  format: typeof ENCRYPTED_BACKUP_FORMAT;
+  version: number;
+  kdf: { name: 'PBKDF2'; hash: 'SHA-256'; iterations: number; salt: string }; // Base64 salt
+  cipher: { name: 'AES-GCM'; iv: string }; // Base64 IV
+  data: string; // Base64 ciphertext
+}
+
+const toBase64 = (bytes: Uint8Array): string => {
+  let binary = '';
+  bytes.forEach(byte => { binary += String.fromCharCode(byte); });
+  return btoa(binary);
+};
+
+const fromBase64 = (value: string) => Uint8Array.from(atob(value), char => char.charCodeAt(0));
+
+const deriveKey = async (passphrase: string, salt: BufferSource, iterations: number): Promise<CryptoKey> => {
+  const material = await crypto.subtle.importKey('raw', new TextEncoder().encode(passphrase), 'PBKDF2', false, ['deriveKey']);
+  return crypto.subtle.deriveKey(
+    { name: 'PBKDF2', hash: 'SHA-256', salt, iterations },
+    material,
+    { name: 'AES-GCM', length: 256 },
+    false,
+    ['encrypt', 'decrypt']
+  );
+};
+
+export const isEncryptedBackup = (value: unknown): value is EncryptedBackup => {
+  const candidate = value as Partial<EncryptedBackup> | null;
+  return Boolean(candidate && candidate.format === ENCRYPTED_BACKUP_FORMAT && typeof candidate.data === 'string');
+};
+
+export const encryptBackup = async (plaintext: string, passphrase: string): Promise<EncryptedBackup> => {
+  const salt = crypto.getRandomValues(new Uint8Array(SALT_BYTES));
+  const iv = crypto.getRandomValues(new Uint8Array(IV_BYTES));
+  const key = await deriveKey(passphrase, salt, PBKDF2_ITERATIONS);
+  const ciphertext = await crypto.subtle.encrypt({ name: 'AES-GCM', iv }, key, new TextEncoder().encode(plaintext));
+  return {
+    format: ENCRYPTED_BACKUP_FORMAT,
+    version: ENVELOPE_VERSION,
+    kdf: { name: 'PBKDF2', hash: 'SHA-256', iterations: PBKDF2_ITERATIONS, salt: toBase64(salt) },
+    cipher: { name: 'AES-GCM', iv: toBase64(iv) },
+    data: toBase64(new Uint8Array(ciphertext)),
+  };
+};
+
+// Throws when the passphrase is wrong or the file was changed.
+export const decryptBackup = async (backup: EncryptedBackup, passphrase: string): Promise<string> => {
+  if (backup.version > ENVELOPE_VERSION) {
+    throw new Error('This backup was made by a newer version of the app.');
+  }
+  const iterations = backup.kdf?.iterations;
+  if (!Number.isInteger(iterations) || iterations < MIN_PBKDF2_ITERATIONS || iterations > MAX_PBKDF2_ITERATIONS) {
+    throw new Error('The backup file is damaged.');
+  }
+  try {
+    const key = await deriveKey(passphrase, fromBase64(backup.kdf.salt), iterations);
+    const plaintext = await crypto.subtle.decrypt({ name: 'AES-GCM', iv: fromBase64(backup.cipher.iv) }, key, fromBase64(backup.data));
+    return new TextDecoder().decode(plaintext);
+  } catch {
+    throw new Error('Wrong passphrase, or the backup file is damaged.');
+  }
+};
@@ -0,0 +1,144 @@
+import type { Account, CategoryDefinition, CategoryRule, Contact, Expense, Merchant, RecurringTransaction } from '../types';
+import { getVendorKey } from './merchants';
+
+// The parts of a backup that a merge combines with the data already on this device.
+export interface MergeableData {
+  expenses: Expense[];
+  categories: CategoryDefinition[];
+  recurringTransactions: RecurringTransaction[];
+  rules: CategoryRule[];
+  merchants: Merchant[];
+  accounts: Account[];
+  contacts: Contact[];
+}
+
+export type MergeSide = 'current' | 'backup';
+
+export interface MergeConflict {
+  transactionId: string;
+  current: Expense[]; // The transaction's splits on this device
+  backup: Expense[]; // The same transaction's splits in the backup
+}
+
+export interface MergePlan {
+  added: Expense[][]; // Transactions only in the backup
+  identicalCount: number; // Transactions that are the same on both sides
+  conflicts: MergeConflict[];
+  newCategories: CategoryDefinition[];
+  newRecurringTransactions: RecurringTransaction[];
+  newRules: CategoryRule[];
+  newMerchants: Merchant[];
+  newAccounts: Account[];
+  newContacts: Contact[];
+}
+
+const groupByTransaction = (expenses: Expense[]): Map<string, Expense[]> => {
+  const groups = new Map<string, Expense[]>();
+  expenses.forEach(expense => {
+    const group = groups.get(expense.transactionId);
+    if (group) group.push(expense);
+    else groups.set(expense.transactionId, [expense]);
+  });
+  return groups;
+};
+
+// Split ids are random, so two copies of a transaction are compared by content only.
+const getTransactionSignature = (splits: Expense[]): string => {
+  const [first] = splits;
+  return JSON.stringify({
+    vendor: first.vendor,
+    date: first.date,
+    notes: first.notes ?? '',
+    kind: first.kind ?? 'expense',
+    currency: first.currency ?? '',
+    tags: first.tags ?? [],
+    accountId: first.accountId ?? '',
+    toAccountId: first.toAccountId ?? '',
+    sharing: first.sharing ?? null,
+    settlement: first.settlement ?? null,
+    deletedAt: first.deletedAt ?? '',
+    splits: splits
+      .map(s => [s.amount, s.category.toLowerCase(), s.originalAmount ?? null])
+      .sort((a, b) => JSON.stringify(a).localeCompare(JSON.stringify(b))),
+  });
+};
+
+const addMissingById = <T extends { id: string }>(current: T[], incoming: T[]): T[] => {
+  const ids = new Set(current.map(item => item.id));
+  return incoming.filter(item => !ids.has(item.id));
+};
+
+// Works out what merging `backup` into `current` would change, without changing anything.
+// Categories are matched by name ignoring case; backup transactions are switched to this
+// device's spelling of a category.
+export const planBackupMerge = (current: MergeableData, backup: MergeableData): MergePlan => {
+  const categoryByName = new Map(current.categories.map(c => [c.name.toLowerCase(), c]));
+  const newCategories = backup.categories.filter((c, i, all) =>
+    !categoryByName.has(c.name.toLowerCase()) && all.findIndex(other => other.name.toLowerCase() === c.name.toLowerCase()) === i
+  );
+  const backupExpenses = backup.expenses.map(expense => {
+    const existing = categoryByName.get(expense.category.toLowerCase());
+    return existing && existing.name !== expense.category ? { ...expense, category: existing.name } : expense;
+  });
+
+  const currentGroups = groupByTransaction(current.expenses);
+  const added: Expense[][] = [];
+  const conflicts: MergeConflict[] = [];
+  let identicalCount = 0;
+  groupByTransaction(backupExpenses).forEach((splits, transactionId) => {
+    const existing = currentGroups.get(transactionId);
+    if (!existing) added.push(splits);
+    else if (getTransactionSignature(existing) === getTransactionSignature(splits)) identicalCount++;
+    else conflicts.push({ transactionId, current: existing, backup: splits });
+  });
+
+  return {
+    added,
+    identicalCount,
+    conflicts,
+    newCategories,
+    newRecurringTransactions: addMissingById(current.recurringTransactions, backup.recurringTransactions),
+    newRules: addMissingById(current.rules, backup.rules),
+    // A merchant with the same name would make vendor matching ambiguous, so only new names are added.
+    newMerchants: addMissingById(current.merchants, backup.merchants)
+      .filter(m => !current.merchants.some(existing => getVendorKey(existing.name) === getVendorKey(m.name))),
+    newAccounts: addMissingById(current.accounts, backup.accounts),
+    newContacts: addMissingById(current.contacts, backup.contacts),
+  };
+};
+
+export interface MergeSummary {
+  added: number;
+  updated: number; // Conflicts resolved in favour of the backup
+  skipped: number; // Identical transactions and conflicts resolved in favour of this device
+  conflicting: number;
+}
+
+export const summarizeMerge = (plan: MergePlan, resolutions: Record<string, MergeSide>): MergeSummary => {
+  const updated = plan.conflicts.filter(c => resolutions[c.transactionId] === 'backup').length;
+  return {
+    added: plan.added.length,
+    updated,
+    skipped: plan.identicalCount + plan.conflicts.length - updated,
+    conflicting: plan.conflicts.length,
+  };
+};
+
+// Applies a plan. Conflicts without a resolution keep this device's version.
+export const applyBackupMerge = (current: MergeableData, plan: MergePlan, resolutions: Record<string, MergeSide>): MergeableData => {
+  const replacedIds = new Set(plan.conflicts.filter(c => resolutions[c.transactionId] === 'backup').map(c => c.transactionId));
+  const replacements = plan.conflicts.filter(c => replacedIds.has(c.transactionId)).flatMap(c => c.backup);
+  return {
+    expenses: [
+      ...current.expenses.filter(expense => !replacedIds.has(expense.transactionId)),
+      ...replacements,
+      ...plan.added.flat(),
+    ],
+    categories: [...current.categories, ...plan.newCategories],
+    recurringTransactions: [...current.recurringTransactions, ...plan.newRecurringTransactions],
+    rules: [...current.rules, ...plan.newRules],
+    merchants: [...current.merchants, ...plan.newMerchants],
+    accounts: [...current.accounts, ...plan.newAccounts],
+    contacts: [...current.contacts, ...plan.newContacts],
+  };
+};
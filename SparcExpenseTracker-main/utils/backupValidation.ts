@@ -0,0 +1,60 @@
+import type { Account, CategoryDefinition, CategoryRule, Contact, Currency, ExchangeRates, Expense, Merchant, RecurringTransaction } from '../types';
+import { ACCOUNT_TYPE_LABELS } from './accounts';
+import { FREQUENCY_LABELS } from './recurrence';
+import { RULE_MATCH_LABELS } from './rules';
+
+// Checks for the parts of a backup file the app relies on. Records only need the fields every
+// version has written; optional ones are checked when present.
+
+type UnknownRecord = Record<string, unknown>;
+
+export const isRecord = (value: unknown): value is UnknownRecord =>
+  typeof value === 'object' && value !== null && !Array.isArray(value);
+
+const isString = (value: unknown): value is string => typeof value === 'string';
+
+const isNumber = (value: unknown): value is number => typeof value === 'number' && Number.isFinite(value);
+
+const isBoolean = (value: unknown): value is boolean => typeof value === 'boolean';
+
+const isStringArray = (value: unknown): value is string[] => Array.isArray(value) && value.every(isString);
+
+const isOptional = <T>(value: unknown, guard: (value: unknown) => value is T): boolean => value === undefined || guard(value);
+
+const isOneOf = (labels: Record<string, string>, value: unknown): boolean => isString(value) && Object.keys(labels).includes(value);
+
+export const isCurrency = (value: unknown): value is Currency =>
+  isRecord(value) && isString(value.code) && isString(value.name) && isString(value.symbol);
+
+// Backups from before version 3 have no transaction ids; they're filled in from the record id.
+export const isBackupExpense = (value: unknown): value is Omit<Expense, 'transactionId'> & { transactionId?: string } =>
+  isRecord(value) && isString(value.id) && isOptional(value.transactionId, isString) && isNumber(value.amount)
+    && isString(value.vendor) && isString(value.category) && isString(value.date) && isOptional(value.tags, isStringArray);
+
+// Custom categories in version 1 backups are only a name and a color.
+export const isCategory = (value: unknown): value is Omit<CategoryDefinition, 'isDefault'> & { isDefault?: boolean } =>
+  isRecord(value) && isString(value.name) && isString(value.color) && isOptional(value.isDefault, isBoolean)
+    && (value.kind === undefined || value.kind === 'expense' || value.kind === 'income') && isOptional(value.budget, isNumber);
+
+export const isExchangeRates = (value: unknown): value is ExchangeRates =>
+  isRecord(value) && Object.values(value).every(isNumber);
+
+const isSplit = (value: unknown): boolean => isRecord(value) && isNumber(value.amount) && isString(value.category);
+
+export const isRecurringTransaction = (value: unknown): value is RecurringTransaction =>
+  isRecord(value) && isString(value.id) && isString(value.vendor) && isOneOf(FREQUENCY_LABELS, value.frequency)
+    && isString(value.startDate) && isString(value.nextDueDate) && Array.isArray(value.splits) && value.splits.every(isSplit);
+
+export const isCategoryRule = (value: unknown): value is CategoryRule =>
+  isRecord(value) && isString(value.id) && (value.kind === 'expense' || value.kind === 'income')
+    && isOneOf(RULE_MATCH_LABELS, value.matchType) && isString(value.pattern)
+    && isOptional(value.minAmount, isNumber) && isOptional(value.maxAmount, isNumber) && isOptional(value.tags, isStringArray);
+
+export const isMerchant = (value: unknown): value is Merchant =>
+  isRecord(value) && isString(value.id) && isString(value.name) && isStringArray(value.aliases);
+
+export const isAccount = (value: unknown): value is Account =>
+  isRecord(value) && isString(value.id) && isString(value.name) && isOneOf(ACCOUNT_TYPE_LABELS, value.type) && isNumber(value.openingBalance);
+
+export const isContact = (value: unknown): value is Contact =>
+  isRecord(value) && isString(value.id) && isString(value.name);
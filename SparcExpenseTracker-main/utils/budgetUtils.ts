@@ -0,0 +1,37 @@
+import type { Expense, CategoryDefinition } from '../types';
+import { getCategoryKind, getTransactionKind } from './transactionUtils';
+
+export type BudgetStatus = 'ok' | 'warning' | 'over';
+
+// Share of a budget at which we start warning the user.
+export const BUDGET_WARNING_THRESHOLD = 0.8;
+
+export const getBudgetStatus = (spent: number, budget: number): BudgetStatus => {
+  if (budget <= 0) return 'ok';
+  const ratio = spent / budget;
+  if (ratio >= 1) return 'over';
+  if (ratio >= BUDGET_WARNING_THRESHOLD) return 'warning';
+  return 'ok';
+};
+
+export const getCategoryBudgets = (categories: CategoryDefinition[]): Record<string, number> => {
+  return categories.reduce((acc, cat) => {
+    if (getCategoryKind(cat) === 'expense' && cat.budget && cat.budget > 0) {
+      acc[cat.name] = cat.budget;
+    }
+    return acc;
+  }, {} as Record<string, number>);
+};
+
+// Totals spending per category for a 'YYYY-MM' month, optionally ignoring one transaction
+// (used when editing so the transaction isn't counted twice).
+export const getCategorySpendForMonth = (expenses: Expense[], month: string, excludeTransactionId?: string): Record<string, number> => {
+  const totals: Record<string, number> = {};
+  for (const expense of expenses) {
+    if (getTransactionKind(expense) !== 'expense') continue;
+    if (!expense.date.startsWith(month)) continue;
+    if (excludeTransactionId && expense.transactionId === excludeTransactionId) continue;
+    totals[expense.category] = (totals[expense.category] || 0) + expense.amount;
+  }
+  return totals;
+};
@@ -0,0 +1,154 @@
+import type { Expense } from '../types';
+import { getTransactionKind } from './transactionUtils';
+
+export type CsvExportMode = 'split' | 'transaction';
+
+export interface CsvExportFilters {
+  startDate?: string; // YYYY-MM-DD, inclusive
+  endDate?: string;   // YYYY-MM-DD, inclusive
+  categories?: string[]; // empty or missing means every category
+}
+
+// Quotes a field when it contains a delimiter, quote, line break or edge whitespace, doubling
+// any quotes inside it (RFC 4180).
+export const escapeCsvField = (value: string | number | undefined | null): string => {
+  if (value === undefined || value === null) return '';
+  const text = String(value);
+  if (/[",\r\n]/.test(text) || text !== text.trim()) {
+    return `"${text.replace(/"/g, '""')}"`;
+  }
+  return text;
+};
+
+export const toCsv = (rows: (string | number | undefined | null)[][]): string =>
+  rows.map(row => row.map(escapeCsvField).join(',')).join('\r\n');
+
+// Filters by date per split; the category filter keeps only matching splits.
+export const filterExpensesForExport = (expenses: Expense[], filters: CsvExportFilters): Expense[] => {
+  const categories = filters.categories && filters.categories.length > 0 ? new Set(filters.categories) : null;
+  return expenses.filter(exp =>
+    (!filters.startDate || exp.date >= filters.startDate) &&
+    (!filters.endDate || exp.date <= filters.endDate) &&
+    (!categories || categories.has(exp.category))
+  );
+};
+
+const formatAmount = (amount: number | undefined) => amount === undefined ? '' : amount.toFixed(2);
+
+// Builds the CSV text for `expenses`, either one row per split or one row per transaction with
+// its splits joined. Amounts are in the base currency; foreign amounts get their own columns.
+export const buildTransactionsCsv = (expenses: Expense[], mode: CsvExportMode, baseCurrencyCode: string): string => {
+  const header = ['Transaction ID', 'Date', 'Vendor', 'Type', 'Category', 'Amount', 'Currency', 'Original Amount', 'Original Currency', 'Notes', 'Tags'];
+
+  if (mode === 'split') {
+    const rows = expenses.map(exp => [
+      exp.transactionId,
+      exp.date,
+      exp.vendor,
+      getTransactionKind(exp),
+      exp.category,
+      formatAmount(exp.amount),
+      baseCurrencyCode,
+      exp.currency && exp.currency !== baseCurrencyCode ? formatAmount(exp.originalAmount) : '',
+      exp.currency && exp.currency !== baseCurrencyCode ? exp.currency : '',
+      exp.notes,
+      exp.tags?.join('; '),
+    ]);
+    return toCsv([header, ...rows]);
+  }
+
+  const transactions = new Map<string, Expense[]>();
+  expenses.forEach(exp => {
+    const splits = transactions.get(exp.transactionId);
+    if (splits) splits.push(exp);
+    else transactions.set(exp.transactionId, [exp]);
+  });
+
+  const rows = Array.from(transactions.values()).map(splits => {
+    const first = splits[0];
+    const isForeign = !!first.currency && first.currency !== baseCurrencyCode;
+    const total = splits.reduce((sum, exp) => sum + exp.amount, 0);
+    const originalTotal = isForeign ? splits.reduce((sum, exp) => sum + (exp.originalAmount ?? 0), 0) : undefined;
+    const category = splits.length === 1
+      ? first.category
+      : splits.map(exp => `${exp.category}: ${formatAmount(exp.amount)}`).join('; ');
+    return [
+      first.transactionId,
+      first.date,
+      first.vendor,
+      getTransactionKind(first),
+      category,
+      formatAmount(total),
+      baseCurrencyCode,
+      formatAmount(originalTotal),
+      isForeign ? first.currency : '',
+      first.notes,
+      first.tags?.join('; '),
+    ];
+  });
+  return toCsv([header, ...rows]);
+};
+
+const DELIMITER_CANDIDATES = [',', ';', '\t', '|'];
+
+// Parses CSV text into rows of fields, honouring quoted fields with embedded delimiters, quotes and line breaks.
+export const parseCsv = (text: string, delimiter: string): string[][] => {
+  const rows: string[][] = [];
+  let row: string[] = [];
+  let field = '';
+  let inQuotes = false;
+  const input = text.replace(/^\uFEFF/, '');
+
+  for (let i = 0; i < input.length; i++) {
+    const char = input[i];
+    if (inQuotes) {
+      if (char === '"') {
+        if (input[i + 1] === '"') {
+          field += '"';
+          i++;
+        } else {
+          inQuotes = false;
+        }
+      } else {
+        field += char;
+      }
+    } else if (char === '"' && field === '') {
+      inQuotes = true;
+    } else if (char === delimiter) {
+      row.push(field);
+      field = '';
+    } else if (char === '\n' || char === '\r') {
+      if (char === '\r' && input[i + 1] === '\n') i++;
+      row.push(field);
+      rows.push(row);
+      row = [];
+      field = '';
+    } else {
+      field += char;
+    }
+  }
+  if (field !== '' || row.length > 0) {
+    row.push(field);
+    rows.push(row);
+  }
+  // Blank lines carry no data.
+  return rows.filter(r => r.some(cell => cell.trim() !== ''));
+};
+
+// Picks the candidate delimiter that splits the first lines into the most columns, consistently.
+export const detectDelimiter = (text: string): string => {
+  const sample = text.replace(/^\uFEFF/, '').split(/\r?\n/).filter(line => line.trim()).slice(0, 10).join('\n');
+  let best = ',';
+  let bestScore = 0;
+  DELIMITER_CANDIDATES.forEach(candidate => {
+    const counts = parseCsv(sample, candidate).map(r => r.length);
+    if (counts.length === 0 || counts[0] < 2) return;
+    const consistent = counts.filter(c => c === counts[0]).length / counts.length;
+    const score = counts[0] * consistent;
+    if (score > bestScore) {
+      best = candidate;
+      bestScore = score;
+    }
+  });
+  return best;
+};
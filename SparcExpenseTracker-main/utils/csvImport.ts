@@ -0,0 +1,144 @@
+import type { TransactionInput, TransactionKind } from '../types';
+
+export type CsvField = 'date' | 'vendor' | 'amount' | 'category' | 'notes' | 'type';
+export type CsvColumnMapping = Partial<Record<CsvField, number>>;
+export type CsvDateFormat = 'YYYY-MM-DD' | 'DD/MM/YYYY' | 'MM/DD/YYYY';
+// 'all-expenses' uses absolute amounts; 'signed' treats negative amounts as spending and positive as income.
+export type CsvAmountSign = 'all-expenses' | 'signed';
+
+export const CSV_FIELD_LABELS: Record<CsvField, string> = {
+  date: 'Date',
+  vendor: 'Vendor',
+  amount: 'Amount',
+  category: 'Category',
+  notes: 'Notes',
+  type: 'Type',
+};
+
+export const REQUIRED_CSV_FIELDS: CsvField[] = ['date', 'vendor', 'amount'];
+
+const HEADER_HINTS: Record<CsvField, RegExp> = {
+  date: /date|posted|day/i,
+  vendor: /vendor|merchant|payee|description|narration|particulars|name/i,
+  amount: /amount|value|debit|sum|total/i,
+  category: /category|group/i,
+  notes: /note|memo|remark|comment/i,
+  type: /^type$|kind|direction/i,
+};
+
+const DATE_PARTS_PATTERN = /^(\d{1,4})[-/.](\d{1,2})[-/.](\d{1,4})$/;
+
+const looksLikeData = (cell: string) => DATE_PARTS_PATTERN.test(cell.trim()) || parseCsvAmount(cell) !== null;
+
+// A first row with no dates or numbers in it is taken to be a header.
+export const detectHeaderRow = (rows: string[][]): boolean => rows.length > 1 && !rows[0].some(looksLikeData);
+
+// Suggests a column for each field from the header names, each column used at most once.
+export const guessColumnMapping = (header: string[]): CsvColumnMapping => {
+  const mapping: CsvColumnMapping = {};
+  const used = new Set<number>();
+  (Object.keys(HEADER_HINTS) as CsvField[]).forEach(field => {
+    const index = header.findIndex((name, i) => !used.has(i) && HEADER_HINTS[field].test(name.trim()));
+    if (index !== -1) {
+      mapping[field] = index;
+      used.add(index);
+    }
+  });
+  return mapping;
+};
+
+// Looks at the date column to rule formats out: a first part above 12 can't be a month, and so on.
+export const guessDateFormat = (values: string[]): CsvDateFormat => {
+  let canBeDayFirst = true;
+  let canBeMonthFirst = true;
+  for (const value of values) {
+    const match = value.trim().match(DATE_PARTS_PATTERN);
+    if (!match) continue;
+    if (match[1].length === 4) return 'YYYY-MM-DD';
+    if (+match[1] > 12) canBeMonthFirst = false;
+    if (+match[2] > 12) canBeDayFirst = false;
+  }
+  return !canBeDayFirst && canBeMonthFirst ? 'MM/DD/YYYY' : 'DD/MM/YYYY';
+};
+
+// Returns the date as YYYY-MM-DD, or null when it doesn't fit the chosen format.
+export const parseCsvDate = (value: string, format: CsvDateFormat): string | null => {
+  const match = value.trim().match(DATE_PARTS_PATTERN);
+  if (!match) return null;
+  const [, a, b, c] = match;
+  const [year, month, day] = format === 'YYYY-MM-DD' ? [a, b, c] : format === 'DD/MM/YYYY' ? [c, b, a] : [c, a, b];
+  const fullYear = year.length <= 2 ? 2000 + +year : +year;
+  const date = new Date(Date.UTC(fullYear, +month - 1, +day));
+  if (date.getUTCFullYear() !== fullYear || date.getUTCMonth() !== +month - 1 || date.getUTCDate() !== +day) return null;
+  return date.toISOString().slice(0, 10);
+};
+
+// Accepts "1,234.50", "₹ 99", "-12.00", "+250.00", "(45.00)" and decimal commas like "12,50".
+export const parseCsvAmount = (value: string): number | null => {
+  let text = value.trim();
+  if (!text) return null;
+  const isParenthesized = /^\(.*\)$/.test(text);
+  text = text.replace(/[()\s]/g, '').replace(/[₹$€£¥]|rs\.?|inr|usd|eur|gbp/gi, '').replace(/^\+/, '');
+  if (/^-?\d+,\d{1,2}$/.test(text)) {
+    text = text.replace(',', '.');
+  } else if (/^-?\d{1,3}(,\d{2,3})+(\.\d+)?$/.test(text)) {
+    text = text.replace(/,/g, '');
+  }
+  if (!/^-?\d*\.?\d+$/.test(text)) return null;
+  const amount = parseFloat(text);
+  return isParenthesized ? -Math.abs(amount) : amount;
+};
+
+const parseKind = (value: string | undefined): TransactionKind | null => {
+  const text = value?.trim().toLowerCase();
+  if (!text) return null;
+  if (/^(income|credit|cr|deposit)$/.test(text)) return 'income';
+  if (/^(expense|debit|dr|withdrawal)$/.test(text)) return 'expense';
+  if (text === 'transfer') return 'transfer';
+  return null;
+};
+
+export interface CsvImportOptions {
+  mapping: CsvColumnMapping;
+  dateFormat: CsvDateFormat;
+  amountSign: CsvAmountSign;
+}
+
+export interface CsvImportRow {
+  rowNumber: number; // 1-based row in the file, for error messages
+  transaction: TransactionInput | null;
+  rawCategory: string;
+  error?: string;
+}
+
+// Turns data rows into transactions. The category is the raw text from the file; callers resolve it
+// against existing categories (or the default) before saving.
+export const buildCsvImportRows = (rows: string[][], firstRowNumber: number, options: CsvImportOptions): CsvImportRow[] => {
+  const { mapping, dateFormat, amountSign } = options;
+  const cell = (row: string[], field: CsvField) => mapping[field] === undefined ? '' : (row[mapping[field]!] ?? '').trim();
+
+  return rows.map((row, i) => {
+    const rowNumber = firstRowNumber + i;
+    const rawCategory = cell(row, 'category');
+    const date = parseCsvDate(cell(row, 'date'), dateFormat);
+    if (!date) return { rowNumber, transaction: null, rawCategory, error: `Unrecognised date "${cell(row, 'date')}"` };
+    const amount = parseCsvAmount(cell(row, 'amount'));
+    if (amount === null || amount === 0) return { rowNumber, transaction: null, rawCategory, error: `Unrecognised amount "${cell(row, 'amount')}"` };
+    const vendor = cell(row, 'vendor');
+    if (!vendor) return { rowNumber, transaction: null, rawCategory, error: 'Missing vendor' };
+
+    const kind = parseKind(cell(row, 'type')) ?? (amountSign === 'signed' && amount > 0 ? 'income' : 'expense');
+    const notes = cell(row, 'notes');
+    return {
+      rowNumber,
+      rawCategory,
+      transaction: {
+        vendor,
+        date,
+        notes: notes || undefined,
+        kind,
+        splits: [{ amount: Math.abs(amount), category: rawCategory }],
+      },
+    };
+  });
+};
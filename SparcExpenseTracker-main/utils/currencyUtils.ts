@@ -0,0 +1,107 @@
+import type { Account, CategoryDefinition, CategoryRule, Expense, ExchangeRates, ExpenseSharing, RecurringTransaction, TransactionInput } from '../types';
+import { CURRENCIES } from '../currencies';
+import { resolveShares } from './sharing';
+
+export const roundMoney = (amount: number): number => Math.round(amount * 100) / 100;
+
+export const getCurrencySymbol = (code: string): string => CURRENCIES.find(c => c.code === code)?.symbol ?? code;
+
+// Converts an amount in `code` to the base currency. Returns null when no rate is known.
+export const convertToBase = (amount: number, code: string, baseCode: string, rates: ExchangeRates): number | null => {
+  if (code === baseCode) return amount;
+  const rate = rates[code];
+  if (!rate || rate <= 0) return null;
+  return roundMoney(amount * rate);
+};
+
+// Works out the base amounts of a foreign-currency transaction again from what was entered, at
+// today's rates. Recurring series use it so each occurrence isn't stuck with the rate the series was
+// created at. Without a rate the stored amounts are kept.
+export const convertTransactionToBase = <T extends Pick<TransactionInput, 'splits' | 'currency' | 'sharing'>>(transaction: T, baseCode: string, rates: ExchangeRates): T => {
+  const { currency, sharing } = transaction;
+  if (!currency || currency === baseCode) return transaction;
+  const convert = (amount: number) => convertToBase(amount, currency, baseCode, rates);
+  const splits = transaction.splits.map(split => {
+    const amount = split.originalAmount === undefined ? null : convert(split.originalAmount);
+    return amount === null ? split : { ...split, amount };
+  });
+  const resolved = sharing && resolveShares(sharing.total, sharing.mode, sharing.myValue, sharing.shares);
+  const shares = resolved?.shares.map(share => ({ ...share, amount: convert(share.amount) }));
+  const convertedSharing = sharing && shares?.every(share => share.amount !== null)
+    ? { ...sharing, shares: shares.map(share => ({ ...share, amount: share.amount! })) }
+    : sharing;
+  return { ...transaction, splits, sharing: convertedSharing };
+};
+
+// Describes the original amount of a foreign-currency split, e.g. "$12.50 USD".
+export const formatOriginalAmount = (expense: Pick<Expense, 'currency' | 'originalAmount'>, baseCode: string): string | null => {
+  if (!expense.currency || expense.currency === baseCode || expense.originalAmount === undefined) return null;
+  return `${getCurrencySymbol(expense.currency)}${expense.originalAmount.toFixed(2)} ${expense.currency}`;
+};
+
+export interface RebasedData {
+  expenses: Expense[];
+  categories: CategoryDefinition[];
+  recurringTransactions: RecurringTransaction[];
+  rules: CategoryRule[];
+  accounts: Account[];
+  rates: ExchangeRates;
+}
+
+// Re-expresses all stored amounts in a new base currency. Every amount is divided by the new
+// base's rate in the old base; records already made in the new currency get their exact
+// original amount back. Returns null when there is no rate for the new base currency.
+export const rebaseToCurrency = (
+  data: Omit<RebasedData, 'rates'>,
+  oldBaseCode: string,
+  newBaseCode: string,
+  rates: ExchangeRates
+): RebasedData | null => {
+  const newBaseRate = rates[newBaseCode];
+  if (!newBaseRate || newBaseRate <= 0) return null;
+  const convert = (amount: number) => roundMoney(amount / newBaseRate);
+
+  // What others owe is in the base currency; the bill's total and the entered values stay in the
+  // transaction's own. Bills already in the new currency get their exact shares back.
+  const convertSharing = (sharing: ExpenseSharing, currency: string): ExpenseSharing => {
+    const exact = currency === newBaseCode
+      ? resolveShares(sharing.total, sharing.mode, sharing.myValue, sharing.shares)
+      : null;
+    return { ...sharing, shares: exact?.shares ?? sharing.shares.map(share => ({ ...share, amount: convert(share.amount) })) };
+  };
+
+  const expenses = data.expenses.map(exp => {
+    const currency = exp.currency ?? oldBaseCode;
+    const originalAmount = exp.originalAmount ?? exp.amount;
+    const sharing = exp.sharing && { sharing: convertSharing(exp.sharing, currency) };
+    if (currency === newBaseCode) {
+      const { currency: _currency, originalAmount: _originalAmount, ...rest } = exp;
+      return { ...rest, ...sharing, amount: originalAmount };
+    }
+    return { ...exp, ...sharing, amount: convert(exp.amount), currency, originalAmount };
+  });
+
+  const categories = data.categories.map(cat => cat.budget ? { ...cat, budget: convert(cat.budget) } : cat);
+
+  const recurringTransactions = data.recurringTransactions.map(series => ({
+    ...series,
+    splits: series.splits.map(split => ({ ...split, amount: convert(split.amount) })),
+    ...(series.sharing && { sharing: convertSharing(series.sharing, series.currency ?? oldBaseCode) }),
+  }));
+
+  // Amount ranges are compared with base-currency amounts, so they move with them.
+  const rules = data.rules.map(rule => rule.minAmount === undefined && rule.maxAmount === undefined ? rule : {
+    ...rule,
+    minAmount: rule.minAmount === undefined ? undefined : convert(rule.minAmount),
+    maxAmount: rule.maxAmount === undefined ? undefined : convert(rule.maxAmount),
+  });
+
+  const accounts = data.accounts.map(account => account.openingBalance ? { ...account, openingBalance: convert(account.openingBalance) } : account);
+
+  const newRates: ExchangeRates = { [oldBaseCode]: 1 / newBaseRate };
+  Object.entries(rates).forEach(([code, rate]) => {
+    if (code !== newBaseCode && code !== oldBaseCode) newRates[code] = rate / newBaseRate;
+  });
+
+  return { expenses, categories, recurringTransactions, rules, accounts, rates: newRates };
+};
@@ -0,0 +1,140 @@
+import type { Expense, TransactionInput, TransactionKind } from '../types';
+import { getTransactionKind } from './transactionUtils';
+import { getSimilarityKey, getVendorKey } from './merchants';
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+// A transaction reduced to what duplicate detection compares.
+export interface TransactionSummary {
+  transactionId: string;
+  vendor: string;
+  date: string; // YYYY-MM-DD
+  kind: TransactionKind;
+  amount: number; // Total across splits, in the base currency
+  splits: Expense[];
+}
+
+export interface DuplicatePair {
+  key: string;
+  first: TransactionSummary; // Created first
+  second: TransactionSummary;
+}
+
+export const summarizeTransactions = (expenses: Expense[]): TransactionSummary[] => {
+  const byId = new Map<string, TransactionSummary>();
+  expenses.forEach(expense => {
+    const existing = byId.get(expense.transactionId);
+    if (existing) {
+      existing.amount += expense.amount;
+      existing.splits.push(expense);
+    } else {
+      byId.set(expense.transactionId, {
+        transactionId: expense.transactionId,
+        vendor: expense.vendor,
+        date: expense.date,
+        kind: getTransactionKind(expense),
+        amount: expense.amount,
+        splits: [expense],
+      });
+    }
+  });
+  return Array.from(byId.values());
+};
+
+// The same payment often arrives under different names, e.g. "AMAZON" on the card SMS and
+// "amazon@apl" on the UPI one, so vendors match on their similarity key as well as exactly.
+export const isSimilarVendor = (a: string, b: string): boolean => {
+  const keyA = getVendorKey(a);
+  const keyB = getVendorKey(b);
+  if (!keyA || !keyB) return false;
+  if (keyA === keyB) return true;
+  const similarityA = getSimilarityKey(a);
+  return similarityA !== null && similarityA === getSimilarityKey(b);
+};
+
+const isSameOrAdjacentDay = (a: string, b: string): boolean =>
+  Math.abs(new Date(`${a}T00:00:00Z`).getTime() - new Date(`${b}T00:00:00Z`).getTime()) <= DAY_MS;
+
+const isSameAmount = (a: number, b: number): boolean => Math.abs(a - b) < 0.005;
+
+const isLikelyDuplicate = (a: Omit<TransactionSummary, 'transactionId' | 'splits'>, b: Omit<TransactionSummary, 'transactionId' | 'splits'>): boolean =>
+  a.kind === b.kind && isSameAmount(a.amount, b.amount) && isSameOrAdjacentDay(a.date, b.date) && isSimilarVendor(a.vendor, b.vendor);
+
+// The parts of a transaction about to be saved that duplicate detection needs.
+export type DuplicateCandidate = Pick<TransactionInput, 'vendor' | 'date' | 'kind' | 'splits'>;
+
+// What a transaction in a batch probably repeats: a saved transaction, or one earlier in the batch.
+export interface BatchDuplicate {
+  vendor: string;
+  date: string;
+  isInBatch: boolean;
+}
+
+const toComparable = (transaction: DuplicateCandidate) => ({
+  vendor: transaction.vendor,
+  date: transaction.date,
+  kind: transaction.kind,
+  amount: transaction.splits.reduce((sum, split) => sum + split.amount, 0),
+});
+
+// Finds an existing transaction that the one about to be saved probably repeats.
+export const findLikelyDuplicate = (transaction: DuplicateCandidate, expenses: Expense[]): TransactionSummary | null => {
+  const candidate = toComparable(transaction);
+  return summarizeTransactions(expenses).find(existing => isLikelyDuplicate(candidate, existing)) ?? null;
+};
+
+// Checks every transaction of a batch (pasted messages, an import) before it's saved, both against
+// history and against the ones before it, so the same SMS pasted twice is caught either way.
+export const findBatchDuplicates = (transactions: DuplicateCandidate[], expenses: Expense[]): (BatchDuplicate | null)[] => {
+  const existing = summarizeTransactions(expenses);
+  const candidates = transactions.map(toComparable);
+  return candidates.map((candidate, index) => {
+    const saved = existing.find(summary => isLikelyDuplicate(candidate, summary));
+    if (saved) return { vendor: saved.vendor, date: saved.date, isInBatch: false };
+    const earlier = candidates.slice(0, index).find(other => isLikelyDuplicate(candidate, other));
+    return earlier ? { vendor: earlier.vendor, date: earlier.date, isInBatch: true } : null;
+  });
+};
+
+export const getDuplicatePairKey = (a: string, b: string): string => [a, b].sort().join('|');
+
+// Every pair of transactions in history that look like the same payment, newest first.
+// Pairs the user marked as not duplicates are left out.
+export const findDuplicatePairs = (expenses: Expense[], dismissedKeys: string[] = []): DuplicatePair[] => {
+  const dismissed = new Set(dismissedKeys);
+  const byAmount = new Map<string, TransactionSummary[]>();
+  summarizeTransactions(expenses).forEach(summary => {
+    const key = `${summary.kind}:${summary.amount.toFixed(2)}`;
+    byAmount.set(key, [...(byAmount.get(key) ?? []), summary]);
+  });
+
+  const pairs: DuplicatePair[] = [];
+  byAmount.forEach(group => {
+    const sorted = [...group].sort((a, b) => a.transactionId.localeCompare(b.transactionId, undefined, { numeric: true }));
+    sorted.forEach((first, i) => {
+      sorted.slice(i + 1).forEach(second => {
+        const key = getDuplicatePairKey(first.transactionId, second.transactionId);
+        if (!dismissed.has(key) && isLikelyDuplicate(first, second)) pairs.push({ key, first, second });
+      });
+    });
+  });
+  return pairs.sort((a, b) => b.second.date.localeCompare(a.second.date));
+};
+
+// Folds `duplicate` into `kept`: tags and notes only on the duplicate are carried over.
+// Returns the kept transaction's updated splits.
+export const mergeDuplicateInto = (kept: TransactionSummary, duplicate: TransactionSummary): Expense[] => {
+  const [keptFirst] = kept.splits;
+  const [duplicateFirst] = duplicate.splits;
+  const tags = [...(keptFirst.tags ?? [])];
+  (duplicateFirst.tags ?? []).forEach(tag => {
+    if (!tags.some(t => t.toLowerCase() === tag.toLowerCase())) tags.push(tag);
+  });
+  const notes = [keptFirst.notes, duplicateFirst.notes]
+    .filter((note, i, all): note is string => Boolean(note) && all.indexOf(note) === i)
+    .join('\n');
+  const tagsChanged = tags.length !== (keptFirst.tags ?? []).length;
+  const notesChanged = (notes || undefined) !== keptFirst.notes;
+  if (!tagsChanged && !notesChanged) return kept.splits;
+  return kept.splits.map(split => ({ ...split, tags: tags.length > 0 ? tags : undefined, notes: notes || undefined }));
+};
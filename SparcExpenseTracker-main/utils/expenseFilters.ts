@@ -0,0 +1,77 @@
+import type { Expense } from '../types';
+import { getTransactionKind } from './transactionUtils';
+
+export interface ExpenseFilters {
+  searchTerm?: string; // Matches vendor (or its raw spelling), notes, category or tags, case-insensitively
+  startDate?: string; // YYYY-MM-DD, inclusive
+  endDate?: string;   // YYYY-MM-DD, inclusive
+  minAmount?: number; // Applies to the transaction total
+  maxAmount?: number;
+  categories?: string[]; // Empty or missing means every category
+  tags?: string[]; // Transactions carrying any of these tags; empty or missing means no tag filter
+  accountIds?: string[]; // Transactions paid from or into any of these accounts; empty or missing means every account
+}
+
+export interface FilteredTotals {
+  transactionCount: number;
+  spent: number;
+  income: number;
+}
+
+// Groups splits by transaction, keeping the order of first appearance.
+export const groupByTransaction = (expenses: Expense[]): Expense[][] => {
+  const transactions = new Map<string, Expense[]>();
+  expenses.forEach(expense => {
+    const splits = transactions.get(expense.transactionId);
+    if (splits) splits.push(expense);
+    else transactions.set(expense.transactionId, [expense]);
+  });
+  return Array.from(transactions.values());
+};
+
+// Search and amount filters look at whole transactions, so a split transaction matches when any
+// of its splits does. The category filter then keeps only the matching splits.
+export const filterExpenses = (expenses: Expense[], filters: ExpenseFilters): Expense[] => {
+  const term = filters.searchTerm?.trim().toLowerCase() ?? '';
+  const categories = filters.categories && filters.categories.length > 0 ? new Set(filters.categories) : null;
+  const tags = filters.tags && filters.tags.length > 0 ? new Set(filters.tags.map(t => t.toLowerCase())) : null;
+  const accountIds = filters.accountIds && filters.accountIds.length > 0 ? new Set(filters.accountIds) : null;
+
+  return groupByTransaction(expenses).flatMap(splits => {
+    const { date, vendor, rawVendor, notes } = splits[0];
+    const transactionTags = splits[0].tags ?? [];
+    if (filters.startDate && date < filters.startDate) return [];
+    if (filters.endDate && date > filters.endDate) return [];
+
+    if (term) {
+      const matches = vendor.toLowerCase().includes(term)
+        || (rawVendor ?? '').toLowerCase().includes(term)
+        || (notes ?? '').toLowerCase().includes(term)
+        || splits.some(s => s.category.toLowerCase().includes(term))
+        || transactionTags.some(t => t.toLowerCase().includes(term));
+      if (!matches) return [];
+    }
+    if (tags && !transactionTags.some(t => tags.has(t.toLowerCase()))) return [];
+    const { accountId, toAccountId } = splits[0];
+    if (accountIds && !(accountId && accountIds.has(accountId)) && !(toAccountId && accountIds.has(toAccountId))) return [];
+
+    const total = splits.reduce((sum, s) => sum + s.amount, 0);
+    if (filters.minAmount !== undefined && total < filters.minAmount) return [];
+    if (filters.maxAmount !== undefined && total > filters.maxAmount) return [];
+
+    return categories ? splits.filter(s => categories.has(s.category)) : splits;
+  });
+};
+
+export const getFilteredTotals = (expenses: Expense[]): FilteredTotals => {
+  const transactionIds = new Set<string>();
+  let spent = 0;
+  let income = 0;
+  expenses.forEach(expense => {
+    transactionIds.add(expense.transactionId);
+    const kind = getTransactionKind(expense);
+    if (kind === 'expense') spent += expense.amount;
+    else if (kind === 'income') income += expense.amount;
+  });
+  return { transactionCount: transactionIds.size, spent, income };
+};
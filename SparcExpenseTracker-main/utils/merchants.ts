@@ -0,0 +1,97 @@
+import type { Expense, Merchant, TransactionInput } from '../types';
+import { generateTransactionId } from './transactionUtils';
+
+// Case, punctuation and spacing never distinguish two merchants.
+export const getVendorKey = (vendor: string): string => vendor.toLowerCase().replace(/[^a-z0-9]+/g, ' ').trim();
+
+// Words that payment rails and marketplaces add around a merchant's name.
+const NOISE_WORDS = new Set([
+  'pay', 'payment', 'payments', 'mktp', 'marketplace', 'in', 'india', 'pvt', 'private', 'ltd', 'limited', 'llp', 'inc',
+  'co', 'com', 'www', 'online', 'store', 'services', 'retail', 'the', 'upi', 'pos', 'ecom',
+]);
+
+// Common abbreviations on card statements.
+const ABBREVIATIONS: Record<string, string> = { amzn: 'amazon', mcd: 'mcdonalds' };
+
+// A looser key for spotting the same merchant under different names: "AMZN Mktp IN", "Amazon Pay"
+// and "amazon.in" all become "amazon". Used for merge suggestions and duplicate detection.
+export const getSimilarityKey = (vendor: string): string | null => {
+  const words = getVendorKey(vendor).split(' ').map(w => ABBREVIATIONS[w] ?? w).filter(w => w.length >= 3 && !NOISE_WORDS.has(w) && !/^\d+$/.test(w));
+  return words[0] ?? null;
+};
+
+export const findMerchant = (vendor: string, merchants: Merchant[]): Merchant | null => {
+  const key = getVendorKey(vendor);
+  if (!key) return null;
+  return merchants.find(m => getVendorKey(m.name) === key || m.aliases.some(alias => getVendorKey(alias) === key)) ?? null;
+};
+
+// Replaces a raw vendor with its merchant's name, keeping the raw string when they differ.
+export const canonicalizeVendor = (vendor: string, merchants: Merchant[]): { vendor: string; rawVendor?: string } => {
+  const merchant = findMerchant(vendor, merchants);
+  return merchant && merchant.name !== vendor ? { vendor: merchant.name, rawVendor: vendor } : { vendor };
+};
+
+export const canonicalizeTransaction = (transaction: TransactionInput, merchants: Merchant[]): TransactionInput => {
+  const { vendor, rawVendor } = canonicalizeVendor(transaction.vendor, merchants);
+  return rawVendor ? { ...transaction, vendor, rawVendor: transaction.rawVendor ?? rawVendor } : transaction;
+};
+
+// Points every transaction from a known merchant at the merchant's current name. Matching uses the
+// raw vendor when there is one, so renaming a merchant carries through to its history.
+// Unchanged records are returned as the same objects, so only the changed ones get written.
+export const applyMerchantsToExpenses = (expenses: Expense[], merchants: Merchant[]): Expense[] =>
+  expenses.map(expense => {
+    const merchant = findMerchant(expense.rawVendor ?? expense.vendor, merchants) ?? findMerchant(expense.vendor, merchants);
+    if (!merchant || merchant.name === expense.vendor) return expense;
+    return { ...expense, vendor: merchant.name, rawVendor: expense.rawVendor ?? expense.vendor };
+  });
+
+// Creates the merchant if needed and moves the aliases onto it, out of any other merchant.
+export const mergeIntoMerchant = (merchants: Merchant[], name: string, aliases: string[]): Merchant[] => {
+  const existing = merchants.find(m => getVendorKey(m.name) === getVendorKey(name));
+  const target: Merchant = existing ?? { id: `merchant-${generateTransactionId()}`, name, aliases: [] };
+  const aliasKeys = new Set(aliases.map(getVendorKey));
+  const mergedAliases = [...target.aliases, ...aliases]
+    .filter(alias => getVendorKey(alias) !== getVendorKey(name))
+    .filter((alias, i, all) => all.findIndex(other => getVendorKey(other) === getVendorKey(alias)) === i);
+  const others = merchants
+    .filter(m => m.id !== target.id)
+    .map(m => m.aliases.some(a => aliasKeys.has(getVendorKey(a))) ? { ...m, aliases: m.aliases.filter(a => !aliasKeys.has(getVendorKey(a))) } : m);
+  return [...others, { ...target, name, aliases: mergedAliases }].sort((a, b) => a.name.localeCompare(b.name));
+};
+
+export interface MerchantSuggestion {
+  key: string;
+  suggestedName: string;
+  vendors: { vendor: string; count: number }[]; // Distinct spellings, most used first
+}
+
+// Groups vendors that look like the same merchant. Groups already fully covered by one merchant
+// are left out, as are keys the user dismissed.
+export const getMerchantSuggestions = (expenses: Expense[], merchants: Merchant[], dismissedKeys: string[] = []): MerchantSuggestion[] => {
+  const groups = new Map<string, Map<string, { vendor: string; transactionIds: Set<string> }>>();
+  expenses.forEach(expense => {
+    const vendor = expense.rawVendor ?? expense.vendor;
+    const key = getSimilarityKey(vendor);
+    if (!key || dismissedKeys.includes(key)) return;
+    const spellings = groups.get(key) ?? new Map();
+    groups.set(key, spellings);
+    // Spellings differing only in case still show up separately in lists, so they're worth merging too.
+    const spellingKey = vendor.trim();
+    const entry = spellings.get(spellingKey) ?? { vendor, transactionIds: new Set<string>() };
+    entry.transactionIds.add(expense.transactionId);
+    spellings.set(spellingKey, entry);
+  });
+
+  return Array.from(groups.entries()).flatMap(([key, spellings]): MerchantSuggestion[] => {
+    if (spellings.size < 2) return [];
+    const vendors = Array.from(spellings.values())
+      .map(({ vendor, transactionIds }) => ({ vendor, count: transactionIds.size }))
+      .sort((a, b) => b.count - a.count);
+    const owners = new Set(vendors.map(v => findMerchant(v.vendor, merchants)?.id));
+    if (owners.size === 1 && !owners.has(undefined)) return [];
+    const merchant = vendors.map(v => findMerchant(v.vendor, merchants)).find(Boolean);
+    return [{ key, suggestedName: merchant?.name ?? vendors[0].vendor, vendors }];
+  }).sort((a, b) => b.vendors.length - a.vendors.length);
+};
@@ -0,0 +1,98 @@
+import type { RecurrenceFrequency, RecurringTransaction } from '../types';
+
+export const FREQUENCY_LABELS: Record<RecurrenceFrequency, string> = {
+  daily: 'Daily',
+  weekly: 'Weekly',
+  monthly: 'Monthly',
+  yearly: 'Yearly',
+};
+
+const OCCURRENCES_PER_YEAR: Record<RecurrenceFrequency, number> = {
+  daily: 365,
+  weekly: 52,
+  monthly: 12,
+  yearly: 1,
+};
+
+const toIsoDate = (utcTimestamp: number): string => new Date(utcTimestamp).toISOString().slice(0, 10);
+
+const daysInMonth = (year: number, month: number): number => new Date(Date.UTC(year, month + 1, 0)).getUTCDate();
+
+// Returns the date of the nth occurrence (0 is the start date). Monthly and yearly series keep their
+// anchor day and clamp it to shorter months, so a series starting Jan 31 falls on Feb 28 and then Mar 31.
+export const getOccurrenceDate = (startDate: string, frequency: RecurrenceFrequency, index: number): string => {
+  const [year, month, day] = startDate.split('-').map(Number);
+  const monthIndex = month - 1;
+
+  switch (frequency) {
+    case 'daily':
+      return toIsoDate(Date.UTC(year, monthIndex, day + index));
+    case 'weekly':
+      return toIsoDate(Date.UTC(year, monthIndex, day + index * 7));
+    case 'monthly': {
+      const targetMonth = monthIndex + index;
+      const targetYear = year + Math.floor(targetMonth / 12);
+      const normalizedMonth = ((targetMonth % 12) + 12) % 12;
+      return toIsoDate(Date.UTC(targetYear, normalizedMonth, Math.min(day, daysInMonth(targetYear, normalizedMonth))));
+    }
+    case 'yearly':
+      return toIsoDate(Date.UTC(year + index, monthIndex, Math.min(day, daysInMonth(year + index, monthIndex))));
+  }
+};
+
+// Finds the index of the first occurrence on or after the given date.
+const findOccurrenceIndex = (series: Pick<RecurringTransaction, 'startDate' | 'frequency'>, onOrAfter: string): number => {
+  let index = 0;
+  while (getOccurrenceDate(series.startDate, series.frequency, index) < onOrAfter) {
+    index++;
+  }
+  return index;
+};
+
+export const getNextOccurrenceDate = (series: Pick<RecurringTransaction, 'startDate' | 'frequency'>, onOrAfter: string): string => {
+  return getOccurrenceDate(series.startDate, series.frequency, findOccurrenceIndex(series, onOrAfter));
+};
+
+export const isSeriesFinished = (series: RecurringTransaction): boolean => {
+  return !!series.endDate && series.nextDueDate > series.endDate;
+};
+
+// Lists every occurrence from `from` up to and including `until`, respecting the series end date.
+export const getOccurrencesBetween = (series: RecurringTransaction, from: string, until: string): string[] => {
+  const lastDate = series.endDate && series.endDate < until ? series.endDate : until;
+  const dates: string[] = [];
+  let index = findOccurrenceIndex(series, from);
+  let date = getOccurrenceDate(series.startDate, series.frequency, index);
+  while (date <= lastDate) {
+    dates.push(date);
+    index++;
+    date = getOccurrenceDate(series.startDate, series.frequency, index);
+  }
+  return dates;
+};
+
+// Collects the occurrences that are due as of `today` and the due date that follows them.
+export const collectDueOccurrences = (series: RecurringTransaction, today: string): { dueDates: string[]; nextDueDate: string } => {
+  const dueDates = getOccurrencesBetween(series, series.nextDueDate, today);
+  if (dueDates.length === 0) {
+    return { dueDates, nextDueDate: series.nextDueDate };
+  }
+  const lastIndex = findOccurrenceIndex(series, dueDates[dueDates.length - 1]);
+  return { dueDates, nextDueDate: getOccurrenceDate(series.startDate, series.frequency, lastIndex + 1) };
+};
+
+export const getSeriesAmount = (series: Pick<RecurringTransaction, 'splits'>): number => {
+  return series.splits.reduce((sum, split) => sum + split.amount, 0);
+};
+
+export const getYearlyCost = (series: RecurringTransaction): number => {
+  return getSeriesAmount(series) * OCCURRENCES_PER_YEAR[series.frequency];
+};
+
+// Keeps future occurrences in a category after it's renamed, or in `to` after it's deleted.
+// Unaffected series are returned as the same objects.
+export const renameSeriesCategory = (series: RecurringTransaction[], from: string, to: string): RecurringTransaction[] =>
+  series.map(s => !s.splits.some(split => split.category === from) ? s : {
+    ...s,
+    splits: s.splits.map(split => split.category === from ? { ...split, category: to } : split),
+  });
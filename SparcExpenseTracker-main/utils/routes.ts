@@ -0,0 +1,113 @@
+import { Page } from '../constants';
+
+export const DASHBOARD_VIEWS = ['category', 'monthly', 'budgets', 'tags'] as const;
+export type DashboardView = 'main' | typeof DASHBOARD_VIEWS[number];
+
+export const SETTINGS_VIEWS = [
+  'currency', 'categories', 'subscriptions', 'rates', 'export', 'import', 'statement', 'tags', 'teach',
+  'rules', 'merchants', 'history', 'trash', 'merge', 'duplicates', 'accounts', 'people',
+] as const;
+export type SettingsView = 'main' | typeof SETTINGS_VIEWS[number];
+
+export interface Route {
+  page: Page;
+  dashboardView: DashboardView;
+  settingsView: SettingsView;
+  transactionId?: string; // Set on /transactions/:id, which edits that transaction
+}
+
+const PAGE_PATHS: Record<Page, string> = {
+  [Page.Dashboard]: '/dashboard',
+  [Page.Expenses]: '/expenses',
+  [Page.Add]: '/add',
+  [Page.Settings]: '/settings',
+};
+
+export const getPagePath = (page: Page): string => PAGE_PATHS[page];
+
+export const getTransactionPath = (transactionId: string): string => `/transactions/${encodeURIComponent(transactionId)}`;
+
+export const getDashboardPath = (view: DashboardView): string =>
+  view === 'main' ? PAGE_PATHS[Page.Dashboard] : `${PAGE_PATHS[Page.Dashboard]}/${view}`;
+
+export const getSettingsPath = (view: SettingsView): string =>
+  view === 'main' ? PAGE_PATHS[Page.Settings] : `${PAGE_PATHS[Page.Settings]}/${view}`;
+
+const isOneOf = <T extends string>(values: readonly T[], value: string | undefined): value is T =>
+  value !== undefined && (values as readonly string[]).includes(value);
+
+// Unknown paths, including the root, open the Add page as the app always has.
+export const parseRoute = (pathname: string): Route => {
+  const [section, detail] = pathname.split('/').filter(Boolean);
+  const route: Route = { page: Page.Add, dashboardView: 'main', settingsView: 'main' };
+  if (section === 'dashboard') {
+    return { ...route, page: Page.Dashboard, dashboardView: isOneOf(DASHBOARD_VIEWS, detail) ? detail : 'main' };
+  }
+  if (section === 'settings') {
+    return { ...route, page: Page.Settings, settingsView: isOneOf(SETTINGS_VIEWS, detail) ? detail : 'main' };
+  }
+  if (section === 'expenses') return { ...route, page: Page.Expenses };
+  if (section === 'transactions' && detail) return { ...route, transactionId: decodeURIComponent(detail) };
+  return route;
+};
+
+// Text shared from another app; the service worker's share target opens /add?text=…
+export const parseSharedText = (search: string): string | null =>
+  new URLSearchParams(search).get('text')?.trim() || null;
+
+export const ALL_TIME = 'all';
+export const CUSTOM_RANGE = 'custom';
+
+// The transaction list's filters as they appear in its form, kept in the query string so a
+// filtered list can be bookmarked and shared.
+export interface ExpenseQuery {
+  period: string; // YYYY-MM, ALL_TIME or CUSTOM_RANGE
+  startDate: string;
+  endDate: string;
+  searchTerm: string;
+  minAmount: string;
+  maxAmount: string;
+  categories: string[];
+  tags: string[];
+  accountIds: string[];
+}
+
+const getCurrentMonth = () => new Date().toISOString().slice(0, 7);
+
+// Without a month or range the list shows the current month.
+export const parseExpenseQuery = (search: string): ExpenseQuery => {
+  const params = new URLSearchParams(search);
+  const startDate = params.get('from') ?? '';
+  const endDate = params.get('to') ?? '';
+  const month = params.get('month');
+  return {
+    period: startDate || endDate || month === CUSTOM_RANGE ? CUSTOM_RANGE : month === ALL_TIME || /^\d{4}-\d{2}$/.test(month ?? '') ? month! : getCurrentMonth(),
+    startDate,
+    endDate,
+    searchTerm: params.get('q') ?? '',
+    minAmount: params.get('min') ?? '',
+    maxAmount: params.get('max') ?? '',
+    categories: params.getAll('category'),
+    tags: params.getAll('tag'),
+    accountIds: params.getAll('account'),
+  };
+};
+
+export const buildExpenseQuery = (query: ExpenseQuery): string => {
+  const params = new URLSearchParams();
+  if (query.period === CUSTOM_RANGE) {
+    if (query.startDate) params.set('from', query.startDate);
+    if (query.endDate) params.set('to', query.endDate);
+    if (!query.startDate && !query.endDate) params.set('month', CUSTOM_RANGE);
+  } else if (query.period !== getCurrentMonth()) {
+    params.set('month', query.period);
+  }
+  if (query.searchTerm) params.set('q', query.searchTerm);
+  if (query.minAmount) params.set('min', query.minAmount);
+  if (query.maxAmount) params.set('max', query.maxAmount);
+  query.categories.forEach(category => params.append('category', category));
+  query.tags.forEach(tag => params.append('tag', tag));
+  query.accountIds.forEach(id => params.append('account', id));
+  const search = params.toString();
+  return search ? `?${search}` : '';
+};
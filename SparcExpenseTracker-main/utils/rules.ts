@@ -0,0 +1,141 @@
+import type { CategoryRule, Expense, ParsedExpense, TransactionInput, TransactionKind } from '../types';
+import { groupByTransaction } from './expenseFilters';
+import { addTag } from './tagUtils';
+import { getTransactionKind } from './transactionUtils';
+
+export const RULE_MATCH_LABELS: Record<CategoryRule['matchType'], string> = {
+  contains: 'contains',
+  equals: 'is exactly',
+  regex: 'matches pattern',
+};
+
+// What a matching rule changes. Only the fields the rule sets are present.
+export interface RuleOutcome {
+  rule: CategoryRule;
+  vendor?: string;
+  category?: string;
+  tags?: string[];
+}
+
+export const isValidRulePattern = (matchType: CategoryRule['matchType'], pattern: string): boolean => {
+  if (!pattern.trim()) return false;
+  if (matchType !== 'regex') return true;
+  try {
+    new RegExp(pattern, 'i');
+    return true;
+  } catch {
+    return false;
+  }
+};
+
+const matchesVendor = (rule: CategoryRule, vendor: string): boolean => {
+  const name = vendor.trim().toLowerCase();
+  const pattern = rule.pattern.trim().toLowerCase();
+  switch (rule.matchType) {
+    case 'contains': return pattern !== '' && name.includes(pattern);
+    case 'equals': return name === pattern;
+    // An invalid pattern simply never matches; the rule editor refuses to save one.
+    case 'regex': return isValidRulePattern('regex', rule.pattern) && new RegExp(rule.pattern, 'i').test(vendor);
+  }
+};
+
+// Rules are checked top to bottom and the first match wins. Transfers are never matched.
+export const findMatchingRule = (rules: CategoryRule[], vendor: string, amount: number, kind: TransactionKind): CategoryRule | null =>
+  rules.find(rule =>
+    rule.kind === kind &&
+    (rule.minAmount === undefined || amount >= rule.minAmount) &&
+    (rule.maxAmount === undefined || amount <= rule.maxAmount) &&
+    matchesVendor(rule, vendor)
+  ) ?? null;
+
+export const getRuleOutcome = (rules: CategoryRule[], vendor: string, amount: number, kind: TransactionKind): RuleOutcome | null => {
+  const rule = findMatchingRule(rules, vendor, amount, kind);
+  if (!rule) return null;
+  return {
+    rule,
+    vendor: rule.renameTo?.trim() || undefined,
+    category: rule.category,
+    tags: rule.tags && rule.tags.length > 0 ? rule.tags : undefined,
+  };
+};
+
+const mergeTags = (tags: string[] | undefined, added: string[] | undefined): string[] | undefined => {
+  if (!added) return tags;
+  const merged = added.reduce((acc, tag) => addTag(acc, tag), tags ?? []);
+  return merged.length > 0 ? merged : undefined;
+};
+
+// Applies the first matching rule to a transaction about to be saved. The category is only
+// replaced on single-category transactions; splits were divided up deliberately.
+export const applyRulesToTransaction = (transaction: TransactionInput, rules: CategoryRule[]): TransactionInput => {
+  const amount = transaction.splits.reduce((sum, s) => sum + s.amount, 0);
+  const outcome = getRuleOutcome(rules, transaction.vendor, amount, transaction.kind);
+  if (!outcome) return transaction;
+  return {
+    ...transaction,
+    vendor: outcome.vendor ?? transaction.vendor,
+    rawVendor: outcome.vendor ? transaction.rawVendor ?? transaction.vendor : transaction.rawVendor,
+    tags: mergeTags(transaction.tags, outcome.tags),
+    splits: outcome.category && transaction.splits.length === 1
+      ? [{ ...transaction.splits[0], category: outcome.category }]
+      : transaction.splits,
+  };
+};
+
+// Applies the first matching rule to a parsed message, returning the tags it adds alongside.
+export const applyRulesToParsed = (parsed: ParsedExpense, rules: CategoryRule[]): { parsed: ParsedExpense; tags?: string[] } => {
+  const outcome = getRuleOutcome(rules, parsed.vendor, parsed.amount, parsed.kind ?? 'expense');
+  if (!outcome) return { parsed };
+  return {
+    parsed: { ...parsed, vendor: outcome.vendor ?? parsed.vendor, category: outcome.category ?? parsed.category },
+    tags: outcome.tags,
+  };
+};
+
+// A transaction whose vendor, category or tags would change if the rules were applied to it.
+export interface RuleChange {
+  transactionId: string;
+  rule: CategoryRule;
+  before: Expense[];
+  vendor: string;
+  category?: string; // Set only when a single-category transaction gets a new category
+  tags?: string[];
+}
+
+const sameTags = (a: string[] | undefined, b: string[] | undefined) => (a ?? []).join('\n') === (b ?? []).join('\n');
+
+export const previewRulesOnHistory = (expenses: Expense[], rules: CategoryRule[]): RuleChange[] =>
+  groupByTransaction(expenses).flatMap((splits): RuleChange[] => {
+    const first = splits[0];
+    const amount = splits.reduce((sum, s) => sum + s.amount, 0);
+    const outcome = getRuleOutcome(rules, first.vendor, amount, getTransactionKind(first));
+    if (!outcome) return [];
+    const vendor = outcome.vendor ?? first.vendor;
+    const category = outcome.category && splits.length === 1 && outcome.category !== first.category ? outcome.category : undefined;
+    const tags = mergeTags(first.tags, outcome.tags);
+    if (vendor === first.vendor && !category && sameTags(tags, first.tags)) return [];
+    return [{ transactionId: first.transactionId, rule: outcome.rule, before: splits, vendor, category, tags }];
+  });
+
+// Unchanged records are returned as the same objects, so only the changed ones get written.
+export const applyRuleChanges = (expenses: Expense[], changes: RuleChange[]): Expense[] => {
+  const byTransaction = new Map(changes.map(change => [change.transactionId, change]));
+  return expenses.map(expense => {
+    const change = byTransaction.get(expense.transactionId);
+    if (!change) return expense;
+    const rawVendor = change.vendor !== expense.vendor ? expense.rawVendor ?? expense.vendor : expense.rawVendor;
+    return { ...expense, vendor: change.vendor, rawVendor, category: change.category ?? expense.category, tags: change.tags };
+  });
+};
+
+// Keeps rules pointing at a category after it's renamed; a deleted category is dropped from its rules.
+export const renameRuleCategory = (rules: CategoryRule[], from: string, to: string | null): CategoryRule[] =>
+  rules.map(rule => rule.category !== from ? rule : { ...rule, category: to ?? undefined });
+
+export const describeRule = (rule: CategoryRule, currencySymbol: string): string => {
+  const parts = [`${rule.kind === 'income' ? 'Income' : 'Expense'} where vendor ${RULE_MATCH_LABELS[rule.matchType]} "${rule.pattern}"`];
+  if (rule.minAmount !== undefined && rule.maxAmount !== undefined) parts.push(`amount ${currencySymbol}${rule.minAmount}–${currencySymbol}${rule.maxAmount}`);
+  else if (rule.minAmount !== undefined) parts.push(`amount at least ${currencySymbol}${rule.minAmount}`);
+  else if (rule.maxAmount !== undefined) parts.push(`amount at most ${currencySymbol}${rule.maxAmount}`);
+  return parts.join(', ');
+};
@@ -0,0 +1,81 @@
+import type { Contact, Expense, PersonShare, ShareMode } from '../types';
+import { groupByTransaction } from './expenseFilters';
+
+export const SHARE_MODE_LABELS: Record<ShareMode, string> = {
+  equal: 'Equally',
+  exact: 'Amounts',
+  percentage: 'Percent',
+  shares: 'Shares',
+};
+
+const roundToCents = (amount: number) => Math.round(amount * 100) / 100;
+
+export interface ResolvedShares {
+  myAmount: number;
+  shares: PersonShare[];
+}
+
+// Works out how much of `total` each person owes. Rounding leftovers go to our own share so the
+// parts always add up to the bill. Returns null when the entered values don't describe the bill:
+// amounts that don't add up to it, percentages that don't add up to 100, or no shares at all.
+export const resolveShares = (
+  total: number,
+  mode: ShareMode,
+  myValue: number,
+  others: { contactId: string; value: number }[]
+): ResolvedShares | null => {
+  if (others.length === 0 || !(total > 0)) return null;
+  const values = [myValue, ...others.map(o => o.value)];
+  if (mode !== 'equal' && values.some(v => isNaN(v) || v < 0)) return null;
+
+  let amounts: number[];
+  if (mode === 'equal') {
+    amounts = others.map(() => Math.floor((total * 100) / (others.length + 1)) / 100);
+  } else if (mode === 'exact') {
+    if (Math.abs(values.reduce((sum, v) => sum + v, 0) - total) >= 0.01) return null;
+    amounts = others.map(o => o.value);
+  } else if (mode === 'percentage') {
+    if (Math.abs(values.reduce((sum, v) => sum + v, 0) - 100) >= 0.01) return null;
+    amounts = others.map(o => roundToCents((total * o.value) / 100));
+  } else {
+    const totalShares = values.reduce((sum, v) => sum + v, 0);
+    if (totalShares <= 0) return null;
+    amounts = others.map(o => roundToCents((total * o.value) / totalShares));
+  }
+
+  return {
+    myAmount: roundToCents(total - amounts.reduce((sum, a) => sum + a, 0)),
+    shares: others.map((o, i) => ({ contactId: o.contactId, value: mode === 'equal' ? 1 : o.value, amount: amounts[i] })),
+  };
+};
+
+// What other people owe for a shared bill we paid, in the base currency. Zero otherwise.
+export const getOthersShare = (splits: Expense[]): number => {
+  const { sharing } = splits[0];
+  if (!sharing || sharing.paidBy) return 0;
+  return sharing.shares.reduce((sum, share) => sum + share.amount, 0);
+};
+
+// How much each contact owes us across shared bills and settlements. Positive means they owe
+// us, negative means we owe them. Trashed transactions are expected to be left out by the caller.
+export const getContactBalances = (contacts: Contact[], expenses: Expense[]): Record<string, number> => {
+  const balances: Record<string, number> = Object.fromEntries(contacts.map(c => [c.id, 0]));
+  const add = (contactId: string, amount: number) => {
+    if (contactId in balances) balances[contactId] += amount;
+  };
+
+  groupByTransaction(expenses).forEach(splits => {
+    const [first] = splits;
+    const amount = splits.reduce((sum, split) => sum + split.amount, 0);
+    if (first.settlement) {
+      add(first.settlement.contactId, first.settlement.direction === 'received' ? -amount : amount);
+    } else if (first.sharing?.paidBy) {
+      // Someone else paid: we owe them our share. What the others owe is between them and the payer.
+      add(first.sharing.paidBy, -amount);
+    } else if (first.sharing) {
+      first.sharing.shares.forEach(share => add(share.contactId, share.amount));
+    }
+  });
+
+  return Object.fromEntries(Object.entries(balances).map(([id, balance]) => [id, roundToCents(balance)]));
+};
@@ -0,0 +1,106 @@
+import { guessDateFormat, parseCsvAmount, parseCsvDate } from './csvImport';
+
+export type StatementFormat = 'ofx' | 'qif';
+
+// One entry from a bank statement. `amount` is signed: negative for debits, positive for credits.
+export interface StatementEntry {
+  importId: string;
+  date: string; // YYYY-MM-DD
+  amount: number;
+  payee: string;
+  memo?: string;
+  category?: string;
+  currency?: string;
+}
+
+export const detectStatementFormat = (fileName: string, text: string): StatementFormat | null => {
+  if (/\.(ofx|qfx)$/i.test(fileName) || /<OFX>|OFXHEADER/i.test(text)) return 'ofx';
+  if (/\.qif$/i.test(fileName) || /^!Type:/im.test(text)) return 'qif';
+  return null;
+};
+
+// Reads a tag's value from an OFX block. Works for both SGML (v1, unclosed tags) and XML (v2).
+const readOfxTag = (block: string, tag: string): string | undefined => {
+  const match = block.match(new RegExp(`<${tag}>([^<\\r\\n]*)`, 'i'));
+  const value = match?.[1].trim();
+  return value ? decodeOfxEntities(value) : undefined;
+};
+
+const decodeOfxEntities = (value: string) =>
+  value.replace(/&lt;/g, '<').replace(/&gt;/g, '>').replace(/&quot;/g, '"').replace(/&apos;/g, "'").replace(/&amp;/g, '&');
+
+// OFX dates look like 20240315, 20240315120000 or 20240315120000.000[+5.30:IST].
+const parseOfxDate = (value: string | undefined): string | null => {
+  const match = value?.match(/^(\d{4})(\d{2})(\d{2})/);
+  return match ? parseCsvDate(`${match[1]}-${match[2]}-${match[3]}`, 'YYYY-MM-DD') : null;
+};
+
+export const parseOfx = (text: string): StatementEntry[] => {
+  const currency = readOfxTag(text, 'CURDEF');
+  // FITIDs are only unique per account, so scope them by the account id.
+  const accountId = readOfxTag(text, 'ACCTID') ?? '';
+  const blocks = text.split(/<STMTTRN>/i).slice(1).map(block => block.split(/<\/STMTTRN>|<\/BANKTRANLIST>/i)[0]);
+
+  return blocks.flatMap(block => {
+    const date = parseOfxDate(readOfxTag(block, 'DTPOSTED') ?? readOfxTag(block, 'DTUSER'));
+    const amount = parseCsvAmount(readOfxTag(block, 'TRNAMT') ?? '');
+    if (!date || amount === null || amount === 0) return [];
+    const fitId = readOfxTag(block, 'FITID') ?? readOfxTag(block, 'REFNUM') ?? `${date}:${amount}:${readOfxTag(block, 'NAME') ?? ''}`;
+    const name = readOfxTag(block, 'NAME') ?? readOfxTag(block, 'PAYEEID');
+    const memo = readOfxTag(block, 'MEMO');
+    return [{
+      importId: `ofx:${accountId}:${fitId}`,
+      date,
+      amount,
+      payee: name ?? memo ?? 'Unknown',
+      memo: name && memo && memo !== name ? memo : undefined,
+      currency: readOfxTag(block, 'CURRENCY') ?? currency,
+    }];
+  });
+};
+
+export const parseQif = (text: string): StatementEntry[] => {
+  const records: Record<string, string>[] = [];
+  let current: Record<string, string> = {};
+  text.split(/\r?\n/).forEach(rawLine => {
+    const line = rawLine.trim();
+    if (!line || line.startsWith('!')) return;
+    if (line === '^') {
+      if (Object.keys(current).length > 0) records.push(current);
+      current = {};
+      return;
+    }
+    const code = line[0];
+    // Split lines (S/E/$) repeat per split; only the transaction-level fields are kept.
+    if (!(code in current)) current[code] = line.slice(1).trim();
+  });
+  if (Object.keys(current).length > 0) records.push(current);
+
+  // QIF dates are written like 03/15/2024, 3/15'24 or 15/03/2024, with the order depending on the bank.
+  const normalizeDate = (value: string) => value.replace(/'\s*/g, '/').replace(/\s+/g, '');
+  const dateFormat = guessDateFormat(records.map(r => normalizeDate(r.D ?? '')));
+
+  // QIF has no transaction ids, so identical entries in one file are told apart by occurrence.
+  const seen = new Map<string, number>();
+  return records.flatMap(record => {
+    const date = parseCsvDate(normalizeDate(record.D ?? ''), dateFormat);
+    const amount = parseCsvAmount(record.T ?? record.U ?? '');
+    if (!date || amount === null || amount === 0) return [];
+    const payee = record.P || record.M || 'Unknown';
+    const reference = `${date}:${amount}:${(record.N || payee).toLowerCase()}`;
+    const occurrence = (seen.get(reference) ?? 0) + 1;
+    seen.set(reference, occurrence);
+    return [{
+      importId: `qif:${reference}:${occurrence}`,
+      date,
+      amount,
+      payee,
+      memo: record.P && record.M ? record.M : undefined,
+      // Categories may carry a subcategory ("Food:Groceries") or be a transfer account ("[Savings]").
+      category: record.L && !record.L.startsWith('[') ? record.L.split(':')[0] : undefined,
+    }];
+  });
+};
+
+export const parseStatement = (format: StatementFormat, text: string): StatementEntry[] =>
+  format === 'ofx' ? parseOfx(text) : parseQif(text);
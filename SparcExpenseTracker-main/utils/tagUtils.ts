@@ -0,0 +1,75 @@
+import type { CategoryRule, Expense, RecurringTransaction } from '../types';
+
+export interface TagSummary {
+  name: string;
+  transactionCount: number;
+}
+
+// Tags are trimmed with inner whitespace collapsed; comparisons ignore case.
+export const normalizeTag = (tag: string): string => tag.trim().replace(/\s+/g, ' ');
+
+const sameTag = (a: string, b: string) => a.toLowerCase() === b.toLowerCase();
+
+// Adds a tag unless it's empty or already present, reusing the spelling of a known tag if there is one.
+export const addTag = (tags: string[], tag: string, knownTags: string[] = []): string[] => {
+  const normalized = normalizeTag(tag);
+  if (!normalized || tags.some(t => sameTag(t, normalized))) return tags;
+  return [...tags, knownTags.find(t => sameTag(t, normalized)) ?? normalized];
+};
+
+// Every tag in use with the number of transactions carrying it, most used first. Tags differing
+// only in case are counted together under the first spelling seen.
+export const getTagSummaries = (expenses: Expense[]): TagSummary[] => {
+  const byKey = new Map<string, { name: string; transactionIds: Set<string> }>();
+  expenses.forEach(expense => {
+    expense.tags?.forEach(tag => {
+      const key = tag.toLowerCase();
+      if (!byKey.has(key)) byKey.set(key, { name: tag, transactionIds: new Set() });
+      byKey.get(key)!.transactionIds.add(expense.transactionId);
+    });
+  });
+  return Array.from(byKey.values())
+    .map(({ name, transactionIds }) => ({ name, transactionCount: transactionIds.size }))
+    .sort((a, b) => b.transactionCount - a.transactionCount || a.name.localeCompare(b.name));
+};
+
+// Renames `from` to `to` everywhere. Renaming onto an existing tag merges the two.
+const replaceTag = (tags: string[] | undefined, from: string, to: string | null): string[] | undefined => {
+  if (!tags || !tags.some(t => sameTag(t, from))) return tags;
+  const replaced = tags.flatMap(t => sameTag(t, from) ? (to ? [to] : []) : [t]);
+  const deduped = replaced.filter((t, i) => replaced.findIndex(other => sameTag(other, t)) === i);
+  return deduped.length > 0 ? deduped : undefined;
+};
+
+// Unchanged records are returned as the same objects, so only the changed ones get written.
+export const retagExpenses = (expenses: Expense[], from: string, to: string | null): Expense[] =>
+  expenses.map(expense => {
+    const tags = replaceTag(expense.tags, from, to);
+    return tags === expense.tags ? expense : { ...expense, tags };
+  });
+
+export const retagRecurringTransactions = (series: RecurringTransaction[], from: string, to: string | null): RecurringTransaction[] =>
+  series.map(s => {
+    const tags = replaceTag(s.tags, from, to);
+    return tags === s.tags ? s : { ...s, tags };
+  });
+
+export const retagRules = (rules: CategoryRule[], from: string, to: string | null): CategoryRule[] =>
+  rules.map(rule => {
+    const tags = replaceTag(rule.tags, from, to);
+    return tags === rule.tags ? rule : { ...rule, tags };
+  });
+
+// Sums split amounts per tag. A transaction with several tags counts towards each of them.
+export const getTagSpend = (expenses: Expense[]): { name: string; amount: number }[] => {
+  const byKey = new Map<string, { name: string; amount: number }>();
+  expenses.forEach(expense => {
+    expense.tags?.forEach(tag => {
+      const key = tag.toLowerCase();
+      const entry = byKey.get(key);
+      if (entry) entry.amount += expense.amount;
+      else byKey.set(key, { name: tag, amount: expense.amount });
+    });
+  });
+  return Array.from(byKey.values()).sort((a, b) => b.amount - a.amount);
+};
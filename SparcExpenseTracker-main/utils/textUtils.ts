@@ -17,3 +17,24 @@ export const sanitizeSmsText = (text: string): string => {
     .trim()
     .replace(/\s+/g, ' ');
 };
+
+// Looks for a currency-marked amount, e.g. "Rs. 1,200", "INR 500.00", "₹99" or "$12.50".
+const AMOUNT_PATTERN = /(rs\.?|inr|₹|usd|\$|eur|€|gbp|£)\s?\d[\d,]*(\.\d+)?/i;
+
+// Splits a pasted block of text into individual messages. Messages separated by blank lines are
+// split there; otherwise, when several lines each mention an amount, every line is its own message.
+export const splitSmsMessages = (text: string): string[] => {
+  if (!text) return [];
+  const normalized = text.replace(/\r\n?/g, '\n').trim();
+  if (!normalized) return [];
+
+  const blocks = normalized.split(/\n\s*\n/).map(b => b.trim()).filter(Boolean);
+  if (blocks.length > 1) return blocks;
+
+  const lines = normalized.split('\n').map(l => l.trim()).filter(Boolean);
+  const linesWithAmounts = lines.filter(line => AMOUNT_PATTERN.test(line));
+  if (linesWithAmounts.length > 1 && linesWithAmounts.length === lines.length) {
+    return lines;
+  }
+  return [normalized];
+};
@@ -0,0 +1,27 @@
+import type { Expense, CategoryDefinition, CategoryKind, TransactionKind } from '../types';
+import { DEFAULT_EXPENSE_CATEGORY, DEFAULT_INCOME_CATEGORY, TRANSFER_CATEGORY } from '../constants';
+
+// Records created before income tracking have no kind and are expenses.
+export const getTransactionKind = (expense: Pick<Expense, 'kind'>): TransactionKind => expense.kind ?? 'expense';
+
+export const getCategoryKind = (category: Pick<CategoryDefinition, 'kind'>): CategoryKind => category.kind ?? 'expense';
+
+export const getDefaultCategory = (kind: TransactionKind): string => {
+  switch (kind) {
+    case 'income':
+      return DEFAULT_INCOME_CATEGORY;
+    case 'transfer':
+      return TRANSFER_CATEGORY;
+    default:
+      return DEFAULT_EXPENSE_CATEGORY;
+  }
+};
+
+let lastTransactionId = 0;
+
+// Transaction ids are creation timestamps and are also used as a sort tiebreaker, so keep them
+// unique and increasing even when many transactions are created within the same millisecond.
+export const generateTransactionId = (): string => {
+  lastTransactionId = Math.max(Date.now(), lastTransactionId + 1);
+  return lastTransactionId.toString();
+};
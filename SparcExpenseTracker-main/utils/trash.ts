@@ -0,0 +1,74 @@
+import type { Expense, TransactionKind } from '../types';
+import { getTransactionKind } from './transactionUtils';
+
+export const TRASH_RETENTION_OPTIONS = [7, 14, 30, 60, 90];
+export const DEFAULT_TRASH_RETENTION_DAYS = 30;
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+export const isTrashed = (expense: Pick<Expense, 'deletedAt'>): boolean => Boolean(expense.deletedAt);
+
+export const getActiveExpenses = (expenses: Expense[]): Expense[] => expenses.filter(expense => !isTrashed(expense));
+
+// Unchanged records are returned as the same objects, so only the changed ones get written.
+export const moveToTrash = (expenses: Expense[], transactionId: string, now = new Date()): Expense[] => {
+  const deletedAt = now.toISOString();
+  return expenses.map(expense => expense.transactionId === transactionId && !isTrashed(expense) ? { ...expense, deletedAt } : expense);
+};
+
+export const restoreFromTrash = (expenses: Expense[], transactionIds: string[]): Expense[] => {
+  const ids = new Set(transactionIds);
+  return expenses.map(expense => {
+    if (!ids.has(expense.transactionId) || !isTrashed(expense)) return expense;
+    const { deletedAt: _deletedAt, ...restored } = expense;
+    return restored;
+  });
+};
+
+export const purgeFromTrash = (expenses: Expense[], transactionIds: string[]): Expense[] => {
+  const ids = new Set(transactionIds);
+  return expenses.filter(expense => !(ids.has(expense.transactionId) && isTrashed(expense)));
+};
+
+export const getPurgeDate = (deletedAt: string, retentionDays: number): Date =>
+  new Date(new Date(deletedAt).getTime() + retentionDays * DAY_MS);
+
+// Removes everything that has been in the trash longer than the retention period. Returns the
+// same array when nothing expired, so callers can skip the update.
+export const purgeExpiredTrash = (expenses: Expense[], retentionDays: number, now = new Date()): Expense[] => {
+  const isExpired = (expense: Expense) => isTrashed(expense) && getPurgeDate(expense.deletedAt!, retentionDays) <= now;
+  return expenses.some(isExpired) ? expenses.filter(expense => !isExpired(expense)) : expenses;
+};
+
+export interface TrashedTransaction {
+  transactionId: string;
+  vendor: string;
+  date: string;
+  kind: TransactionKind;
+  amount: number; // Total across splits, in the base currency
+  categories: string[];
+  deletedAt: string;
+}
+
+// One entry per trashed transaction, most recently deleted first.
+export const getTrashedTransactions = (expenses: Expense[]): TrashedTransaction[] => {
+  const byId = new Map<string, TrashedTransaction>();
+  expenses.filter(isTrashed).forEach(expense => {
+    const existing = byId.get(expense.transactionId);
+    if (existing) {
+      existing.amount += expense.amount;
+      if (!existing.categories.includes(expense.category)) existing.categories.push(expense.category);
+      return;
+    }
+    byId.set(expense.transactionId, {
+      transactionId: expense.transactionId,
+      vendor: expense.vendor,
+      date: expense.date,
+      kind: getTransactionKind(expense),
+      amount: expense.amount,
+      categories: [expense.category],
+      deletedAt: expense.deletedAt!,
+    });
+  });
+  return Array.from(byId.values()).sort((a, b) => b.deletedAt.localeCompare(a.deletedAt));
+};
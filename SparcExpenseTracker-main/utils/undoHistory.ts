@@ -0,0 +1,120 @@
+import type { Account, CategoryDefinition, CategoryRule, Contact, Currency, ExchangeRates, Expense, Merchant, RecurringTransaction } from '../types';
+import { generateTransactionId } from './transactionUtils';
+
+// Everything an undoable action can change.
+export interface UndoableData {
+  expenses: Expense[];
+  categories: CategoryDefinition[];
+  recurringTransactions: RecurringTransaction[];
+  rules: CategoryRule[];
+  merchants: Merchant[];
+  accounts: Account[];
+  contacts: Contact[];
+  exchangeRates: ExchangeRates;
+  currency: Currency;
+}
+
+// Small values are stored whole; the two large collections only as the records that changed.
+type ValueKey = Exclude<keyof UndoableData, 'expenses' | 'categories'>;
+const VALUE_KEYS: ValueKey[] = ['recurringTransactions', 'rules', 'merchants', 'accounts', 'contacts', 'exchangeRates', 'currency'];
+
+interface RecordDiff<T> {
+  removed: T[];
+  added: T[];
+}
+
+export interface HistoryEntry {
+  id: string;
+  label: string;
+  timestamp: string; // ISO timestamp
+  expenses?: RecordDiff<Expense>;
+  categories?: RecordDiff<CategoryDefinition>;
+  values?: { [K in ValueKey]?: { before: UndoableData[K]; after: UndoableData[K] } };
+}
+
+export interface UndoHistory {
+  past: HistoryEntry[]; // Oldest first
+  future: HistoryEntry[]; // Next to redo first
+}
+
+// Names the change about to be made so it can be undone. Destructive changes also offer an immediate undo.
+export type RecordUndoableAction = (label: string, options?: { destructive?: boolean }) => void;
+
+export const EMPTY_UNDO_HISTORY: UndoHistory = { past: [], future: [] };
+
+// The history is stored as one record and rewritten after every action, so older entries are
+// dropped to keep it small: at most this many entries, holding at most this many records between
+// them. A restore or merge can replace every expense at once, so its entry is usually kept only
+// until the next action.
+const MAX_HISTORY_ENTRIES = 30;
+const MAX_HISTORY_RECORDS = 5000;
+
+// Records are immutable, so a record that changed is a different object.
+const diffRecords = <T>(before: T[], after: T[]): RecordDiff<T> | undefined => {
+  if (before === after) return undefined;
+  const beforeSet = new Set(before);
+  const afterSet = new Set(after);
+  const removed = before.filter(item => !afterSet.has(item));
+  const added = after.filter(item => !beforeSet.has(item));
+  return removed.length > 0 || added.length > 0 ? { removed, added } : undefined;
+};
+
+export const createHistoryEntry = (label: string, before: UndoableData, after: UndoableData): HistoryEntry | null => {
+  const entry: HistoryEntry = { id: `history-${generateTransactionId()}`, label, timestamp: new Date().toISOString() };
+  entry.expenses = diffRecords(before.expenses, after.expenses);
+  entry.categories = diffRecords(before.categories, after.categories);
+  const values: HistoryEntry['values'] = {};
+  VALUE_KEYS.forEach(key => {
+    if (before[key] !== after[key]) Object.assign(values, { [key]: { before: before[key], after: after[key] } });
+  });
+  if (Object.keys(values).length > 0) entry.values = values;
+  return entry.expenses || entry.categories || entry.values ? entry : null;
+};
+
+const countRecords = (entry: HistoryEntry): number => {
+  const diffs = [entry.expenses, entry.categories];
+  const values = Object.values(entry.values ?? {}).flatMap(({ before, after }) => [before, after]);
+  return diffs.reduce((sum, diff) => sum + (diff ? diff.removed.length + diff.added.length : 0), 0)
+    + values.reduce((sum, value) => sum + (Array.isArray(value) ? value.length : 1), 0);
+};
+
+// Adds a new entry to the past, dropping the oldest ones over the limits. The new entry is always
+// kept, however large, so the last change can be undone.
+export const addHistoryEntry = (past: HistoryEntry[], entry: HistoryEntry): HistoryEntry[] => {
+  const kept = [entry];
+  let total = countRecords(entry);
+  for (let i = past.length - 1; i >= 0 && kept.length < MAX_HISTORY_ENTRIES; i--) {
+    total += countRecords(past[i]);
+    if (total > MAX_HISTORY_RECORDS) break;
+    kept.unshift(past[i]);
+  }
+  return kept;
+};
+
+const replaceRecords = <T>(current: T[], remove: T[], add: T[], getKey: (item: T) => string): T[] => {
+  const removeKeys = new Set(remove.map(getKey));
+  const addKeys = new Set(add.map(getKey));
+  return [...current.filter(item => !removeKeys.has(getKey(item)) && !addKeys.has(getKey(item))), ...add];
+};
+
+// Returns the data as it should be after undoing (or redoing) the entry. Only what the entry
+// touched is included. Records are matched by key, so it still applies after a reload.
+export const applyHistoryEntry = (data: UndoableData, entry: HistoryEntry, direction: 'undo' | 'redo'): Partial<UndoableData> => {
+  const isUndo = direction === 'undo';
+  const changes: Partial<UndoableData> = {};
+  if (entry.expenses) {
+    const { removed, added } = entry.expenses;
+    changes.expenses = replaceRecords(data.expenses, isUndo ? added : removed, isUndo ? removed : added, e => e.id);
+  }
+  if (entry.categories) {
+    const { removed, added } = entry.categories;
+    changes.categories = replaceRecords(data.categories, isUndo ? added : removed, isUndo ? removed : added, c => c.name);
+  }
+  if (entry.values) {
+    VALUE_KEYS.forEach(key => {
+      const value = entry.values![key];
+      if (value) Object.assign(changes, { [key]: isUndo ? value.before : value.after });
+    });
+  }
+  return changes;
+};
@@ -1,5 +1,7 @@
 import { defineConfig } from 'vite'
 import react from '@vitejs/plugin-react'
+import { createHash } from 'node:crypto'
+import { readFileSync } from 'node:fs'
 
 // https://vitejs.dev/config/
 export default defineConfig({
@@ -14,6 +16,30 @@ export default defineConfig({
           ''
         );
       },
+    },
+    {
+      // Builds sw.js from the template in the project root, prefixed with every file in this build
+      // so they're all precached. The version is hashed from the contents of every file and of the
+      // template, so any change, even to index.html alone, gives the build its own cache and makes
+      // browsers install the new worker.
+      name: 'generate-service-worker',
+      apply: 'build',
+      enforce: 'post',
+      generateBundle(_options, bundle) {
+        const files = Object.keys(bundle).sort();
+        const template = readFileSync(new URL('./sw.js', import.meta.url), 'utf-8');
+        const hash = createHash('sha256').update(template);
+        for (const file of files) {
+          const output = bundle[file];
+          hash.update(file).update(output.type === 'chunk' ? output.code : output.source);
+        }
+        const version = hash.digest('hex').slice(0, 12);
+        this.emitFile({
+          type: 'asset',
+          fileName: 'sw.js',
+          source: `self.__PRECACHE_MANIFEST = ${JSON.stringify({ version, urls: files.map(file => `/${file}`) })};\n${template}`,
+        });
+      },
     }
   ],
   server: {